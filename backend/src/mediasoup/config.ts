@@ -1,10 +1,14 @@
+import os from 'os';
 import { RtpCodecCapability, TransportListenInfo, WorkerLogLevel, WorkerLogTag } from 'mediasoup/node/lib/types';
 
 export const config = {
   // Worker settings
   worker: {
-    rtcMinPort: 10000,
-    rtcMaxPort: 10100,
+    // One worker per CPU unless MEDIASOUP_WORKERS says otherwise
+    numWorkers: parseInt(process.env.MEDIASOUP_WORKERS || '') || os.cpus().length,
+    // Split evenly between the workers
+    rtcMinPort: parseInt(process.env.RTC_MIN_PORT || '10000'),
+    rtcMaxPort: parseInt(process.env.RTC_MAX_PORT || '10100'),
     logLevel: 'debug' as WorkerLogLevel,
     logTags: [
       'info',
@@ -18,6 +22,8 @@ export const config = {
 
   // Router settings
   router: {
+    // A room gets another router (on another worker if possible) once each of its routers has this many peers
+    maxPeersPerRouter: parseInt(process.env.MAX_PEERS_PER_ROUTER || '25'),
     mediaCodecs: [
       {
         kind: 'audio',
@@ -33,6 +39,16 @@ export const config = {
           'x-google-start-bitrate': 1000,
         },
       },
+      // Used by clients that can send SVC (Chromium); VP8 simulcast otherwise
+      {
+        kind: 'video',
+        mimeType: 'video/VP9',
+        clockRate: 90000,
+        parameters: {
+          'profile-id': 0,
+          'x-google-start-bitrate': 1000,
+        },
+      },
     ] as RtpCodecCapability[],
   },
 
@@ -57,11 +73,29 @@ export const config = {
     maxIncomingBitrate: 1500000,
   },
 
-  // Producer options - 480p max
+  // Server-side recording settings (PlainTransport -> ffmpeg)
+  recording: {
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    listenIp: '127.0.0.1',
+    rtpMinPort: 20000,
+    rtpMaxPort: 20999,
+  },
+
+  // Offline transcription of stored recordings (see utils/speech.ts)
+  transcription: {
+    engine: process.env.SPEECH_ENGINE || 'whisper.cpp', // 'none' turns transcription off
+    whisperPath: process.env.WHISPER_CPP_PATH || 'whisper-cli',
+    whisperModel: process.env.WHISPER_MODEL || 'models/ggml-base.bin',
+    language: process.env.TRANSCRIPTION_LANGUAGE || 'auto',
+    threads: parseInt(process.env.TRANSCRIPTION_THREADS || '') || Math.max(1, Math.floor(os.cpus().length / 2)),
+  },
+
+  // Producer options - 720p max, sent as simulcast or SVC with spatial layers
+  // at 1/4, 1/2 and full size (180p / 360p / 720p)
   producer: {
     video: {
-      maxWidth: 854,
-      maxHeight: 480,
+      maxWidth: 1280,
+      maxHeight: 720,
       maxFrameRate: 30,
     },
   },
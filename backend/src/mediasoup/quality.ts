@@ -0,0 +1,232 @@
+import { EventEmitter } from 'events';
+import { parseScalabilityMode } from 'mediasoup';
+import { Consumer, Transport, BaseTransportStats } from 'mediasoup/node/lib/types';
+
+/**
+ * Downlink quality adaptation
+ *
+ * Every peer's incoming video is stepped down when its downlink can't keep up
+ * (low consumer scores, or a bandwidth estimate too low for video), and back up
+ * once it has been healthy for a while:
+ *   0 - layers as requested by the client's tile sizes
+ *   1 - at most the middle spatial layer (360p)
+ *   2 - only the lowest spatial layer (180p)
+ *   3 - lowest spatial layer at the lowest frame rate
+ *   4 - video paused, audio only
+ */
+
+export type QualityState = 'good' | 'reduced' | 'audioOnly';
+
+const MAX_LEVEL = 4;
+const CHECK_INTERVAL_MS = 3000;
+const RECOVERY_CHECKS = 3; // consecutive healthy checks before stepping back up
+
+// Consumer scores go from 0 (unusable) to 10 (perfect)
+const BAD_SCORE = 5;
+const GOOD_SCORE = 8;
+
+// Estimated downlink below which video is cut back, and above which it may come back
+const MIN_VIDEO_BITRATE = 150000;
+const RECOVERY_BITRATE = 400000;
+
+interface ConsumerEntry {
+  consumer: Consumer;
+  preferredSpatialLayer?: number; // from the tile size, unset until the client reports one
+  pausedForQuality: boolean;
+  score: number;
+}
+
+interface PeerQuality {
+  transports: Set<Transport>;
+  consumers: Map<string, ConsumerEntry>;
+  level: number;
+  healthyChecks: number;
+}
+
+const peers = new Map<string, PeerQuality>();
+let checkInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Quality events:
+ * - 'qualityChanged' ({ peerId, level, state }) when a peer's incoming video is stepped down or up
+ */
+export const qualityEvents = new EventEmitter();
+
+function getPeerQuality(peerId: string): PeerQuality {
+  let peer = peers.get(peerId);
+  if (!peer) {
+    peer = { transports: new Set(), consumers: new Map(), level: 0, healthyChecks: 0 };
+    peers.set(peerId, peer);
+  }
+  return peer;
+}
+
+function getState(level: number): QualityState {
+  if (level === 0) return 'good';
+  return level === MAX_LEVEL ? 'audioOnly' : 'reduced';
+}
+
+/**
+ * Apply a peer's quality level (and the consumer's own preference) to one video consumer
+ */
+async function applyLevel(entry: ConsumerEntry, level: number): Promise<void> {
+  const { consumer } = entry;
+  if (consumer.closed || consumer.kind !== 'video') return;
+
+  if (level === MAX_LEVEL) {
+    if (!consumer.paused) {
+      await consumer.pause();
+      entry.pausedForQuality = true;
+    }
+    return;
+  }
+
+  if (entry.pausedForQuality) {
+    await consumer.resume();
+    entry.pausedForQuality = false;
+  }
+
+  // Single-layer producers have nothing to choose from
+  if (consumer.type !== 'simulcast' && consumer.type !== 'svc') return;
+
+  const { spatialLayers, temporalLayers } = parseScalabilityMode(
+    consumer.rtpParameters.encodings?.[0]?.scalabilityMode
+  );
+
+  let spatialLayer = entry.preferredSpatialLayer ?? spatialLayers - 1;
+  let temporalLayer = temporalLayers - 1;
+
+  if (level >= 1) spatialLayer = Math.min(spatialLayer, spatialLayers - 2);
+  if (level >= 2) spatialLayer = 0;
+  if (level >= 3) temporalLayer = 0;
+
+  await consumer.setPreferredLayers({ spatialLayer: Math.max(spatialLayer, 0), temporalLayer });
+}
+
+/**
+ * Start watching a consumer for a peer's downlink quality
+ */
+export function trackConsumer(peerId: string, transport: Transport, consumer: Consumer): void {
+  const peer = getPeerQuality(peerId);
+  peer.transports.add(transport);
+
+  const entry: ConsumerEntry = { consumer, pausedForQuality: false, score: 10 };
+  peer.consumers.set(consumer.id, entry);
+
+  consumer.on('score', ({ score }) => {
+    entry.score = score;
+  });
+  consumer.observer.once('close', () => {
+    peer.consumers.delete(consumer.id);
+  });
+  transport.observer.once('close', () => {
+    peer.transports.delete(transport);
+  });
+
+  // New consumers start at the peer's current level
+  applyLevel(entry, peer.level).catch((error) => {
+    console.error(`[Quality] Error applying level to consumer ${consumer.id}:`, error);
+  });
+}
+
+/**
+ * Set the spatial layer a consumer's tile size calls for; the peer's quality level may still cap it
+ */
+export async function setPreferredSpatialLayer(peerId: string, consumerId: string, spatialLayer: number): Promise<void> {
+  const peer = peers.get(peerId);
+  const entry = peer?.consumers.get(consumerId);
+  if (!peer || !entry) return;
+
+  entry.preferredSpatialLayer = spatialLayer;
+  await applyLevel(entry, peer.level);
+}
+
+/**
+ * Stop watching a peer (it left the room)
+ */
+export function untrackPeer(peerId: string): void {
+  peers.delete(peerId);
+}
+
+/**
+ * Get the estimated bandwidth towards a peer, if the transports report one
+ */
+async function getAvailableBitrate(peer: PeerQuality): Promise<number | undefined> {
+  let available: number | undefined;
+
+  for (const transport of peer.transports) {
+    if (transport.closed) continue;
+    const stats = (await transport.getStats()) as BaseTransportStats[];
+    for (const stat of stats) {
+      if (stat.availableOutgoingBitrate !== undefined) {
+        available = (available ?? 0) + stat.availableOutgoingBitrate;
+      }
+    }
+  }
+
+  return available;
+}
+
+/**
+ * Step a peer's quality down or up from its consumer scores and bandwidth estimate
+ */
+async function checkPeer(peerId: string, peer: PeerQuality): Promise<void> {
+  if (peer.consumers.size === 0) return;
+
+  const scores = Array.from(peer.consumers.values()).map(entry => entry.score);
+  const averageScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const available = await getAvailableBitrate(peer);
+
+  const struggling = averageScore < BAD_SCORE || (available !== undefined && available < MIN_VIDEO_BITRATE);
+  const healthy = averageScore >= GOOD_SCORE && (available === undefined || available >= RECOVERY_BITRATE);
+
+  let level = peer.level;
+  if (struggling) {
+    peer.healthyChecks = 0;
+    level = Math.min(level + 1, MAX_LEVEL);
+  } else if (healthy && level > 0) {
+    peer.healthyChecks++;
+    if (peer.healthyChecks >= RECOVERY_CHECKS) {
+      peer.healthyChecks = 0;
+      level--;
+    }
+  } else {
+    peer.healthyChecks = 0;
+  }
+
+  if (level === peer.level) return;
+
+  console.log(`[Quality] Peer ${peerId} level ${peer.level} -> ${level} (score ${averageScore.toFixed(1)}, available ${available ?? 'n/a'} bps)`);
+  peer.level = level;
+
+  for (const entry of peer.consumers.values()) {
+    await applyLevel(entry, level);
+  }
+
+  qualityEvents.emit('qualityChanged', { peerId, level, state: getState(level) });
+}
+
+/**
+ * Start the periodic quality checks
+ */
+export function startQualityMonitor(): void {
+  if (checkInterval) return;
+
+  checkInterval = setInterval(() => {
+    for (const [peerId, peer] of peers) {
+      checkPeer(peerId, peer).catch((error) => {
+        console.error(`[Quality] Error checking peer ${peerId}:`, error);
+      });
+    }
+  }, CHECK_INTERVAL_MS);
+}
+
+/**
+ * Stop the periodic quality checks
+ */
+export function stopQualityMonitor(): void {
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+  }
+}
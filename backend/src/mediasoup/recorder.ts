@@ -0,0 +1,417 @@
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import { Consumer, PlainTransport, Producer } from 'mediasoup/node/lib/types';
+import { getRoom, Peer } from './room';
+import { config } from './config';
+import {
+  addRecording,
+  getRecordingFilePath,
+  Recording,
+  RecordingTrack,
+  RecordingType,
+} from '../storage/fileStorage';
+import { compositionQueue } from '../storage/compositionQueue';
+import { searchIndex } from '../storage/searchIndex';
+
+interface TrackCapture {
+  producerId: string;
+  peerId: string;
+  userId: string;
+  username: string;
+  kind: 'audio' | 'video';
+  filename: string;
+  startOffset: number;
+  rtpPort: number;
+  transport: PlainTransport;
+  consumer: Consumer;
+  ffmpeg: ChildProcess;
+  exited: Promise<void>;
+}
+
+interface ServerRecording {
+  recordingId: string;
+  roomId: string;
+  userId: string;
+  username: string;
+  startedAt: number;
+  captures: Map<string, TrackCapture>;
+  stopping: Promise<void>[];
+  tracks: RecordingTrack[];
+}
+
+// Active server-side recordings, keyed by room ID
+const recordings = new Map<string, ServerRecording>();
+
+// RTP ports handed to ffmpeg (RTCP uses port + 1)
+const usedPorts = new Set<number>();
+
+/**
+ * Reserve an even RTP port (and its RTCP neighbour) for an ffmpeg process
+ */
+function allocatePort(): number {
+  const { rtpMinPort, rtpMaxPort } = config.recording;
+  const start = rtpMinPort % 2 === 0 ? rtpMinPort : rtpMinPort + 1;
+
+  for (let port = start; port + 1 <= rtpMaxPort; port += 2) {
+    if (!usedPorts.has(port)) {
+      usedPorts.add(port);
+      return port;
+    }
+  }
+
+  throw new Error('No free RTP ports for recording');
+}
+
+/**
+ * Build the SDP that tells ffmpeg what the consumer will send
+ */
+function createSdp(consumer: Consumer, rtpPort: number): string {
+  const { listenIp } = config.recording;
+  const codec = consumer.rtpParameters.codecs[0];
+  const codecName = codec.mimeType.split('/')[1];
+  const rtpmap = codec.channels && codec.channels > 1
+    ? `${codecName}/${codec.clockRate}/${codec.channels}`
+    : `${codecName}/${codec.clockRate}`;
+
+  const lines = [
+    'v=0',
+    `o=- 0 0 IN IP4 ${listenIp}`,
+    's=cindy-recording',
+    `c=IN IP4 ${listenIp}`,
+    't=0 0',
+    `m=${consumer.kind} ${rtpPort} RTP/AVPF ${codec.payloadType}`,
+    `a=rtcp:${rtpPort + 1}`,
+    `a=rtpmap:${codec.payloadType} ${rtpmap}`,
+  ];
+
+  const fmtp = Object.entries(codec.parameters || {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(';');
+  if (fmtp) {
+    lines.push(`a=fmtp:${codec.payloadType} ${fmtp}`);
+  }
+
+  lines.push('a=recvonly');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Spawn an ffmpeg process that reads RTP described by the SDP and writes it to disk
+ */
+function spawnFfmpeg(sdp: string, filePath: string): ChildProcess {
+  const ffmpeg = spawn(config.recording.ffmpegPath, [
+    '-loglevel', 'warning',
+    '-protocol_whitelist', 'pipe,udp,rtp',
+    '-fflags', '+genpts',
+    '-f', 'sdp',
+    '-i', 'pipe:0',
+    '-map', '0',
+    '-c', 'copy',
+    '-y',
+    filePath,
+  ]);
+
+  // EPIPE when ffmpeg is missing or exits before reading the SDP; the process 'error'/'close' handlers take it from there
+  ffmpeg.stdin?.on('error', (error) => {
+    console.error(`[Recorder] Could not pass the SDP to ffmpeg for ${filePath}:`, error.message);
+  });
+  ffmpeg.stdin?.write(sdp);
+  ffmpeg.stdin?.end();
+
+  let stderr = '';
+  ffmpeg.stderr?.on('data', (chunk) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+
+  // Being stopped with SIGINT also exits non-zero; only failures on its own are worth the output
+  ffmpeg.on('close', (code) => {
+    if (code !== 0 && !ffmpeg.killed) {
+      console.warn(`[Recorder] ffmpeg exited with code ${code} for ${filePath}: ${stderr.trim()}`);
+    }
+  });
+
+  return ffmpeg;
+}
+
+/**
+ * Start capturing a single producer into its own file
+ */
+async function captureProducer(recording: ServerRecording, peer: Peer, producer: Producer): Promise<void> {
+  if (recording.captures.has(producer.id)) {
+    return;
+  }
+
+  const room = getRoom(recording.roomId);
+  if (!room) {
+    throw new Error(`Room ${recording.roomId} not found`);
+  }
+
+  const rtpPort = allocatePort();
+  let transport: PlainTransport | undefined;
+
+  // The recording may be stopped (or the producer captured by a concurrent call) while mediasoup is busy;
+  // a capture added after that would never be stopped, so drop it instead
+  const abandoned = (): boolean => {
+    if (recordings.get(recording.roomId) === recording && !recording.captures.has(producer.id)) {
+      return false;
+    }
+    transport?.close();
+    usedPorts.delete(rtpPort);
+    console.log(`[Recorder] Dropped capture of producer ${producer.id}, recording ${recording.recordingId} changed`);
+    return true;
+  };
+
+  try {
+    // Capture on the producer's own router, so it never has to be piped
+    transport = await peer.router.createPlainTransport({
+      listenIp: config.recording.listenIp,
+      rtcpMux: false,
+      comedia: false,
+    });
+    if (abandoned()) return;
+
+    await transport.connect({
+      ip: config.recording.listenIp,
+      port: rtpPort,
+      rtcpPort: rtpPort + 1,
+    });
+    if (abandoned()) return;
+
+    // Start paused so ffmpeg is listening before the first packet arrives
+    const consumer = await transport.consume({
+      producerId: producer.id,
+      rtpCapabilities: peer.router.rtpCapabilities,
+      paused: true,
+    });
+    if (abandoned()) return;
+
+    const filename = `${recording.userId}-srv-${recording.recordingId}-${producer.id}.webm`;
+    const ffmpeg = spawnFfmpeg(createSdp(consumer, rtpPort), getRecordingFilePath(filename));
+
+    const exited = new Promise<void>((resolve) => {
+      ffmpeg.on('close', () => resolve());
+      ffmpeg.on('error', (error) => {
+        console.error(`[Recorder] ffmpeg failed for producer ${producer.id}:`, error);
+        resolve();
+      });
+    });
+
+    // Fail the capture if ffmpeg can't be started at all (e.g. not installed)
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg.once('spawn', () => resolve());
+      ffmpeg.once('error', reject);
+    });
+    if (abandoned()) {
+      ffmpeg.kill('SIGKILL');
+      return;
+    }
+
+    const capture: TrackCapture = {
+      producerId: producer.id,
+      peerId: peer.id,
+      userId: peer.userId,
+      username: peer.username,
+      kind: producer.kind,
+      filename,
+      startOffset: Date.now() - recording.startedAt,
+      rtpPort,
+      transport,
+      consumer,
+      ffmpeg,
+      exited,
+    };
+
+    recording.captures.set(producer.id, capture);
+
+    // Producer closed (peer left or stopped sending) - finish this track
+    consumer.on('producerclose', () => {
+      const stopping = stopCapture(recording, producer.id).catch((error) => {
+        console.error(`[Recorder] Error stopping capture ${producer.id}:`, error);
+      });
+      recording.stopping.push(stopping);
+    });
+
+    setTimeout(async () => {
+      try {
+        await consumer.resume();
+        if (consumer.kind === 'video') {
+          await consumer.requestKeyFrame();
+        }
+      } catch (error) {
+        console.error(`[Recorder] Error resuming consumer ${consumer.id}:`, error);
+      }
+    }, 1000);
+
+    console.log(`[Recorder] Capturing ${producer.kind} of peer ${peer.id} to ${filename}`);
+  } catch (error) {
+    transport?.close();
+    usedPorts.delete(rtpPort);
+    throw error;
+  }
+}
+
+/**
+ * Stop capturing a producer and record its finished track
+ */
+async function stopCapture(recording: ServerRecording, producerId: string): Promise<void> {
+  const capture = recording.captures.get(producerId);
+  if (!capture) return;
+
+  recording.captures.delete(producerId);
+  const endOffset = Date.now() - recording.startedAt;
+
+  capture.consumer.close();
+  capture.transport.close();
+
+  // SIGINT lets ffmpeg write the container trailer before exiting
+  capture.ffmpeg.kill('SIGINT');
+  const killTimer = setTimeout(() => capture.ffmpeg.kill('SIGKILL'), 5000);
+  await capture.exited;
+  clearTimeout(killTimer);
+
+  usedPorts.delete(capture.rtpPort);
+
+  recording.tracks.push({
+    filename: capture.filename,
+    kind: capture.kind,
+    peerId: capture.peerId,
+    userId: capture.userId,
+    username: capture.username,
+    startOffset: capture.startOffset,
+    endOffset,
+  });
+
+  console.log(`[Recorder] Finished track ${capture.filename}`);
+}
+
+/**
+ * Start recording every producer in a room on the server
+ */
+export async function startServerRecording(roomId: string, userId: string, username: string): Promise<string> {
+  const room = getRoom(roomId);
+  if (!room) {
+    throw new Error(`Room ${roomId} not found`);
+  }
+
+  if (recordings.has(roomId)) {
+    throw new Error(`Room ${roomId} is already being recorded`);
+  }
+
+  const recording: ServerRecording = {
+    recordingId: `${userId}-rec-${randomUUID()}-${Date.now()}`,
+    roomId,
+    userId,
+    username,
+    startedAt: Date.now(),
+    captures: new Map(),
+    stopping: [],
+    tracks: [],
+  };
+
+  recordings.set(roomId, recording);
+
+  try {
+    for (const peer of room.peers.values()) {
+      for (const producer of peer.producers.values()) {
+        await captureProducer(recording, peer, producer);
+      }
+    }
+  } catch (error) {
+    // Don't leave the room marked as recording, or ffmpeg processes and transports running
+    recordings.delete(roomId);
+    await Promise.all([
+      ...recording.stopping,
+      ...Array.from(recording.captures.keys()).map(producerId => stopCapture(recording, producerId)),
+    ]);
+
+    for (const track of recording.tracks) {
+      const filePath = getRecordingFilePath(track.filename);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    }
+
+    console.error(`[Recorder] Failed to start server recording in room ${roomId}, cleaned up`);
+    throw error;
+  }
+
+  console.log(`[Recorder] Started server recording ${recording.recordingId} in room ${roomId}`);
+
+  return recording.recordingId;
+}
+
+/**
+ * Add a producer that appeared after the recording started (late joiners)
+ */
+export async function addProducerToRecording(roomId: string, peerId: string, producerId: string): Promise<void> {
+  const recording = recordings.get(roomId);
+  if (!recording) return;
+
+  const peer = getRoom(roomId)?.peers.get(peerId);
+  const producer = peer?.producers.get(producerId);
+  if (!peer || !producer) return;
+
+  await captureProducer(recording, peer, producer);
+}
+
+/**
+ * Stop the room's server recording and register the captured tracks
+ */
+export async function stopServerRecording(roomId: string): Promise<Recording | undefined> {
+  const recording = recordings.get(roomId);
+  if (!recording) {
+    throw new Error(`Room ${roomId} is not being recorded`);
+  }
+
+  recordings.delete(roomId);
+
+  await Promise.all([
+    ...recording.stopping,
+    ...Array.from(recording.captures.keys()).map(producerId => stopCapture(recording, producerId)),
+  ]);
+
+  if (recording.tracks.length === 0) {
+    console.log(`[Recorder] Server recording ${recording.recordingId} captured no tracks`);
+    return undefined;
+  }
+
+  const hasVideo = recording.tracks.some(t => t.kind === 'video');
+  const hasAudio = recording.tracks.some(t => t.kind === 'audio');
+  const recordingType: RecordingType = hasVideo && hasAudio ? 'both' : hasVideo ? 'video' : 'audio';
+
+  // Until the tracks are composed, play back the first video track (or audio if none)
+  const primaryTrack = recording.tracks.find(t => t.kind === 'video') || recording.tracks[0];
+
+  const result: Recording = {
+    recordingId: recording.recordingId,
+    userId: recording.userId,
+    meetingId: roomId,
+    username: recording.username,
+    title: `Server Recording - ${new Date(recording.startedAt).toLocaleString()}`,
+    filename: primaryTrack.filename,
+    duration: Math.floor((Date.now() - recording.startedAt) / 1000),
+    createdAt: recording.startedAt,
+    recordingType,
+    source: 'server',
+    tracks: recording.tracks,
+    participants: [...new Set(recording.tracks.map(t => t.username))],
+  };
+
+  addRecording(result);
+  searchIndex.indexRecording(result);
+  console.log(`[Recorder] Added server recording: ${result.recordingId} (${result.tracks!.length} tracks)`);
+
+  // Build the grid recording in the background
+  compositionQueue.enqueue(result.recordingId);
+
+  return result;
+}
+
+/**
+ * Check whether a room is currently being recorded on the server
+ */
+export function isServerRecording(roomId: string): boolean {
+  return recordings.has(roomId);
+}
@@ -1,25 +1,102 @@
-import { Router, Transport, Producer, Consumer, RtpCapabilities } from 'mediasoup/node/lib/types';
-import { getWorker } from './worker';
+import { EventEmitter } from 'events';
+import { parseScalabilityMode } from 'mediasoup';
+import {
+  Router,
+  Transport,
+  Producer,
+  Consumer,
+  RtpCapabilities,
+  Worker,
+  ActiveSpeakerObserver,
+  AudioLevelObserver,
+} from 'mediasoup/node/lib/types';
+import { getLeastLoadedWorker, workerEvents } from './worker';
+import { trackConsumer, setPreferredSpatialLayer, untrackPeer } from './quality';
 import { config } from './config';
 
-interface Peer {
+// Verified identity of the user behind a peer (from the socket handshake)
+export interface PeerIdentity {
+  userId: string;
+  username: string;
+}
+
+// Hosts and co-hosts can moderate; only the host can hand out co-host
+export type PeerRole = 'host' | 'cohost' | 'participant';
+
+export interface Peer {
   id: string;
   userId: string;
   username: string;
+  role: PeerRole;
+  router: Router; // the room router this peer's transports live on
   transports: Map<string, Transport>;
   producers: Map<string, Producer>;
   consumers: Map<string, Consumer>;
 }
 
-interface Room {
-  id: string;
+// What a producer carries; peers send at most one camera and one screen share at a time
+export type ProducerSource = 'microphone' | 'camera' | 'screen';
+
+// Someone waiting in a room's lobby for the host to let them in
+export interface LobbyEntry {
+  peerId: string;
+  userId: string;
+  username: string;
+  requestedAt: number;
+}
+
+// Total time a participant has been heard in a room (kept across reconnects)
+export interface SpeakingTime {
+  userId: string;
+  username: string;
+  speakingMs: number;
+}
+
+// Room-wide speaker detection, on the main router (every audio producer is piped there)
+interface SpeakerObservers {
+  activeSpeaker: ActiveSpeakerObserver;
+  audioLevel: AudioLevelObserver;
+}
+
+// One of a room's routers and the worker it runs on
+export interface RoomRouter {
+  worker: Worker;
   router: Router;
+}
+
+// Audio level sampling; each sample a peer is heard in counts towards its speaking time
+const AUDIO_LEVEL_INTERVAL_MS = 800;
+const AUDIO_LEVEL_THRESHOLD_DB = -60;
+
+export interface Room {
+  id: string;
+  routers: RoomRouter[]; // the first one is the room's main router
+  addingRouter?: Promise<RoomRouter>; // set while a new router is being created
+  restoringMainRouter?: Promise<void>; // set while the room is restarted after its main router's worker died
+  pipedProducers: Map<string, Promise<void>>; // `${producerId}:${routerId}` once piped to that router
   peers: Map<string, Peer>;
+  lobby: Map<string, LobbyEntry>;
+  admitted: Set<string>; // users let in from the lobby; they skip it when they rejoin (reconnects, restarts)
+  removedUserIds: Set<string>; // users a moderator removed; they can't rejoin
+  knownUserIds: Set<string>; // users who have been in the room; they can reconnect while it's locked
+  locked: boolean;
+  speakerObservers?: SpeakerObservers;
+  activeSpeakerPeerId?: string;
+  speakingTimes: Map<string, SpeakingTime>; // by user ID
   createdAt: number;
 }
 
 const rooms = new Map<string, Room>();
 
+/**
+ * Room lifecycle events:
+ * - 'roomRestarted' ({ roomId, peerIds }) when a worker holding some of a room's routers died;
+ *   the listed peers were on those routers, were dropped and have to join again
+ * - 'activeSpeaker' ({ roomId, peerId }) when the dominant speaker changes
+ * - 'audioLevels' ({ roomId, levels: [{ peerId, volume }] }) for the peers currently heard (empty on silence)
+ */
+export const roomEvents = new EventEmitter();
+
 /**
  * Create a new room with a mediasoup router
  */
@@ -28,24 +105,278 @@ export async function createRoom(roomId: string): Promise<Room> {
     return rooms.get(roomId)!;
   }
 
-  const worker = getWorker();
-  const router = await worker.createRouter({
-    mediaCodecs: config.router.mediaCodecs,
-  });
+  const main = await createRouter();
 
   const room: Room = {
     id: roomId,
-    router,
+    routers: [main],
+    pipedProducers: new Map(),
     peers: new Map(),
+    lobby: new Map(),
+    admitted: new Set(),
+    removedUserIds: new Set(),
+    knownUserIds: new Set(),
+    locked: false,
+    speakingTimes: new Map(),
     createdAt: Date.now(),
   };
 
+  await attachSpeakerObservers(room);
   rooms.set(roomId, room);
-  console.log(`[Room] Created room: ${roomId}`);
+  console.log(`[Room] Created room: ${roomId} on worker ${main.worker.pid}`);
   
   return room;
 }
 
+/**
+ * Create a router on the least-loaded worker, avoiding the given workers if any other is running
+ */
+async function createRouter(avoid: Worker[] = []): Promise<RoomRouter> {
+  const worker = getLeastLoadedWorker(avoid);
+  const router = await worker.createRouter({
+    mediaCodecs: config.router.mediaCodecs,
+  });
+  return { worker, router };
+}
+
+/**
+ * Count the peers whose transports live on a router
+ */
+function countPeersOnRouter(room: Room, router: Router): number {
+  let count = 0;
+  room.peers.forEach(peer => {
+    if (peer.router === router) count++;
+  });
+  return count;
+}
+
+/**
+ * Add another router to a room, preferably on a worker the room doesn't use yet
+ * Concurrent joiners share the router being created
+ */
+function addRoomRouter(room: Room): Promise<RoomRouter> {
+  if (!room.addingRouter) {
+    room.addingRouter = createRouter(room.routers.map(r => r.worker))
+      .then((roomRouter) => {
+        room.routers.push(roomRouter);
+        console.log(`[Room] Room ${room.id} now spans ${room.routers.length} routers (new one on worker ${roomRouter.worker.pid})`);
+        return roomRouter;
+      })
+      .finally(() => {
+        room.addingRouter = undefined;
+      });
+  }
+  return room.addingRouter;
+}
+
+/**
+ * Pick the router for a new peer: the emptiest router with room to spare,
+ * or a new router once every router has maxPeersPerRouter peers
+ */
+async function pickRouterForPeer(room: Room): Promise<Router> {
+  if (room.routers.length === 0) {
+    await restoreMainRouter(room);
+  }
+
+  let best: Router | undefined;
+  let bestCount = Infinity;
+
+  for (const { router } of room.routers) {
+    if (router.closed) continue;
+
+    const count = countPeersOnRouter(room, router);
+    if (count < config.router.maxPeersPerRouter && count < bestCount) {
+      best = router;
+      bestCount = count;
+    }
+  }
+
+  if (best) return best;
+  return (await addRoomRouter(room)).router;
+}
+
+/**
+ * Close a router of the room and forget what was piped to it
+ */
+function closeRoomRouter(room: Room, router: Router): void {
+  room.routers = room.routers.filter(r => r.router !== router);
+  for (const key of room.pipedProducers.keys()) {
+    if (key.endsWith(`:${router.id}`)) {
+      room.pipedProducers.delete(key);
+    }
+  }
+  router.close();
+}
+
+/**
+ * Make a producer available on another router of the room
+ * Producers live on their peer's router; consumers on other routers need it piped over
+ * (pipeToRouter reuses one pipe transport pair per pair of routers)
+ */
+async function pipeProducerToRouter(room: Room, producerId: string, router: Router): Promise<void> {
+  let source: Router | undefined;
+  room.peers.forEach(peer => {
+    if (peer.producers.has(producerId)) source = peer.router;
+  });
+
+  if (!source || source === router) return;
+
+  const key = `${producerId}:${router.id}`;
+  let piping = room.pipedProducers.get(key);
+  if (!piping) {
+    piping = source.pipeToRouter({ producerId, router }).then(() => undefined);
+    room.pipedProducers.set(key, piping);
+    piping.catch(() => room.pipedProducers.delete(key));
+  }
+
+  await piping;
+}
+
+/**
+ * Find the peer an audio producer (or a pipe of it) belongs to; piped producers keep the original's ID
+ */
+function findPeerByProducer(room: Room, producerId: string): Peer | undefined {
+  for (const peer of room.peers.values()) {
+    if (peer.producers.has(producerId)) return peer;
+  }
+  return undefined;
+}
+
+/**
+ * Create the room's speaker observers on its main router
+ */
+async function attachSpeakerObservers(room: Room): Promise<void> {
+  const { router } = room.routers[0];
+
+  const activeSpeaker = await router.createActiveSpeakerObserver();
+  const audioLevel = await router.createAudioLevelObserver({
+    maxEntries: 10,
+    threshold: AUDIO_LEVEL_THRESHOLD_DB,
+    interval: AUDIO_LEVEL_INTERVAL_MS,
+  });
+
+  activeSpeaker.on('dominantspeaker', ({ producer }) => {
+    const peer = findPeerByProducer(room, producer.id);
+    if (!peer || peer.id === room.activeSpeakerPeerId) return;
+
+    room.activeSpeakerPeerId = peer.id;
+    roomEvents.emit('activeSpeaker', { roomId: room.id, peerId: peer.id });
+  });
+
+  audioLevel.on('volumes', (volumes) => {
+    const levels: { peerId: string; volume: number }[] = [];
+
+    for (const { producer, volume } of volumes) {
+      const peer = findPeerByProducer(room, producer.id);
+      if (!peer) continue;
+
+      levels.push({ peerId: peer.id, volume });
+
+      const total = room.speakingTimes.get(peer.userId) ?? { userId: peer.userId, username: peer.username, speakingMs: 0 };
+      total.speakingMs += AUDIO_LEVEL_INTERVAL_MS;
+      room.speakingTimes.set(peer.userId, total);
+    }
+
+    roomEvents.emit('audioLevels', { roomId: room.id, levels });
+  });
+
+  audioLevel.on('silence', () => {
+    roomEvents.emit('audioLevels', { roomId: room.id, levels: [] });
+  });
+
+  room.speakerObservers = { activeSpeaker, audioLevel };
+}
+
+/**
+ * Feed an audio producer to the room's speaker observers, piping it to the main router first
+ */
+async function observeAudioProducer(room: Room, producerId: string): Promise<void> {
+  const observers = room.speakerObservers;
+  // While the room is being restarted; restoreMainRouter() feeds every audio producer to the new observers
+  if (!observers || observers.activeSpeaker.closed) return;
+
+  await pipeProducerToRouter(room, producerId, room.routers[0].router);
+  await observers.activeSpeaker.addProducer({ producerId });
+  await observers.audioLevel.addProducer({ producerId });
+}
+
+/**
+ * Drop the routers a dead worker held, as soon as it dies so no new peer is placed on them
+ * Peers on them lost their transports, so they're removed and told to rejoin;
+ * peers on other routers stay connected. Lobby, lock and moderation state stay with the room
+ */
+function dropRoutersOf(deadWorker: Worker): void {
+  for (const room of rooms.values()) {
+    const dead = room.routers.filter(r => r.worker === deadWorker).map(r => r.router);
+    if (dead.length === 0) continue;
+
+    const peerIds: string[] = [];
+    room.peers.forEach((peer, peerId) => {
+      if (dead.includes(peer.router)) peerIds.push(peerId);
+    });
+    peerIds.forEach(peerId => {
+      room.peers.delete(peerId);
+      untrackPeer(peerId);
+    });
+    if (room.activeSpeakerPeerId && peerIds.includes(room.activeSpeakerPeerId)) {
+      room.activeSpeakerPeerId = undefined;
+    }
+    dead.forEach(router => closeRoomRouter(room, router));
+
+    console.log(`[Room] Dropped ${dead.length} router(s) of room ${room.id} after worker ${deadWorker.pid} died`);
+    roomEvents.emit('roomRestarted', { roomId: room.id, peerIds });
+
+    // With a single worker this fails until the replacement is up, and is retried then
+    restoreMainRouter(room).catch((error) => {
+      console.error(`[Room] Failed to restart room ${room.id}:`, error);
+    });
+  }
+}
+
+/**
+ * Give a room that lost its main router a new one, and restart the speaker observers on it
+ * Concurrent callers share the restart in progress
+ */
+function restoreMainRouter(room: Room): Promise<void> {
+  if (!room.restoringMainRouter) {
+    room.restoringMainRouter = (async () => {
+      // The room always keeps a main router
+      if (room.routers.length === 0) {
+        room.routers.push(await createRouter());
+      }
+
+      // The observers closed with the old main router: start over on the new one
+      if (room.speakerObservers?.activeSpeaker.closed) {
+        await attachSpeakerObservers(room);
+        for (const peer of room.peers.values()) {
+          for (const producer of peer.producers.values()) {
+            if (producer.kind === 'audio') await observeAudioProducer(room, producer.id);
+          }
+        }
+        console.log(`[Room] Restarted room ${room.id} on worker ${room.routers[0].worker.pid}`);
+      }
+    })().finally(() => {
+      room.restoringMainRouter = undefined;
+    });
+  }
+  return room.restoringMainRouter;
+}
+
+workerEvents.on('workerDied', (deadWorker: Worker) => {
+  dropRoutersOf(deadWorker);
+});
+
+// Rooms that couldn't get a new main router while the pool was down get one now
+workerEvents.on('workerReplaced', () => {
+  for (const room of rooms.values()) {
+    if (room.routers.length > 0 && !room.speakerObservers?.activeSpeaker.closed) continue;
+
+    restoreMainRouter(room).catch((error) => {
+      console.error(`[Room] Failed to restart room ${room.id}:`, error);
+    });
+  }
+});
+
 /**
  * Get an existing room
  */
@@ -59,32 +390,43 @@ export function getRoom(roomId: string): Room | undefined {
 export function deleteRoom(roomId: string): void {
   const room = rooms.get(roomId);
   if (room) {
-    room.router.close();
+    room.routers.forEach(({ router }) => router.close());
     rooms.delete(roomId);
     console.log(`[Room] Deleted room: ${roomId}`);
   }
 }
 
 /**
- * Add a peer to a room
+ * Add a peer to a room and place it on one of the room's routers
+ * The identity must come from the authenticated socket, never from the client payload
  */
-export function addPeer(roomId: string, peerId: string, userId: string, username: string): Peer {
+export async function addPeer(
+  roomId: string,
+  peerId: string,
+  identity: PeerIdentity,
+  role: PeerRole = 'participant'
+): Promise<Peer> {
   const room = rooms.get(roomId);
   if (!room) {
     throw new Error(`Room ${roomId} not found`);
   }
 
+  const router = await pickRouterForPeer(room);
+
   const peer: Peer = {
     id: peerId,
-    userId,
-    username,
+    userId: identity.userId,
+    username: identity.username,
+    role,
+    router,
     transports: new Map(),
     producers: new Map(),
     consumers: new Map(),
   };
 
   room.peers.set(peerId, peer);
-  console.log(`[Room] Added peer ${peerId} to room ${roomId}`);
+  room.knownUserIds.add(identity.userId);
+  console.log(`[Room] Added peer ${peerId} to room ${roomId} as ${role}`);
   
   return peer;
 }
@@ -110,10 +452,21 @@ export function removePeer(roomId: string, peerId: string): void {
 
   // Close all transports
   peer.transports.forEach(transport => transport.close());
+  untrackPeer(peerId);
   
   room.peers.delete(peerId);
+  if (room.activeSpeakerPeerId === peerId) {
+    room.activeSpeakerPeerId = undefined;
+  }
   console.log(`[Room] Removed peer ${peerId} from room ${roomId}`);
 
+  // Extra routers go away once their last peer leaves; the main router stays
+  const isMainRouter = room.routers[0]?.router === peer.router;
+  if (!isMainRouter && !peer.router.closed && countPeersOnRouter(room, peer.router) === 0) {
+    closeRoomRouter(room, peer.router);
+    console.log(`[Room] Closed empty router of room ${roomId}`);
+  }
+
   // If room is empty, optionally delete it
   if (room.peers.size === 0) {
     console.log(`[Room] Room ${roomId} is empty`);
@@ -121,13 +474,183 @@ export function removePeer(roomId: string, peerId: string): void {
   }
 }
 
+/**
+ * Check whether a peer may use moderation controls
+ */
+export function isModerator(peer: Peer | undefined): boolean {
+  return peer?.role === 'host' || peer?.role === 'cohost';
+}
+
+/**
+ * Change a peer's role
+ */
+export function setPeerRole(roomId: string, peerId: string, role: PeerRole): Peer | undefined {
+  const peer = getPeer(roomId, peerId);
+  if (!peer) return undefined;
+
+  peer.role = role;
+  console.log(`[Room] Peer ${peerId} in room ${roomId} is now ${role}`);
+
+  return peer;
+}
+
+/**
+ * Pause or resume a peer's producers of one kind on the server
+ * Returns the IDs of the producers whose state changed
+ */
+export async function setProducersPaused(
+  roomId: string,
+  peerId: string,
+  kind: 'audio' | 'video',
+  paused: boolean
+): Promise<string[]> {
+  const peer = getPeer(roomId, peerId);
+  if (!peer) {
+    throw new Error(`Peer ${peerId} not found`);
+  }
+
+  const changed: string[] = [];
+  for (const producer of peer.producers.values()) {
+    if (producer.kind !== kind || producer.closed || producer.paused === paused) continue;
+
+    if (paused) {
+      await producer.pause();
+    } else {
+      await producer.resume();
+    }
+    changed.push(producer.id);
+  }
+
+  console.log(`[Room] ${paused ? 'Paused' : 'Resumed'} ${changed.length} ${kind} producer(s) of peer ${peerId}`);
+  return changed;
+}
+
+/**
+ * Remember that a user was removed so they can't come back into the room
+ */
+export function banFromRoom(roomId: string, userId: string): void {
+  const room = rooms.get(roomId);
+  room?.removedUserIds.add(userId);
+  room?.admitted.delete(userId);
+}
+
+/**
+ * Check whether a user was removed from the room
+ */
+export function isBannedFromRoom(roomId: string, userId: string): boolean {
+  return !!rooms.get(roomId)?.removedUserIds.has(userId);
+}
+
+/**
+ * Lock or unlock a room for new joiners
+ */
+export function setRoomLocked(roomId: string, locked: boolean): void {
+  const room = rooms.get(roomId);
+  if (!room) {
+    throw new Error(`Room ${roomId} not found`);
+  }
+
+  room.locked = locked;
+  console.log(`[Room] Room ${roomId} ${locked ? 'locked' : 'unlocked'}`);
+}
+
+/**
+ * Check whether a user may join a locked room (only people who were already in it)
+ */
+export function canEnterLockedRoom(roomId: string, userId: string): boolean {
+  return !!rooms.get(roomId)?.knownUserIds.has(userId);
+}
+
+/**
+ * Count the people in a room, not counting a user's own stale connections
+ * (so someone reconnecting doesn't count twice against the cap)
+ */
+export function countRoomPeers(roomId: string, excludeUserId?: string): number {
+  const room = rooms.get(roomId);
+  if (!room) return 0;
+
+  let count = 0;
+  room.peers.forEach(peer => {
+    if (peer.userId !== excludeUserId) count++;
+  });
+  return count;
+}
+
+/**
+ * Put a peer in the room's lobby
+ */
+export function addToLobby(roomId: string, peerId: string, identity: PeerIdentity): LobbyEntry {
+  const room = rooms.get(roomId);
+  if (!room) {
+    throw new Error(`Room ${roomId} not found`);
+  }
+
+  const entry: LobbyEntry = {
+    peerId,
+    userId: identity.userId,
+    username: identity.username,
+    requestedAt: Date.now(),
+  };
+
+  room.lobby.set(peerId, entry);
+  console.log(`[Room] Peer ${peerId} waiting in lobby of room ${roomId}`);
+
+  return entry;
+}
+
+/**
+ * Remove a peer from the room's lobby (left, denied or admitted)
+ */
+export function removeFromLobby(roomId: string, peerId: string): LobbyEntry | undefined {
+  const room = rooms.get(roomId);
+  if (!room) return undefined;
+
+  const entry = room.lobby.get(peerId);
+  room.lobby.delete(peerId);
+  return entry;
+}
+
+/**
+ * Let a waiting peer in; from then on their joinRoom calls skip the lobby
+ */
+export function admitFromLobby(roomId: string, peerId: string): LobbyEntry | undefined {
+  const room = rooms.get(roomId);
+  if (!room) return undefined;
+
+  const entry = room.lobby.get(peerId);
+  if (!entry) return undefined;
+
+  room.lobby.delete(peerId);
+  room.admitted.add(entry.userId);
+  console.log(`[Room] Admitted peer ${peerId} into room ${roomId}`);
+
+  return entry;
+}
+
+/**
+ * Check whether a user was already let in from the room's lobby
+ */
+export function isAdmitted(roomId: string, userId: string): boolean {
+  return rooms.get(roomId)?.admitted.has(userId) ?? false;
+}
+
+/**
+ * Get everyone waiting in the room's lobby, longest waiting first
+ */
+export function getLobby(roomId: string): LobbyEntry[] {
+  const room = rooms.get(roomId);
+  if (!room) return [];
+  return Array.from(room.lobby.values()).sort((a, b) => a.requestedAt - b.requestedAt);
+}
+
 /**
  * Get router RTP capabilities
  */
 export function getRouterRtpCapabilities(roomId: string): RtpCapabilities | undefined {
   const room = rooms.get(roomId);
   if (!room) return undefined;
-  return room.router.rtpCapabilities;
+  // Every router is created from the same codec list, so they all have the same capabilities
+  return room.routers[0]?.router.rtpCapabilities;
 }
 
 /**
@@ -144,7 +667,7 @@ export async function createWebRtcTransport(roomId: string, peerId: string): Pro
     throw new Error(`Peer ${peerId} not found in room ${roomId}`);
   }
 
-  const transport = await room.router.createWebRtcTransport({
+  const transport = await peer.router.createWebRtcTransport({
     listenInfos: config.webRtcTransport.listenInfos,
     enableUdp: config.webRtcTransport.enableUdp,
     enableTcp: config.webRtcTransport.enableTcp,
@@ -195,7 +718,8 @@ export async function produce(
   peerId: string,
   transportId: string,
   kind: any,
-  rtpParameters: any
+  rtpParameters: any,
+  source?: ProducerSource
 ): Promise<string> {
   const peer = getPeer(roomId, peerId);
   if (!peer) {
@@ -207,14 +731,57 @@ export async function produce(
     throw new Error(`Transport ${transportId} not found`);
   }
 
-  const producer = await transport.produce({ kind, rtpParameters });
+  // Screen shares are tagged by the client; anything else is the mic or the camera
+  const producerSource: ProducerSource = kind === 'audio' ? 'microphone' : source === 'screen' ? 'screen' : 'camera';
+  for (const existing of peer.producers.values()) {
+    if (existing.appData.source === producerSource) {
+      throw new Error(`Peer ${peerId} already has a ${producerSource} producer`);
+    }
+  }
+
+  const producer = await transport.produce({ kind, rtpParameters, appData: { source: producerSource } });
   peer.producers.set(producer.id, producer);
 
-  console.log(`[Room] Peer ${peerId} producing ${kind} with producer ${producer.id}`);
+  // Pipes of a closed producer close with it
+  producer.observer.once('close', () => {
+    const room = rooms.get(roomId);
+    room?.pipedProducers.forEach((_, key) => {
+      if (key.startsWith(`${producer.id}:`)) room.pipedProducers.delete(key);
+    });
+  });
+
+  if (producer.kind === 'audio') {
+    const room = rooms.get(roomId);
+    if (room) {
+      observeAudioProducer(room, producer.id).catch((error) => {
+        console.error(`[Room] Error observing audio producer ${producer.id}:`, error);
+      });
+    }
+  }
+
+  console.log(`[Room] Peer ${peerId} producing ${kind} (${producerSource}) with producer ${producer.id}`);
 
   return producer.id;
 }
 
+/**
+ * Close one of a peer's own producers (e.g. when a screen share ends)
+ * Consumers of it, and its pipes to other routers, close with it
+ */
+export function closeProducer(roomId: string, peerId: string, producerId: string): ProducerSource {
+  const peer = getPeer(roomId, peerId);
+  const producer = peer?.producers.get(producerId);
+  if (!peer || !producer) {
+    throw new Error(`Producer ${producerId} not found`);
+  }
+
+  producer.close();
+  peer.producers.delete(producerId);
+  console.log(`[Room] Peer ${peerId} closed producer ${producerId}`);
+
+  return producer.appData.source as ProducerSource;
+}
+
 /**
  * Consume media
  */
@@ -240,8 +807,11 @@ export async function consume(
     throw new Error(`Transport ${transportId} not found`);
   }
 
+  // Consume on the router holding this peer's transport, piping the producer over if it lives elsewhere
+  await pipeProducerToRouter(room, producerId, peer.router);
+
   // Check if router can consume
-  if (!room.router.canConsume({ producerId, rtpCapabilities })) {
+  if (!peer.router.canConsume({ producerId, rtpCapabilities })) {
     throw new Error('Cannot consume');
   }
 
@@ -252,6 +822,8 @@ export async function consume(
   });
 
   peer.consumers.set(consumer.id, consumer);
+  consumer.observer.once('close', () => peer.consumers.delete(consumer.id));
+  trackConsumer(peerId, transport, consumer);
 
   console.log(`[Room] Peer ${peerId} consuming with consumer ${consumer.id}`);
 
@@ -263,6 +835,48 @@ export async function consume(
   };
 }
 
+/**
+ * Pick the simulcast/SVC layer a consumer receives from the height its tile is rendered at
+ * Spatial layers are 1/4, 1/2 and full size of the producer's video (720p max); the smallest
+ * layer at least as tall as the tile is used, so nothing is sent only to be scaled down
+ */
+export async function setConsumerPreferredSize(
+  roomId: string,
+  peerId: string,
+  consumerId: string,
+  height: number
+): Promise<number | undefined> {
+  const peer = getPeer(roomId, peerId);
+  const consumer = peer?.consumers.get(consumerId);
+  if (!consumer || consumer.closed) {
+    throw new Error(`Consumer ${consumerId} not found`);
+  }
+
+  // Single-layer producers have nothing to choose from
+  if (consumer.type !== 'simulcast' && consumer.type !== 'svc') {
+    return undefined;
+  }
+
+  const { spatialLayers } = parseScalabilityMode(
+    consumer.rtpParameters.encodings?.[0]?.scalabilityMode
+  );
+
+  let spatialLayer = spatialLayers - 1;
+  for (let layer = 0; layer < spatialLayers; layer++) {
+    const layerHeight = config.producer.video.maxHeight / 2 ** (spatialLayers - 1 - layer);
+    if (layerHeight >= height) {
+      spatialLayer = layer;
+      break;
+    }
+  }
+
+  // Goes through the quality monitor, which keeps it below the peer's bandwidth cap
+  await setPreferredSpatialLayer(peerId, consumerId, spatialLayer);
+  console.log(`[Room] Consumer ${consumerId} of peer ${peerId} prefers spatial layer ${spatialLayer} (${height}px)`);
+
+  return spatialLayer;
+}
+
 /**
  * Get all producers in a room except for a specific peer
  */
@@ -281,6 +895,7 @@ export function getOtherPeersProducers(roomId: string, excludePeerId: string): a
           userId: peer.userId,
           username: peer.username,
           kind: producer.kind,
+          source: producer.appData.source,
         });
       });
     }
@@ -302,9 +917,26 @@ export function getRoomPeers(roomId: string): any[] {
       peerId: peer.id,
       userId: peer.userId,
       username: peer.username,
+      role: peer.role,
     });
   });
 
   return peers;
 }
 
+/**
+ * Get the peer currently detected as the dominant speaker
+ */
+export function getActiveSpeaker(roomId: string): string | undefined {
+  return rooms.get(roomId)?.activeSpeakerPeerId;
+}
+
+/**
+ * Get how long each participant has spoken in a room, longest first
+ */
+export function getSpeakingTimes(roomId: string): SpeakingTime[] {
+  const room = rooms.get(roomId);
+  if (!room) return [];
+
+  return Array.from(room.speakingTimes.values()).sort((a, b) => b.speakingMs - a.speakingMs);
+}
@@ -1,34 +1,192 @@
 import * as mediasoup from 'mediasoup';
+import { EventEmitter } from 'events';
 import { Worker } from 'mediasoup/node/lib/types';
 import { config } from './config';
 
-let worker: Worker;
+interface PoolWorker {
+  worker: Worker;
+  index: number;
+  rtcMinPort: number;
+  rtcMaxPort: number;
+  routers: number;
+  transports: number;
+}
+
+export interface WorkerStats {
+  index: number;
+  pid: number;
+  routers: number;
+  transports: number;
+  freePorts: number;
+}
+
+// How long to wait before retrying a worker that failed to start
+const RESPAWN_DELAY_MS = 2000;
+
+// Smallest share of the port range worth a worker (each transport takes a port, roughly two per peer)
+const MIN_PORTS_PER_WORKER = 50;
+
+// Pool slots by index; a slot is empty while its worker is being replaced
+const pool: (PoolWorker | undefined)[] = [];
+
+/**
+ * Pool lifecycle events:
+ * - 'workerDied' (worker) when a worker dies; its routers are already closed
+ * - 'workerReplaced' (oldWorker, newWorker) once a replacement is running
+ */
+export const workerEvents = new EventEmitter();
+
+/**
+ * How many workers the configured RTC port range can feed, at most the requested number
+ */
+function getPoolSize(requested: number): number {
+  const { rtcMinPort, rtcMaxPort } = config.worker;
+  const fitting = Math.floor((rtcMaxPort - rtcMinPort + 1) / MIN_PORTS_PER_WORKER);
+
+  return Math.max(1, Math.min(requested, fitting));
+}
+
+/**
+ * Ports of a worker not taken by a transport
+ */
+function getFreePorts(entry: PoolWorker): number {
+  return entry.rtcMaxPort - entry.rtcMinPort + 1 - entry.transports;
+}
 
 /**
- * Create mediasoup worker
+ * Split the configured RTC port range evenly between the workers
  */
-export async function createWorker(): Promise<Worker> {
-  worker = await mediasoup.createWorker({
+function getPortRange(index: number, numWorkers: number): { rtcMinPort: number; rtcMaxPort: number } {
+  const { rtcMinPort, rtcMaxPort } = config.worker;
+  const portsPerWorker = Math.floor((rtcMaxPort - rtcMinPort + 1) / numWorkers);
+
+  return {
+    rtcMinPort: rtcMinPort + index * portsPerWorker,
+    rtcMaxPort: rtcMinPort + (index + 1) * portsPerWorker - 1,
+  };
+}
+
+/**
+ * Start the worker for one pool slot and keep count of its routers and transports
+ */
+async function spawnWorker(index: number, rtcMinPort: number, rtcMaxPort: number): Promise<PoolWorker> {
+  const worker = await mediasoup.createWorker({
     logLevel: config.worker.logLevel,
     logTags: config.worker.logTags,
-    rtcMinPort: config.worker.rtcMinPort,
-    rtcMaxPort: config.worker.rtcMaxPort,
+    rtcMinPort,
+    rtcMaxPort,
   });
 
-  console.log(`[Worker] Created worker with PID: ${worker.pid}`);
+  const entry: PoolWorker = { worker, index, rtcMinPort, rtcMaxPort, routers: 0, transports: 0 };
+
+  worker.observer.on('newrouter', (router) => {
+    entry.routers++;
+    router.observer.once('close', () => entry.routers--);
 
-  worker.on('died', () => {
-    console.error('[Worker] Worker died, exiting in 2 seconds...');
-    setTimeout(() => process.exit(1), 2000);
+    router.observer.on('newtransport', (transport) => {
+      entry.transports++;
+      transport.observer.once('close', () => entry.transports--);
+    });
   });
 
-  return worker;
+  worker.on('died', (error) => {
+    console.error(`[Worker] Worker ${index} (PID ${worker.pid}) died:`, error);
+    pool[index] = undefined;
+    workerEvents.emit('workerDied', worker);
+    replaceWorker(index, rtcMinPort, rtcMaxPort, worker);
+  });
+
+  console.log(`[Worker] Created worker ${index} with PID: ${worker.pid} (ports ${rtcMinPort}-${rtcMaxPort})`);
+  return entry;
+}
+
+/**
+ * Start a replacement for a dead worker, retrying until it comes up
+ */
+function replaceWorker(index: number, rtcMinPort: number, rtcMaxPort: number, oldWorker: Worker): void {
+  spawnWorker(index, rtcMinPort, rtcMaxPort)
+    .then((entry) => {
+      pool[index] = entry;
+      console.log(`[Worker] Replaced worker ${index}`);
+      workerEvents.emit('workerReplaced', oldWorker, entry.worker);
+    })
+    .catch((error) => {
+      console.error(`[Worker] Failed to replace worker ${index}, retrying:`, error);
+      setTimeout(() => replaceWorker(index, rtcMinPort, rtcMaxPort, oldWorker), RESPAWN_DELAY_MS);
+    });
+}
+
+/**
+ * Create the mediasoup worker pool (one worker per CPU by default, as many as the port range allows)
+ */
+export async function createWorkerPool(): Promise<void> {
+  const numWorkers = getPoolSize(config.worker.numWorkers);
+
+  if (numWorkers < config.worker.numWorkers) {
+    const { rtcMinPort, rtcMaxPort } = config.worker;
+    console.warn(
+      `[Worker] Ports ${rtcMinPort}-${rtcMaxPort} are only enough for ${numWorkers} of ${config.worker.numWorkers} workers; ` +
+      `widen RTC_MIN_PORT/RTC_MAX_PORT to run more`
+    );
+  }
+
+  for (let index = 0; index < numWorkers; index++) {
+    const { rtcMinPort, rtcMaxPort } = getPortRange(index, numWorkers);
+    pool[index] = await spawnWorker(index, rtcMinPort, rtcMaxPort);
+  }
+
+  console.log(`[Worker] Pool ready with ${numWorkers} worker(s)`);
+}
+
+/**
+ * Get the running worker with the least load, for placing a new router
+ * Load is the number of transports (roughly two per peer), with routers breaking ties.
+ * Workers without free ports are skipped; workers in `avoid` are only used when no other worker is left
+ */
+export function getLeastLoadedWorker(avoid: Worker[] = []): Worker {
+  let best: PoolWorker | undefined;
+
+  const running = pool.filter((entry): entry is PoolWorker => !!entry && !entry.worker.closed && getFreePorts(entry) > 0);
+  const preferred = running.filter(entry => !avoid.includes(entry.worker));
+
+  for (const entry of preferred.length > 0 ? preferred : running) {
+    if (
+      !best ||
+      entry.transports < best.transports ||
+      (entry.transports === best.transports && entry.routers < best.routers)
+    ) {
+      best = entry;
+    }
+  }
+
+  if (!best) {
+    throw new Error('No mediasoup worker with free ports available');
+  }
+
+  return best.worker;
 }
 
 /**
- * Get the current worker instance
+ * Get load figures for every running worker
  */
-export function getWorker(): Worker {
-  return worker;
+export function getWorkerStats(): WorkerStats[] {
+  return pool
+    .filter((entry): entry is PoolWorker => !!entry)
+    .map(entry => ({
+      index: entry.index,
+      pid: entry.worker.pid,
+      routers: entry.routers,
+      transports: entry.transports,
+      freePorts: getFreePorts(entry),
+    }));
 }
 
+/**
+ * Close every worker (on shutdown)
+ */
+export function closeWorkerPool(): void {
+  for (const entry of pool) {
+    entry?.worker.close();
+  }
+  pool.length = 0;
+}
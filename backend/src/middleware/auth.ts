@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
+import { verifyToken } from '../utils/auth';
+
+export const AUTH_COOKIE = 'cindy_token';
+
+// Identity of the authenticated caller
+export interface AuthContext {
+  userId: string;
+  username: string;
+  sessionId: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+/**
+ * Read a cookie value from a raw Cookie header
+ */
+export function getCookie(cookieHeader: string | undefined, name: string): string | undefined {
+  if (!cookieHeader) return undefined;
+
+  for (const part of cookieHeader.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the token from the Authorization header, falling back to the session cookie
+ * (media elements like <video> can't send headers)
+ */
+export function getRequestToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+
+  return getCookie(req.headers.cookie, AUTH_COOKIE);
+}
+
+/**
+ * Resolve the caller from the request token, if any
+ */
+export function resolveAuth(token: string | undefined): AuthContext | undefined {
+  if (!token) return undefined;
+
+  const result = verifyToken(token);
+  if (!result) return undefined;
+
+  return {
+    userId: result.user.userId,
+    username: result.user.username,
+    sessionId: result.session.sessionId,
+  };
+}
+
+/**
+ * Reject requests without a valid token; sets req.auth otherwise
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const auth = resolveAuth(getRequestToken(req));
+
+  if (!auth) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  req.auth = auth;
+  next();
+}
+
+/**
+ * Resolve the caller if a valid token is present, but let anonymous requests through
+ */
+export function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  req.auth = resolveAuth(getRequestToken(req));
+  next();
+}
+
+/**
+ * Socket.IO handshake middleware: refuse connections without a valid token
+ * The token comes from the handshake auth payload, falling back to the session cookie
+ */
+export function socketAuth(socket: Socket, next: (err?: Error) => void) {
+  const token = typeof socket.handshake.auth?.token === 'string'
+    ? socket.handshake.auth.token
+    : getCookie(socket.handshake.headers.cookie, AUTH_COOKIE);
+
+  const auth = resolveAuth(token);
+
+  if (!auth) {
+    console.warn(`[Socket] Refused unauthenticated connection: ${socket.id}`);
+    return next(new Error('Authentication required'));
+  }
+
+  socket.data.userId = auth.userId;
+  socket.data.username = auth.username;
+  socket.data.sessionId = auth.sessionId;
+  next();
+}
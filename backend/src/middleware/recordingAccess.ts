@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { findRecordingById, Recording } from '../storage/fileStorage';
+import { AuthContext } from './auth';
+
+declare global {
+  namespace Express {
+    interface Request {
+      recording?: Recording;
+    }
+  }
+}
+
+export type RecordingAccess = 'view' | 'owner';
+
+/**
+ * Check whether the caller owns the recording
+ */
+export function isRecordingOwner(recording: Recording, auth: AuthContext | undefined): boolean {
+  return !!auth && recording.userId === auth.userId;
+}
+
+/**
+ * Check whether the caller can view the recording: the owner, a user it was
+ * shared with, or anyone presenting a link grant token
+ */
+export function canViewRecording(
+  recording: Recording,
+  auth: AuthContext | undefined,
+  grantToken?: string
+): boolean {
+  if (isRecordingOwner(recording, auth)) {
+    return true;
+  }
+
+  return (recording.grants || []).some(grant => {
+    if (grant.type === 'user') {
+      return !!auth && grant.userId === auth.userId;
+    }
+    return !!grantToken && grant.token === grantToken;
+  });
+}
+
+/**
+ * Load the recording named by :id and check the caller's access to it
+ * Recordings the caller cannot see are reported as not found
+ */
+export function requireRecordingAccess(access: RecordingAccess) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const recording = findRecordingById(req.params.id);
+    const grantToken = typeof req.query.grant === 'string' ? req.query.grant : undefined;
+
+    if (!recording || !canViewRecording(recording, req.auth, grantToken)) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+
+    if (access === 'owner' && !isRecordingOwner(recording, req.auth)) {
+      return res.status(403).json({ error: 'Not authorized to modify this recording' });
+    }
+
+    req.recording = recording;
+    next();
+  };
+}
@@ -0,0 +1,285 @@
+import { Router, Request } from 'express';
+import { randomBytes } from 'crypto';
+import {
+  findMeetingById,
+  findUserByCalendarFeedToken,
+  findUserById,
+  getMeetingsByOwnerId,
+  updateUser,
+  Meeting,
+} from '../storage/fileStorage';
+import { serializeCalendar, IcsEvent } from '../utils/ics';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+// Public base URL of the frontend, used for meeting links in calendar events
+const PUBLIC_URL = process.env.PUBLIC_URL || '';
+
+// How long ended meetings stay in feeds (so subscribed calendars don't drop past events right away)
+const FEED_HISTORY_DAYS = 30;
+
+function getPublicUrl(req: Request): string {
+  if (PUBLIC_URL) {
+    return PUBLIC_URL.replace(/\/$/, '');
+  }
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Build the calendar event for a scheduled meeting
+ */
+function toEvent(meeting: Meeting, baseUrl: string): IcsEvent {
+  const url = `${baseUrl}/meeting/${meeting.meetingId}`;
+
+  return {
+    uid: `${meeting.meetingId}@cindy`,
+    sequence: meeting.sequence ?? 0,
+    start: meeting.scheduledStart!,
+    end: meeting.expiresAt,
+    timeZone: meeting.timeZone,
+    summary: meeting.title,
+    description: `Organized by ${meeting.ownerUsername}\nJoin: ${url}`,
+    url,
+    status: meeting.cancelledAt ? 'CANCELLED' : 'CONFIRMED',
+    created: meeting.createdAt,
+    lastModified: meeting.updatedAt ?? meeting.createdAt,
+  };
+}
+
+/**
+ * Get the user's feed token, creating one on first use
+ */
+function ensureFeedToken(userId: string): string | undefined {
+  const user = findUserById(userId);
+  if (!user) return undefined;
+
+  if (user.calendarFeedToken) {
+    return user.calendarFeedToken;
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  updateUser(userId, { calendarFeedToken: token });
+  return token;
+}
+
+/**
+ * @swagger
+ * /api/calendar/meetings/{id}.ics:
+ *   get:
+ *     summary: Download a meeting as an iCalendar event
+ *     description: Get a scheduled meeting as an .ics file containing the meeting link
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     responses:
+ *       200:
+ *         description: iCalendar file
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Meeting is not scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Meeting not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/meetings/:id.ics', requireAuth, (req, res) => {
+  try {
+    const meeting = findMeetingById(req.params.id);
+
+    if (!meeting) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    if (meeting.scheduledStart === undefined) {
+      return res.status(400).json({ error: 'Only scheduled meetings can be exported' });
+    }
+
+    const body = serializeCalendar({ events: [toEvent(meeting, getPublicUrl(req))] });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="meeting-${meeting.meetingId}.ics"`);
+    return res.send(body);
+  } catch (error) {
+    console.error('[Calendar] Error exporting meeting:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed:
+ *   get:
+ *     summary: Get the caller's calendar feed URL
+ *     description: Get the secret URL of the caller's subscribable feed of scheduled meetings, creating it on first use
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Feed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarFeed'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/feed', requireAuth, (req, res) => {
+  try {
+    const token = ensureFeedToken(req.auth!.userId);
+    if (!token) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    return res.json({ feedUrl: `${getPublicUrl(req)}/api/calendar/feed/${token}.ics` });
+  } catch (error) {
+    console.error('[Calendar] Error getting feed URL:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed/rotate:
+ *   post:
+ *     summary: Rotate the caller's calendar feed URL
+ *     description: Issue a new feed token. The old feed URL stops working immediately.
+ *     tags: [Calendar]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: New feed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CalendarFeed'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/feed/rotate', requireAuth, (req, res) => {
+  try {
+    const token = randomBytes(24).toString('base64url');
+    updateUser(req.auth!.userId, { calendarFeedToken: token });
+    console.log(`[Calendar] Rotated feed token for ${req.auth!.username}`);
+
+    return res.json({ feedUrl: `${getPublicUrl(req)}/api/calendar/feed/${token}.ics` });
+  } catch (error) {
+    console.error('[Calendar] Error rotating feed token:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/calendar/feed/{token}.ics:
+ *   get:
+ *     summary: Subscribable calendar feed
+ *     description: iCalendar feed of a user's scheduled meetings, for calendar apps to subscribe to.
+ *       Authenticated by the secret token in the URL only. Cancelled meetings are published with STATUS:CANCELLED,
+ *       and meetings that ended in the last 30 days are kept.
+ *     tags: [Calendar]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Feed token
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Feed not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/feed/:token.ics', (req, res) => {
+  try {
+    const user = findUserByCalendarFeedToken(req.params.token);
+
+    if (!user) {
+      return res.status(404).json({ error: 'Feed not found' });
+    }
+
+    const cutoff = Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+    const baseUrl = getPublicUrl(req);
+    const events = getMeetingsByOwnerId(user.userId)
+      .filter(meeting => meeting.scheduledStart !== undefined && meeting.expiresAt > cutoff)
+      .sort((a, b) => a.scheduledStart! - b.scheduledStart!)
+      .map(meeting => toEvent(meeting, baseUrl));
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    return res.send(serializeCalendar({ name: `${user.username}'s meetings`, events }));
+  } catch (error) {
+    console.error('[Calendar] Error building feed:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,563 @@
+import { Router, Request, Response } from 'express';
+import {
+  addMeeting,
+  findMeetingById,
+  getMeetingsByOwnerId,
+  updateMeeting,
+  Meeting,
+} from '../storage/fileStorage';
+import {
+  generateMeetingId,
+  getMeetingExpiry,
+  getScheduledEnd,
+  getJoinWindow,
+  getMeetingWindowState,
+  isMeetingExpired,
+  DEFAULT_EARLY_JOIN_MINUTES,
+  DEFAULT_MEETING_DURATION_MINUTES,
+  MAX_MEETING_DURATION_MINUTES,
+  DEFAULT_MAX_PARTICIPANTS,
+  MAX_PARTICIPANTS_LIMIT,
+} from '../utils/expiry';
+import { isValidTimeZone } from '../utils/ics';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Parse a timestamp given as unix milliseconds or an ISO 8601 string
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Add the join window to a meeting for API responses
+ */
+function withJoinWindow(meeting: Meeting) {
+  return {
+    ...meeting,
+    ...getJoinWindow(meeting),
+    state: getMeetingWindowState(meeting),
+  };
+}
+
+/**
+ * @swagger
+ * /api/meetings:
+ *   get:
+ *     summary: List upcoming meetings
+ *     description: List the caller's meetings that have not expired yet, soonest first
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Upcoming meetings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 meetings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MeetingWithWindow'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', requireAuth, (req, res) => {
+  try {
+    const meetings = getMeetingsByOwnerId(req.auth!.userId)
+      .filter(meeting => !meeting.cancelledAt && !isMeetingExpired(meeting))
+      .sort((a, b) => (a.scheduledStart ?? a.createdAt) - (b.scheduledStart ?? b.createdAt))
+      .map(withJoinWindow);
+
+    return res.json({ meetings });
+  } catch (error) {
+    console.error('[Meetings] Error listing meetings:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/meetings:
+ *   post:
+ *     summary: Create a meeting
+ *     description: Create a meeting owned by the caller. The server issues the meeting ID and decides when the link expires.
+ *       Meetings with a scheduledStart can only be joined from settings.earlyJoinMinutes before the start until the end of the slot.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: Meeting title
+ *                 example: Weekly Sync
+ *               expiresInHours:
+ *                 type: number
+ *                 description: Link lifetime in hours (defaults to MEETING_TTL_HOURS, capped at MAX_MEETING_TTL_HOURS)
+ *                 example: 24
+ *               scheduledStart:
+ *                 oneOf:
+ *                   - type: number
+ *                   - type: string
+ *                     format: date-time
+ *                 description: Start time (unix ms or ISO 8601) for a scheduled meeting. Omit for an instant meeting.
+ *                 example: '2026-01-15T09:30:00Z'
+ *               durationMinutes:
+ *                 type: number
+ *                 description: Length of a scheduled meeting (default 60, max 1440)
+ *                 example: 45
+ *               timeZone:
+ *                 type: string
+ *                 description: IANA time zone the meeting is scheduled in (used for calendar exports, defaults to UTC)
+ *                 example: Europe/Berlin
+ *               settings:
+ *                 $ref: '#/components/schemas/MeetingSettings'
+ *     responses:
+ *       200:
+ *         description: Meeting created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 meeting:
+ *                   $ref: '#/components/schemas/MeetingWithWindow'
+ *       400:
+ *         description: Invalid expiresInHours, scheduledStart, durationMinutes, timeZone or settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requireAuth, (req, res) => {
+  try {
+    const { title, expiresInHours, scheduledStart, durationMinutes, timeZone, settings } = req.body || {};
+    const { userId, username } = req.auth!;
+
+    if (expiresInHours !== undefined && (typeof expiresInHours !== 'number' || !(expiresInHours > 0))) {
+      return res.status(400).json({ error: 'expiresInHours must be a positive number' });
+    }
+
+    const createdAt = Date.now();
+    const start = scheduledStart !== undefined ? parseTimestamp(scheduledStart) : undefined;
+
+    if (scheduledStart !== undefined && (start === undefined || start < createdAt)) {
+      return res.status(400).json({ error: 'scheduledStart must be a valid time in the future' });
+    }
+
+    if (durationMinutes !== undefined && (
+      typeof durationMinutes !== 'number' || !(durationMinutes > 0) || durationMinutes > MAX_MEETING_DURATION_MINUTES
+    )) {
+      return res.status(400).json({ error: `durationMinutes must be between 1 and ${MAX_MEETING_DURATION_MINUTES}` });
+    }
+
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: 'timeZone must be a valid IANA time zone' });
+    }
+
+    const earlyJoinMinutes = settings?.earlyJoinMinutes;
+    if (earlyJoinMinutes !== undefined && (typeof earlyJoinMinutes !== 'number' || earlyJoinMinutes < 0)) {
+      return res.status(400).json({ error: 'settings.earlyJoinMinutes must be a non-negative number' });
+    }
+
+    const maxParticipants = settings?.maxParticipants;
+    if (maxParticipants !== undefined && (
+      !Number.isInteger(maxParticipants) || maxParticipants < 2 || maxParticipants > MAX_PARTICIPANTS_LIMIT
+    )) {
+      return res.status(400).json({ error: `settings.maxParticipants must be an integer between 2 and ${MAX_PARTICIPANTS_LIMIT}` });
+    }
+
+    const meeting: Meeting = {
+      meetingId: generateMeetingId(),
+      ownerId: userId,
+      ownerUsername: username,
+      title: typeof title === 'string' && title.trim() ? title.trim() : `${username}'s meeting`,
+      createdAt,
+      expiresAt: getMeetingExpiry(createdAt, expiresInHours),
+      settings: {
+        recordingEnabled: settings?.recordingEnabled !== false,
+        earlyJoinMinutes: earlyJoinMinutes ?? DEFAULT_EARLY_JOIN_MINUTES,
+        lobbyEnabled: settings?.lobbyEnabled === true,
+        maxParticipants: maxParticipants ?? DEFAULT_MAX_PARTICIPANTS,
+      },
+    };
+
+    // Scheduled meetings close at the end of their slot instead of after a fixed lifetime
+    if (start !== undefined) {
+      meeting.scheduledStart = start;
+      meeting.durationMinutes = durationMinutes ?? DEFAULT_MEETING_DURATION_MINUTES;
+      meeting.expiresAt = getScheduledEnd(start, meeting.durationMinutes);
+      meeting.timeZone = timeZone;
+      meeting.sequence = 0;
+    }
+
+    addMeeting(meeting);
+    console.log(`[Meetings] Created meeting ${meeting.meetingId} for ${username}`);
+
+    return res.json({ meeting: withJoinWindow(meeting) });
+  } catch (error) {
+    console.error('[Meetings] Error creating meeting:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/meetings/{id}:
+ *   get:
+ *     summary: Get a meeting
+ *     description: Get a meeting by ID, e.g. to check that a link is still valid before joining
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     responses:
+ *       200:
+ *         description: Meeting details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 meeting:
+ *                   $ref: '#/components/schemas/MeetingWithWindow'
+ *                 expired:
+ *                   type: boolean
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Meeting not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', requireAuth, (req, res) => {
+  try {
+    const meeting = findMeetingById(req.params.id);
+
+    if (!meeting) {
+      return res.status(404).json({ error: 'Meeting not found' });
+    }
+
+    return res.json({ meeting: withJoinWindow(meeting), expired: isMeetingExpired(meeting) });
+  } catch (error) {
+    console.error('[Meetings] Error getting meeting:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * Load a meeting the caller owns and that is still active, or send the error response
+ */
+function findOwnedMeeting(req: Request, res: Response): Meeting | undefined {
+  const meeting = findMeetingById(req.params.id);
+
+  if (!meeting) {
+    res.status(404).json({ error: 'Meeting not found' });
+    return undefined;
+  }
+
+  if (meeting.ownerId !== req.auth!.userId) {
+    res.status(403).json({ error: 'Not authorized to modify this meeting' });
+    return undefined;
+  }
+
+  if (meeting.cancelledAt) {
+    res.status(409).json({ error: 'Meeting has been cancelled' });
+    return undefined;
+  }
+
+  return meeting;
+}
+
+/**
+ * @swagger
+ * /api/meetings/{id}:
+ *   patch:
+ *     summary: Update a meeting
+ *     description: Rename or reschedule a meeting. Only the owner can update a meeting.
+ *       Changes to a scheduled meeting bump its iCalendar SEQUENCE so subscribed calendars pick them up.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *               scheduledStart:
+ *                 oneOf:
+ *                   - type: number
+ *                   - type: string
+ *                     format: date-time
+ *                 description: New start time (scheduled meetings only)
+ *               durationMinutes:
+ *                 type: number
+ *                 description: New length (scheduled meetings only)
+ *               timeZone:
+ *                 type: string
+ *                 example: Europe/Berlin
+ *     responses:
+ *       200:
+ *         description: Meeting updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 meeting:
+ *                   $ref: '#/components/schemas/MeetingWithWindow'
+ *       400:
+ *         description: Invalid field, or rescheduling an instant meeting
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this meeting
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Meeting not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Meeting has been cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch('/:id', requireAuth, (req, res) => {
+  try {
+    const meeting = findOwnedMeeting(req, res);
+    if (!meeting) return;
+
+    const { title, scheduledStart, durationMinutes, timeZone } = req.body || {};
+    const updates: Partial<Meeting> = {};
+
+    if (title !== undefined) {
+      if (typeof title !== 'string' || !title.trim()) {
+        return res.status(400).json({ error: 'title must be a non-empty string' });
+      }
+      updates.title = title.trim();
+    }
+
+    const reschedules = scheduledStart !== undefined || durationMinutes !== undefined || timeZone !== undefined;
+    if (reschedules && meeting.scheduledStart === undefined) {
+      return res.status(400).json({ error: 'Only scheduled meetings can be rescheduled' });
+    }
+
+    if (scheduledStart !== undefined) {
+      const start = parseTimestamp(scheduledStart);
+      if (start === undefined || start < Date.now()) {
+        return res.status(400).json({ error: 'scheduledStart must be a valid time in the future' });
+      }
+      updates.scheduledStart = start;
+    }
+
+    if (durationMinutes !== undefined) {
+      if (typeof durationMinutes !== 'number' || !(durationMinutes > 0) || durationMinutes > MAX_MEETING_DURATION_MINUTES) {
+        return res.status(400).json({ error: `durationMinutes must be between 1 and ${MAX_MEETING_DURATION_MINUTES}` });
+      }
+      updates.durationMinutes = durationMinutes;
+    }
+
+    if (timeZone !== undefined) {
+      if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+        return res.status(400).json({ error: 'timeZone must be a valid IANA time zone' });
+      }
+      updates.timeZone = timeZone;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.json({ meeting: withJoinWindow(meeting) });
+    }
+
+    if (meeting.scheduledStart !== undefined) {
+      const start = updates.scheduledStart ?? meeting.scheduledStart;
+      const duration = updates.durationMinutes ?? meeting.durationMinutes ?? DEFAULT_MEETING_DURATION_MINUTES;
+      updates.expiresAt = getScheduledEnd(start, duration);
+      updates.sequence = (meeting.sequence ?? 0) + 1;
+    }
+    updates.updatedAt = Date.now();
+
+    updateMeeting(meeting.meetingId, updates);
+    console.log(`[Meetings] Updated meeting ${meeting.meetingId}`);
+
+    return res.json({ meeting: withJoinWindow({ ...meeting, ...updates }) });
+  } catch (error) {
+    console.error('[Meetings] Error updating meeting:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/meetings/{id}:
+ *   delete:
+ *     summary: Cancel a meeting
+ *     description: Cancel a meeting so it can no longer be joined. The meeting is kept so calendar feeds
+ *       can publish the cancellation (STATUS:CANCELLED with a bumped SEQUENCE). Only the owner can cancel a meeting.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     responses:
+ *       200:
+ *         description: Meeting cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this meeting
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Meeting not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Meeting has been cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', requireAuth, (req, res) => {
+  try {
+    const meeting = findOwnedMeeting(req, res);
+    if (!meeting) return;
+
+    const now = Date.now();
+    updateMeeting(meeting.meetingId, {
+      cancelledAt: now,
+      updatedAt: now,
+      sequence: (meeting.sequence ?? 0) + 1,
+    });
+    console.log(`[Meetings] Cancelled meeting ${meeting.meetingId}`);
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Meetings] Error cancelling meeting:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
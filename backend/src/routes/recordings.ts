@@ -1,17 +1,32 @@
 import { Router } from 'express';
 import multer from 'multer';
+import fs from 'fs';
 import path from 'path';
-import { randomUUID } from 'crypto';
+import { randomUUID, randomBytes } from 'crypto';
 import {
   addRecording,
-  findRecordingById,
   updateRecording,
   getRecordingsByUserId,
+  getRecordingsSharedWithUser,
   getRecordingFilePath,
+  findRecordingById,
+  readTranscript,
+  findUserByUsername,
   Recording,
+  RecordingGrant,
   RecordingType,
+  RecordingLayout,
+  ExportFormat,
 } from '../storage/fileStorage';
 import { deletionQueue } from '../storage/deletionQueue';
+import { thumbnailQueue } from '../storage/thumbnailQueue';
+import { transcriptionQueue } from '../storage/transcriptionQueue';
+import { searchIndex } from '../storage/searchIndex';
+import { exportQueue, getExportFormats } from '../storage/exportQueue';
+import { requireAuth, optionalAuth } from '../middleware/auth';
+import { requireRecordingAccess } from '../middleware/recordingAccess';
+import { makeWebmSeekable } from '../utils/webm';
+import { toWebVtt, toSrt } from '../utils/subtitles';
 
 const router = Router();
 
@@ -21,7 +36,7 @@ const storage = multer.diskStorage({
     cb(null, path.join(__dirname, '../../data/recordings'));
   },
   filename: (req, file, cb) => {
-    const userId = req.body.userId;
+    const userId = req.auth!.userId;
     const recId = randomUUID();
     const timestamp = Date.now();
     const filename = `${userId}-rec-${recId}-${timestamp}.webm`;
@@ -34,13 +49,53 @@ const upload = multer({
   limits: { fileSize: 500 * 1024 * 1024 }, // 500MB max
 });
 
+const CONTENT_TYPES: Record<RecordingType, string> = {
+  audio: 'audio/webm',
+  video: 'video/webm',
+  both: 'video/webm',
+};
+
+/**
+ * File name offered for a download: the recording title, made safe for file systems
+ */
+function getDownloadName(recording: Recording, extension: string): string {
+  const base = recording.title.replace(/[^\w\- ]+/g, '').trim() || recording.recordingId;
+  return `${base}.${extension}`;
+}
+
+/**
+ * Parse a single-range `Range: bytes=...` header against a file size
+ * Returns null when the range can't be satisfied; only the first range of a multi-range request is served
+ */
+function parseByteRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) return null;
+  return { start, end };
+}
+
 /**
  * @swagger
  * /api/recordings:
  *   post:
  *     summary: Upload a new recording
- *     description: Upload a recording file with associated metadata
+ *     description: Upload a recording file with associated metadata. The owner is the authenticated caller.
  *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -49,24 +104,15 @@ const upload = multer({
  *             type: object
  *             required:
  *               - file
- *               - userId
  *               - meetingId
- *               - username
  *             properties:
  *               file:
  *                 type: string
  *                 format: binary
  *                 description: Recording file (webm format, max 500MB)
- *               userId:
- *                 type: string
- *                 format: uuid
- *                 description: User ID of the uploader
  *               meetingId:
  *                 type: string
  *                 description: Associated meeting ID
- *               username:
- *                 type: string
- *                 description: Username of the uploader
  *               title:
  *                 type: string
  *                 description: Recording title (optional)
@@ -77,6 +123,10 @@ const upload = multer({
  *                 type: string
  *                 enum: [audio, video, both]
  *                 description: Type of recording
+ *               layout:
+ *                 type: string
+ *                 enum: [grid, speaker, filmstrip, presenter]
+ *                 description: Layout the recording was composed with (ignored for audio-only recordings)
  *     responses:
  *       200:
  *         description: Recording uploaded successfully
@@ -97,6 +147,12 @@ const upload = multer({
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Internal server error
  *         content:
@@ -104,16 +160,17 @@ const upload = multer({
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post('/', upload.single('file'), (req, res) => {
+router.post('/', requireAuth, upload.single('file'), async (req, res) => {
   try {
-    const { userId, meetingId, username, title, duration, recordingType } = req.body;
+    const { meetingId, title, duration, recordingType, layout } = req.body;
+    const { userId, username } = req.auth!;
     const file = req.file;
 
     if (!file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    if (!userId || !meetingId || !username) {
+    if (!meetingId) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
@@ -121,6 +178,19 @@ router.post('/', upload.single('file'), (req, res) => {
     const validRecordingTypes: RecordingType[] = ['audio', 'video', 'both'];
     const type: RecordingType = validRecordingTypes.includes(recordingType) ? recordingType : 'both';
 
+    // Audio-only recordings have no layout
+    const validLayouts: RecordingLayout[] = ['grid', 'speaker', 'filmstrip', 'presenter'];
+    const recordingLayout: RecordingLayout | undefined =
+      type !== 'audio' ? (validLayouts.includes(layout) ? layout : 'grid') : undefined;
+
+    // MediaRecorder output has no duration or cues, so players can't seek in it until it is remuxed
+    let durationMs = 0;
+    try {
+      ({ durationMs } = await makeWebmSeekable(file.path));
+    } catch (error) {
+      console.warn(`[Recordings] Could not index ${file.filename}, keeping it as uploaded:`, error);
+    }
+
     const recording: Recording = {
       recordingId: path.parse(file.filename).name,
       userId,
@@ -128,12 +198,16 @@ router.post('/', upload.single('file'), (req, res) => {
       username,
       title: title || `Recording - ${new Date().toLocaleString()}`,
       filename: file.filename,
-      duration: parseInt(duration) || 0,
+      duration: parseInt(duration) || Math.round(durationMs / 1000),
       createdAt: Date.now(),
       recordingType: type,
+      layout: recordingLayout,
     };
 
     addRecording(recording);
+    searchIndex.indexRecording(recording);
+    thumbnailQueue.enqueue(recording.recordingId);
+    transcriptionQueue.enqueue(recording.recordingId);
     console.log(`[Recordings] Added recording: ${recording.recordingId} (type: ${type})`);
 
     return res.json({
@@ -151,16 +225,19 @@ router.post('/', upload.single('file'), (req, res) => {
  * /api/recordings:
  *   get:
  *     summary: List recordings
- *     description: Get all recordings for a specific user
+ *     description: Get the caller's own recordings, or the recordings other users have shared with them
  *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
  *     parameters:
  *       - in: query
- *         name: userId
- *         required: true
+ *         name: scope
  *         schema:
  *           type: string
- *           format: uuid
- *         description: User ID to filter recordings
+ *           enum: [own, shared]
+ *           default: own
+ *         description: Which recordings to list
  *     responses:
  *       200:
  *         description: List of recordings
@@ -173,8 +250,104 @@ router.post('/', upload.single('file'), (req, res) => {
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Recording'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', requireAuth, (req, res) => {
+  try {
+    const { userId } = req.auth!;
+
+    // Grants on recordings shared with the caller belong to the owner
+    const recordings = req.query.scope === 'shared'
+      ? getRecordingsSharedWithUser(userId).map(recording => ({ ...recording, grants: undefined }))
+      : getRecordingsByUserId(userId);
+    return res.json({ recordings });
+  } catch (error) {
+    console.error('[Recordings] Error getting recordings:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/search:
+ *   get:
+ *     summary: Search recordings
+ *     description: |
+ *       Full-text search over the titles, meeting IDs, participant names and transcripts of the caller's recordings and
+ *       the ones shared with them. Every word of the query has to match; the last one also matches longer words, so
+ *       partial input works. Hits are ranked by where the words matched (title first, transcript last) and how rare
+ *       they are, and transcript matches come with `moments` to jump to in the media.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: budget review
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Ranked search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       recording:
+ *                         $ref: '#/components/schemas/Recording'
+ *                       score:
+ *                         type: number
+ *                       fields:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                           enum: [title, meetingId, participant, transcript]
+ *                       moments:
+ *                         type: array
+ *                         description: Matching transcript segments, in media order
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             start:
+ *                               type: number
+ *                               description: Seconds from the start of the recording
+ *                             end:
+ *                               type: number
+ *                             text:
+ *                               type: string
  *       400:
- *         description: userId query parameter is required
+ *         description: Missing query
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
  *         content:
  *           application/json:
  *             schema:
@@ -186,18 +359,30 @@ router.post('/', upload.single('file'), (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/', (req, res) => {
+router.get('/search', requireAuth, (req, res) => {
   try {
-    const { userId } = req.query;
+    const { userId } = req.auth!;
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
 
-    if (!userId) {
-      return res.status(400).json({ error: 'userId query parameter is required' });
+    if (!query) {
+      return res.status(400).json({ error: 'Query is required' });
     }
 
-    const recordings = getRecordingsByUserId(userId as string);
-    return res.json({ recordings });
+    // Grants on recordings shared with the caller belong to the owner
+    const visible = new Map<string, Recording>();
+    getRecordingsByUserId(userId).forEach(recording => visible.set(recording.recordingId, recording));
+    getRecordingsSharedWithUser(userId).forEach(recording =>
+      visible.set(recording.recordingId, { ...recording, grants: undefined })
+    );
+
+    const results = searchIndex
+      .search(query, recordingId => visible.has(recordingId), limit)
+      .map(({ recordingId, ...hit }) => ({ recording: visible.get(recordingId), ...hit }));
+
+    return res.json({ results });
   } catch (error) {
-    console.error('[Recordings] Error getting recordings:', error);
+    console.error('[Recordings] Error searching recordings:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -207,8 +392,12 @@ router.get('/', (req, res) => {
  * /api/recordings/{id}:
  *   get:
  *     summary: Get a specific recording
- *     description: Get recording metadata by ID
+ *     description: Get recording metadata by ID. Available to the owner, users it was shared with, and holders of a share link.
  *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -216,6 +405,11 @@ router.get('/', (req, res) => {
  *         schema:
  *           type: string
  *         description: Recording ID
+ *       - in: query
+ *         name: grant
+ *         schema:
+ *           type: string
+ *         description: Share link token, for callers the recording was not shared with directly
  *     responses:
  *       200:
  *         description: Recording details
@@ -243,18 +437,17 @@ router.get('/', (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id', (req, res) => {
+router.get('/:id', optionalAuth, requireRecordingAccess('view'), (req, res) => {
   try {
-    const { id } = req.params;
-    const recording = findRecordingById(id);
+    const recording = req.recording!;
+    const grant = req.query.grant ? `?grant=${encodeURIComponent(req.query.grant as string)}` : '';
 
-    if (!recording) {
-      return res.status(404).json({ error: 'Recording not found' });
-    }
+    // Only the owner sees who else has access
+    const visible = recording.userId === req.auth?.userId ? recording : { ...recording, grants: undefined };
 
     return res.json({
-      recording,
-      videoUrl: `/api/recordings/${id}/video`,
+      recording: visible,
+      videoUrl: `/api/recordings/${recording.recordingId}/video${grant}`,
     });
   } catch (error) {
     console.error('[Recordings] Error getting recording:', error);
@@ -267,8 +460,12 @@ router.get('/:id', (req, res) => {
  * /api/recordings/{id}/video:
  *   get:
  *     summary: Stream recording video
- *     description: Stream the video file for a recording
+ *     description: Stream the media file for a recording, served as `audio/webm` for audio-only recordings and `video/webm` otherwise. Byte ranges are supported so players can seek. The session cookie is accepted so the URL can be used directly as a media source.
  *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -276,20 +473,48 @@ router.get('/:id', (req, res) => {
  *         schema:
  *           type: string
  *         description: Recording ID
+ *       - in: query
+ *         name: grant
+ *         schema:
+ *           type: string
+ *         description: Share link token, for callers the recording was not shared with directly
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *           example: bytes=0-1048575
+ *         description: Byte range to return (a single range; only the first of several is served)
  *     responses:
  *       200:
- *         description: Video file stream
+ *         description: Whole file
+ *         content:
+ *           video/webm:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           audio/webm:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       206:
+ *         description: The requested byte range, described by the `Content-Range` header
  *         content:
  *           video/webm:
  *             schema:
  *               type: string
  *               format: binary
+ *           audio/webm:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       404:
- *         description: Recording not found
+ *         description: Recording or its file not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       416:
+ *         description: Range not satisfiable; `Content-Range` carries the file size
  *       500:
  *         description: Internal server error
  *         content:
@@ -297,17 +522,48 @@ router.get('/:id', (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get('/:id/video', (req, res) => {
+router.get('/:id/video', optionalAuth, requireRecordingAccess('view'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const recording = findRecordingById(id);
+    const recording = req.recording!;
+    const filePath = getRecordingFilePath(recording.filename);
 
-    if (!recording) {
-      return res.status(404).json({ error: 'Recording not found' });
+    let size: number;
+    try {
+      size = (await fs.promises.stat(filePath)).size;
+    } catch {
+      return res.status(404).json({ error: 'Recording file not found' });
     }
 
-    const filePath = getRecordingFilePath(recording.filename);
-    return res.sendFile(filePath);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Content-Type', CONTENT_TYPES[recording.recordingType || 'both']);
+
+    let start = 0;
+    let end = size - 1;
+
+    if (req.headers.range) {
+      const range = parseByteRange(req.headers.range, size);
+      if (!range) {
+        res.setHeader('Content-Range', `bytes */${size}`);
+        return res.status(416).end();
+      }
+
+      ({ start, end } = range);
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+    }
+
+    res.setHeader('Content-Length', end - start + 1);
+
+    if (req.method === 'HEAD' || size === 0) {
+      return res.end();
+    }
+
+    const stream = fs.createReadStream(filePath, { start, end });
+    stream.on('error', (error) => {
+      console.error('[Recordings] Error reading video file:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
   } catch (error) {
     console.error('[Recordings] Error streaming video:', error);
     return res.status(500).json({ error: 'Internal server error' });
@@ -316,11 +572,15 @@ router.get('/:id/video', (req, res) => {
 
 /**
  * @swagger
- * /api/recordings/{id}:
- *   put:
- *     summary: Update recording
- *     description: Update recording metadata (e.g., rename)
+ * /api/recordings/{id}/status:
+ *   get:
+ *     summary: Get recording processing status
+ *     description: Get the status of the background composition job for a server recording. Client uploads are always done.
  *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -328,51 +588,108 @@ router.get('/:id/video', (req, res) => {
  *         schema:
  *           type: string
  *         description: Recording ID
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - title
- *             properties:
- *               title:
- *                 type: string
- *                 description: New title for the recording
- *                 example: Updated Meeting Title
- *               userId:
- *                 type: string
- *                 format: uuid
- *                 description: User ID for ownership verification
+ *       - in: query
+ *         name: grant
+ *         schema:
+ *           type: string
+ *         description: Share link token, for callers the recording was not shared with directly
  *     responses:
  *       200:
- *         description: Recording updated successfully
+ *         description: Recording status
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
+ *                 recordingId:
  *                   type: string
- *                   example: Recording updated
- *       400:
- *         description: Title is required
+ *                 status:
+ *                   type: string
+ *                   enum: [queued, running, failed, done]
+ *                 error:
+ *                   type: string
+ *                   description: Failure reason when status is failed
+ *                 updatedAt:
+ *                   type: number
+ *                 preview:
+ *                   type: object
+ *                   description: Preview image job (same shape as `preview` on the recording), unset until it is queued
+ *                 exports:
+ *                   type: object
+ *                   description: Download exports by format (`mp4`, `m4a`), each with `status`, `progress` (0 to 1) and `error`
+ *                 transcript:
+ *                   type: object
+ *                   description: Transcription job (`status`, `error`, `language`), unset for recordings without audio or when transcription is off
+ *       404:
+ *         description: Recording not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       403:
- *         description: Not authorized to update this recording
+ *       500:
+ *         description: Internal server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/status', optionalAuth, requireRecordingAccess('view'), (req, res) => {
+  try {
+    const recording = req.recording!;
+    const composition = recording.composition || { status: 'done', updatedAt: recording.createdAt };
+
+    return res.json({
+      recordingId: recording.recordingId,
+      status: composition.status,
+      error: composition.error,
+      updatedAt: composition.updatedAt,
+      preview: recording.preview,
+      exports: recording.exports,
+      transcript: recording.transcript,
+    });
+  } catch (error) {
+    console.error('[Recordings] Error getting recording status:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/{id}/thumbnail:
+ *   get:
+ *     summary: Get recording thumbnail
+ *     description: A poster frame for video recordings, or a waveform image for audio-only recordings. Generated in the background after the recording is stored; `preview.status` on the recording tells whether it is ready.
+ *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *       - in: query
+ *         name: grant
+ *         schema:
+ *           type: string
+ *         description: Share link token, for callers the recording was not shared with directly
+ *     responses:
+ *       200:
+ *         description: Thumbnail image
+ *         content:
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
  *       404:
- *         description: Recording not found
+ *         description: Recording not found, or no thumbnail generated yet
  *         content:
  *           application/json:
  *             schema:
@@ -384,46 +701,96 @@ router.get('/:id/video', (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.put('/:id', (req, res) => {
+router.get('/:id/thumbnail', optionalAuth, requireRecordingAccess('view'), (req, res) => {
   try {
-    const { id } = req.params;
-    const { title, userId } = req.body;
-
-    if (!title) {
-      return res.status(400).json({ error: 'Title is required' });
-    }
+    const { preview } = req.recording!;
+    const filename = preview?.poster || preview?.waveform;
 
-    const recording = findRecordingById(id);
-    if (!recording) {
-      return res.status(404).json({ error: 'Recording not found' });
+    if (preview?.status !== 'done' || !filename) {
+      return res.status(404).json({ error: 'Thumbnail not available' });
     }
 
-    // Verify ownership
-    if (userId && recording.userId !== userId) {
-      return res.status(403).json({ error: 'Not authorized to update this recording' });
-    }
+    return res.sendFile(getRecordingFilePath(filename));
+  } catch (error) {
+    console.error('[Recordings] Error getting thumbnail:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const success = updateRecording(id, { title });
+/**
+ * @swagger
+ * /api/recordings/{id}/sprite:
+ *   get:
+ *     summary: Get recording preview sprite
+ *     description: A sprite sheet of evenly spaced frames of a video recording, used to scrub through it on hover. The grid layout (`frames`, `columns`, `rows`, `interval`, `tileWidth`, `tileHeight`) is in `preview.sprite` on the recording.
+ *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *       - in: query
+ *         name: grant
+ *         schema:
+ *           type: string
+ *         description: Share link token, for callers the recording was not shared with directly
+ *     responses:
+ *       200:
+ *         description: Sprite sheet
+ *         content:
+ *           image/jpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Recording not found, audio-only, or no sprite generated yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/sprite', optionalAuth, requireRecordingAccess('view'), (req, res) => {
+  try {
+    const { preview } = req.recording!;
 
-    if (success) {
-      console.log(`[Recordings] Updated recording: ${id}`);
-      return res.json({ success: true, message: 'Recording updated' });
-    } else {
-      return res.status(500).json({ error: 'Failed to update recording' });
+    if (preview?.status !== 'done' || !preview.sprite) {
+      return res.status(404).json({ error: 'Sprite not available' });
     }
+
+    return res.sendFile(getRecordingFilePath(preview.sprite.filename));
   } catch (error) {
-    console.error('[Recordings] Error updating recording:', error);
+    console.error('[Recordings] Error getting sprite:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
  * @swagger
- * /api/recordings/{id}:
- *   delete:
- *     summary: Delete recording
- *     description: Queue a recording for async deletion
+ * /api/recordings/{id}/download:
+ *   get:
+ *     summary: Download a recording
+ *     description: |
+ *       Download the recording as an attachment. `webm` is the stored file. `mp4` (H.264/AAC, recordings with video) and
+ *       `m4a` (AAC, recordings with audio) are transcoded in the background and cached: while the export isn't ready the
+ *       request queues it (again, if it failed) and answers `202` with its progress. Poll `GET /api/recordings/{id}/status`
+ *       (`exports`) or repeat the request until it returns the file.
  *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -432,24 +799,50 @@ router.put('/:id', (req, res) => {
  *           type: string
  *         description: Recording ID
  *       - in: query
- *         name: userId
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [webm, mp4, m4a]
+ *           default: webm
+ *       - in: query
+ *         name: grant
  *         schema:
  *           type: string
- *           format: uuid
- *         description: User ID for ownership verification
+ *         description: Share link token, for callers the recording was not shared with directly
  *     responses:
  *       200:
- *         description: Recording queued for deletion
+ *         description: Recording file
+ *         content:
+ *           video/webm:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           video/mp4:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           audio/mp4:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       202:
+ *         description: Export queued or running
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 message:
+ *                 format:
  *                   type: string
- *                   example: Deleted successfully!
- *       403:
- *         description: Not authorized to delete this recording
+ *                   enum: [mp4, m4a]
+ *                 status:
+ *                   type: string
+ *                   enum: [queued, running]
+ *                 progress:
+ *                   type: number
+ *                   description: From 0 to 1
+ *       400:
+ *         description: Format not available for this recording type
  *         content:
  *           application/json:
  *             schema:
@@ -460,30 +853,354 @@ router.put('/:id', (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       500:
- *         description: Internal server error
+ *       409:
+ *         description: The server recording is still being composed
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- */
-router.delete('/:id', (req, res) => {
+ *       422:
+ *         description: Composing the server recording failed; the error says why
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/download', optionalAuth, requireRecordingAccess('view'), (req, res) => {
+  try {
+    const recording = req.recording!;
+    const format = (req.query.format as string) || 'webm';
+
+    // A failed composition stays failed; waiting won't produce a file
+    if (recording.composition?.status === 'failed') {
+      const reason = recording.composition.error || 'unknown error';
+      return res.status(422).json({ error: `Recording could not be composed: ${reason}` });
+    }
+
+    if (recording.composition && recording.composition.status !== 'done') {
+      return res.status(409).json({ error: 'Recording is still being processed' });
+    }
+
+    if (format === 'webm') {
+      return res.download(getRecordingFilePath(recording.filename), getDownloadName(recording, 'webm'));
+    }
+
+    if (!getExportFormats(recording.recordingType).includes(format as ExportFormat)) {
+      return res.status(400).json({ error: 'Format not available for this recording' });
+    }
+
+    const exportFormat = format as ExportFormat;
+    const job = recording.exports?.[exportFormat];
+
+    if (job?.status === 'done' && job.filename && fs.existsSync(getRecordingFilePath(job.filename))) {
+      return res.download(getRecordingFilePath(job.filename), getDownloadName(recording, exportFormat));
+    }
+
+    if (job?.status !== 'queued' && job?.status !== 'running') {
+      exportQueue.enqueue(recording.recordingId, exportFormat);
+    }
+
+    const current = findRecordingById(recording.recordingId)?.exports?.[exportFormat];
+    return res.status(202).json({
+      format: exportFormat,
+      status: current?.status ?? 'queued',
+      progress: current?.progress ?? 0,
+    });
+  } catch (error) {
+    console.error('[Recordings] Error downloading recording:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/{id}/transcript:
+ *   get:
+ *     summary: Get the transcript of a recording
+ *     description: |
+ *       Timestamped transcript made by the speech engine after the recording was stored. `json` returns the segments,
+ *       `vtt` is WebVTT for a `<track>` element and `srt` is SubRip for video editors and players.
+ *     tags: [Recordings]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, vtt, srt]
+ *           default: json
+ *       - in: query
+ *         name: grant
+ *         schema:
+ *           type: string
+ *         description: Share link token, for callers the recording was not shared with directly
+ *     responses:
+ *       200:
+ *         description: Transcript
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recordingId:
+ *                   type: string
+ *                 engine:
+ *                   type: string
+ *                   example: whisper.cpp
+ *                 language:
+ *                   type: string
+ *                   example: en
+ *                 segments:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       start:
+ *                         type: number
+ *                         description: Seconds from the start of the recording
+ *                       end:
+ *                         type: number
+ *                       text:
+ *                         type: string
+ *           text/vtt:
+ *             schema:
+ *               type: string
+ *           application/x-subrip:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Unknown format
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recording not found, or no transcript yet
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/transcript', optionalAuth, requireRecordingAccess('view'), (req, res) => {
+  try {
+    const recording = req.recording!;
+    const format = (req.query.format as string) || 'json';
+
+    if (!['json', 'vtt', 'srt'].includes(format)) {
+      return res.status(400).json({ error: 'format must be json, vtt or srt' });
+    }
+
+    const transcript = recording.transcript?.status === 'done' && recording.transcript.filename
+      ? readTranscript(recording.transcript.filename)
+      : null;
+
+    if (!transcript) {
+      return res.status(404).json({ error: 'Transcript not available' });
+    }
+
+    if (format === 'vtt') {
+      res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+      return res.send(toWebVtt(transcript.segments));
+    }
+
+    if (format === 'srt') {
+      res.setHeader('Content-Type', 'application/x-subrip; charset=utf-8');
+      res.attachment(getDownloadName(recording, 'srt'));
+      return res.send(toSrt(transcript.segments));
+    }
+
+    return res.json({
+      recordingId: recording.recordingId,
+      engine: transcript.engine,
+      language: transcript.language,
+      segments: transcript.segments,
+    });
+  } catch (error) {
+    console.error('[Recordings] Error getting transcript:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/{id}:
+ *   put:
+ *     summary: Update recording
+ *     description: Update recording metadata (e.g., rename). Only the owner can update a recording.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 description: New title for the recording
+ *                 example: Updated Meeting Title
+ *     responses:
+ *       200:
+ *         description: Recording updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: Recording updated
+ *       400:
+ *         description: Title is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this recording
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recording not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put('/:id', requireAuth, requireRecordingAccess('owner'), (req, res) => {
   try {
     const { id } = req.params;
-    const { userId } = req.query;
+    const { title } = req.body;
 
-    const recording = findRecordingById(id);
-    if (!recording) {
-      return res.status(404).json({ error: 'Recording not found' });
+    if (!title) {
+      return res.status(400).json({ error: 'Title is required' });
     }
 
-    // Verify ownership
-    if (userId && recording.userId !== userId) {
-      return res.status(403).json({ error: 'Not authorized to delete this recording' });
+    const success = updateRecording(id, { title });
+
+    if (success) {
+      searchIndex.indexRecording({ ...req.recording!, title });
+      console.log(`[Recordings] Updated recording: ${id}`);
+      return res.json({ success: true, message: 'Recording updated' });
+    } else {
+      return res.status(500).json({ error: 'Failed to update recording' });
     }
+  } catch (error) {
+    console.error('[Recordings] Error updating recording:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/{id}:
+ *   delete:
+ *     summary: Delete recording
+ *     description: Queue a recording for async deletion. Only the owner can delete a recording.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *     responses:
+ *       200:
+ *         description: Recording queued for deletion
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Deleted successfully!
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this recording
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recording not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id', requireAuth, requireRecordingAccess('owner'), (req, res) => {
+  try {
+    const { id } = req.params;
 
-    // Add to deletion queue (async deletion)
+    // Add to deletion queue (async deletion); it stops showing up in search right away
     deletionQueue.enqueue(id);
+    searchIndex.removeRecording(id);
     
     console.log(`[Recordings] Queued deletion for recording: ${id}`);
 
@@ -495,4 +1212,275 @@ router.delete('/:id', (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/recordings/{id}/grants:
+ *   get:
+ *     summary: List recording grants
+ *     description: List the users and share links that have access to a recording. Only the owner can list grants.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *     responses:
+ *       200:
+ *         description: Grants for the recording
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 grants:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RecordingGrant'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this recording
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recording not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/grants', requireAuth, requireRecordingAccess('owner'), (req, res) => {
+  try {
+    return res.json({ grants: req.recording!.grants || [] });
+  } catch (error) {
+    console.error('[Recordings] Error getting grants:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/{id}/grants:
+ *   post:
+ *     summary: Share a recording
+ *     description: Share a recording with another user by username, or create a share link when no username is given.
+ *       Only the owner can share a recording.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               username:
+ *                 type: string
+ *                 description: User to share with (omit to create a share link)
+ *                 example: jane_doe
+ *     responses:
+ *       200:
+ *         description: Grant created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 grant:
+ *                   $ref: '#/components/schemas/RecordingGrant'
+ *                 shareUrl:
+ *                   type: string
+ *                   description: Video URL including the link token (share links only)
+ *                   example: /api/recordings/abc123/video?grant=3f9c...
+ *       400:
+ *         description: Cannot share a recording with its owner
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this recording
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recording or user not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/grants', requireAuth, requireRecordingAccess('owner'), (req, res) => {
+  try {
+    const recording = req.recording!;
+    const { username } = req.body || {};
+    const grants = recording.grants || [];
+
+    if (username) {
+      const user = findUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (user.userId === recording.userId) {
+        return res.status(400).json({ error: 'Cannot share a recording with its owner' });
+      }
+
+      // Sharing twice with the same user returns the existing grant
+      const existing = grants.find(grant => grant.type === 'user' && grant.userId === user.userId);
+      if (existing) {
+        return res.json({ grant: existing });
+      }
+
+      const grant: RecordingGrant = {
+        grantId: randomUUID(),
+        type: 'user',
+        userId: user.userId,
+        username: user.username,
+        createdAt: Date.now(),
+      };
+
+      updateRecording(recording.recordingId, { grants: [...grants, grant] });
+      console.log(`[Recordings] Shared recording ${recording.recordingId} with ${user.username}`);
+
+      return res.json({ grant });
+    }
+
+    const grant: RecordingGrant = {
+      grantId: randomUUID(),
+      type: 'link',
+      token: randomBytes(24).toString('base64url'),
+      createdAt: Date.now(),
+    };
+
+    updateRecording(recording.recordingId, { grants: [...grants, grant] });
+    console.log(`[Recordings] Created share link for recording ${recording.recordingId}`);
+
+    return res.json({
+      grant,
+      shareUrl: `/api/recordings/${recording.recordingId}/video?grant=${grant.token}`,
+    });
+  } catch (error) {
+    console.error('[Recordings] Error creating grant:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/{id}/grants/{grantId}:
+ *   delete:
+ *     summary: Revoke a grant
+ *     description: Stop sharing a recording with a user, or disable a share link. Only the owner can revoke grants.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Recording ID
+ *       - in: path
+ *         name: grantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Grant ID
+ *     responses:
+ *       200:
+ *         description: Grant revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not authorized to modify this recording
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recording or grant not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:id/grants/:grantId', requireAuth, requireRecordingAccess('owner'), (req, res) => {
+  try {
+    const recording = req.recording!;
+    const grants = recording.grants || [];
+    const remaining = grants.filter(grant => grant.grantId !== req.params.grantId);
+
+    if (remaining.length === grants.length) {
+      return res.status(404).json({ error: 'Grant not found' });
+    }
+
+    updateRecording(recording.recordingId, { grants: remaining });
+    console.log(`[Recordings] Revoked grant ${req.params.grantId} on recording ${recording.recordingId}`);
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Recordings] Error revoking grant:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
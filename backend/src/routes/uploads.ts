@@ -0,0 +1,663 @@
+import express, { Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  addRecording,
+  addUpload,
+  readUploads,
+  findUploadById,
+  updateUpload,
+  deleteUpload,
+  getUploadFilePath,
+  listUploadFileIds,
+  getRecordingFilePath,
+  Recording,
+  RecordingUpload,
+  RecordingType,
+  RecordingLayout,
+} from '../storage/fileStorage';
+import { requireAuth } from '../middleware/auth';
+import { makeWebmSeekable } from '../utils/webm';
+import { thumbnailQueue } from '../storage/thumbnailQueue';
+import { transcriptionQueue } from '../storage/transcriptionQueue';
+import { searchIndex } from '../storage/searchIndex';
+
+/**
+ * Chunked, resumable recording uploads
+ *
+ * The client opens an upload, appends chunks at byte offsets while it is still
+ * recording, and finalizes it into a recording once it stops. Partial uploads
+ * are kept on disk, so a client that reloads can ask for the current offset and
+ * carry on from there. Uploads left untouched for UPLOAD_TTL_HOURS are removed.
+ */
+
+const router = Router();
+
+const MAX_RECORDING_SIZE = 500 * 1024 * 1024; // same limit as a single-request upload
+const MAX_CHUNK_SIZE = '16mb';
+const MAX_PARTICIPANTS = 200; // names kept on a recording
+
+// Uploads not touched for this long are considered abandoned and removed
+const UPLOAD_TTL_MS = (parseInt(process.env.UPLOAD_TTL_HOURS || '') || 24) * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Uploads with a chunk being written or being completed; other requests for them must wait their turn
+const writing = new Set<string>();
+
+let cleanupInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Find an upload owned by the caller (anyone else's is reported as not found)
+ */
+function findOwnUpload(uploadId: string, userId: string): RecordingUpload | undefined {
+  const upload = findUploadById(uploadId);
+  return upload && upload.userId === userId ? upload : undefined;
+}
+
+/**
+ * Remove uploads that stopped receiving chunks more than UPLOAD_TTL_MS ago,
+ * and part files whose upload entry is gone
+ */
+async function removeAbandonedUploads(): Promise<void> {
+  const cutoff = Date.now() - UPLOAD_TTL_MS;
+  const uploads = readUploads();
+
+  for (const upload of uploads) {
+    if (upload.updatedAt > cutoff || writing.has(upload.uploadId)) continue;
+
+    deleteUpload(upload.uploadId);
+    await fs.promises.rm(getUploadFilePath(upload.uploadId), { force: true });
+    console.log(`[Uploads] Removed abandoned upload ${upload.uploadId}`);
+  }
+
+  const known = new Set(uploads.map(upload => upload.uploadId));
+  for (const uploadId of listUploadFileIds()) {
+    if (known.has(uploadId) || writing.has(uploadId)) continue;
+
+    // A part file is created just before its entry, so only old ones are leftovers
+    const partPath = getUploadFilePath(uploadId);
+    const { mtimeMs } = await fs.promises.stat(partPath);
+    if (mtimeMs > cutoff) continue;
+
+    await fs.promises.rm(partPath, { force: true });
+    console.log(`[Uploads] Removed part file without an upload: ${uploadId}`);
+  }
+}
+
+/**
+ * Start removing abandoned uploads every hour
+ */
+export function startUploadCleanup(): void {
+  if (cleanupInterval) return;
+
+  const run = () => {
+    removeAbandonedUploads().catch((error) => {
+      console.error('[Uploads] Error removing abandoned uploads:', error);
+    });
+  };
+
+  run();
+  cleanupInterval = setInterval(run, CLEANUP_INTERVAL_MS);
+}
+
+/**
+ * Stop removing abandoned uploads
+ */
+export function stopUploadCleanup(): void {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+    cleanupInterval = null;
+  }
+}
+
+/**
+ * Usernames reported by the client, cleaned up, with the uploader first
+ */
+function parseParticipants(participants: unknown, uploader: string): string[] {
+  const names = Array.isArray(participants)
+    ? participants.filter((name): name is string => typeof name === 'string').map(name => name.trim().slice(0, 100))
+    : [];
+  return [...new Set([uploader, ...names.filter(Boolean)])].slice(0, MAX_PARTICIPANTS);
+}
+
+/**
+ * @swagger
+ * /api/recordings/uploads:
+ *   post:
+ *     summary: Start a chunked recording upload
+ *     description: Open a resumable upload for a recording. Chunks are then sent with `PUT /api/recordings/uploads/{uploadId}` and the upload is turned into a recording with `POST /api/recordings/uploads/{uploadId}/complete`.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - meetingId
+ *             properties:
+ *               meetingId:
+ *                 type: string
+ *                 description: Associated meeting ID
+ *               title:
+ *                 type: string
+ *                 description: Recording title (optional)
+ *               recordingType:
+ *                 type: string
+ *                 enum: [audio, video, both]
+ *                 description: Type of recording
+ *               layout:
+ *                 type: string
+ *                 enum: [grid, speaker, filmstrip, presenter]
+ *                 description: Layout the recording is composed with (ignored for audio-only recordings)
+ *     responses:
+ *       201:
+ *         description: Upload started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 uploadId:
+ *                   type: string
+ *                 offset:
+ *                   type: number
+ *                   example: 0
+ *       400:
+ *         description: Missing required fields
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/', requireAuth, (req, res) => {
+  try {
+    const { meetingId, title, recordingType, layout } = req.body;
+    const { userId, username } = req.auth!;
+
+    if (!meetingId) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const validRecordingTypes: RecordingType[] = ['audio', 'video', 'both'];
+    const type: RecordingType = validRecordingTypes.includes(recordingType) ? recordingType : 'both';
+
+    // Audio-only recordings have no layout
+    const validLayouts: RecordingLayout[] = ['grid', 'speaker', 'filmstrip', 'presenter'];
+    const recordingLayout: RecordingLayout | undefined =
+      type !== 'audio' ? (validLayouts.includes(layout) ? layout : 'grid') : undefined;
+
+    const now = Date.now();
+    const upload: RecordingUpload = {
+      uploadId: randomUUID(),
+      userId,
+      username,
+      meetingId,
+      title: title || undefined,
+      recordingType: type,
+      layout: recordingLayout,
+      receivedBytes: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    fs.writeFileSync(getUploadFilePath(upload.uploadId), '');
+    addUpload(upload);
+    console.log(`[Uploads] Started upload ${upload.uploadId} for meeting ${meetingId}`);
+
+    return res.status(201).json({ uploadId: upload.uploadId, offset: 0 });
+  } catch (error) {
+    console.error('[Uploads] Error starting upload:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/uploads/{uploadId}:
+ *   get:
+ *     summary: Get the state of a chunked upload
+ *     description: Returns how many bytes the server has stored, which is the offset the next chunk must start at. Used to resume after a reload or a failed request.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Upload state
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 uploadId:
+ *                   type: string
+ *                 meetingId:
+ *                   type: string
+ *                 offset:
+ *                   type: number
+ *                 updatedAt:
+ *                   type: number
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Upload not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:uploadId', requireAuth, (req, res) => {
+  try {
+    const upload = findOwnUpload(req.params.uploadId, req.auth!.userId);
+
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    return res.json({
+      uploadId: upload.uploadId,
+      meetingId: upload.meetingId,
+      offset: upload.receivedBytes,
+      updatedAt: upload.updatedAt,
+    });
+  } catch (error) {
+    console.error('[Uploads] Error getting upload:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/uploads/{uploadId}:
+ *   put:
+ *     summary: Append a chunk to an upload
+ *     description: Write the request body at `offset`, which must equal the number of bytes already stored. On a mismatch nothing is written and the response carries the server's offset, so the client can skip or resend chunks.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: offset
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Byte offset of this chunk in the recording
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *             description: Chunk bytes (max 16MB)
+ *     responses:
+ *       200:
+ *         description: Chunk stored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 offset:
+ *                   type: number
+ *                   description: Bytes stored so far
+ *       400:
+ *         description: Missing offset or empty chunk
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Upload not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Offset does not match the stored bytes, or another chunk is being written or the upload is being completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 offset:
+ *                   type: number
+ *       413:
+ *         description: Recording would exceed 500MB
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.put(
+  '/:uploadId',
+  requireAuth,
+  express.raw({ type: 'application/octet-stream', limit: MAX_CHUNK_SIZE }),
+  async (req, res) => {
+    const { uploadId } = req.params;
+
+    try {
+      const upload = findOwnUpload(uploadId, req.auth!.userId);
+
+      if (!upload) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+
+      const offset = parseInt(req.query.offset as string);
+      const chunk: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+      if (isNaN(offset) || chunk.length === 0) {
+        return res.status(400).json({ error: 'Missing offset or chunk' });
+      }
+
+      if (writing.has(uploadId) || offset !== upload.receivedBytes) {
+        return res.status(409).json({ error: 'Offset mismatch', offset: upload.receivedBytes });
+      }
+
+      if (offset + chunk.length > MAX_RECORDING_SIZE) {
+        return res.status(413).json({ error: 'Recording too large' });
+      }
+
+      writing.add(uploadId);
+      try {
+        // Write at the offset rather than appending, so bytes left over from an interrupted write are overwritten
+        const file = await fs.promises.open(getUploadFilePath(uploadId), 'r+');
+        try {
+          await file.write(chunk, 0, chunk.length, offset);
+        } finally {
+          await file.close();
+        }
+
+        const receivedBytes = offset + chunk.length;
+        updateUpload(uploadId, { receivedBytes, updatedAt: Date.now() });
+
+        return res.json({ offset: receivedBytes });
+      } finally {
+        writing.delete(uploadId);
+      }
+    } catch (error) {
+      console.error(`[Uploads] Error storing chunk for ${uploadId}:`, error);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/recordings/uploads/{uploadId}/complete:
+ *   post:
+ *     summary: Finish a chunked upload
+ *     description: Turn the stored bytes into a recording. The WebM is remuxed with a duration and a cue index so it can be seeked, and the upload is removed afterwards.
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               duration:
+ *                 type: number
+ *                 description: Duration in seconds (read from the file when omitted)
+ *               title:
+ *                 type: string
+ *                 description: Overrides the title given when the upload was started
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Usernames of everyone who was in the recording (the uploader is always included)
+ *     responses:
+ *       200:
+ *         description: Recording created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 recordingId:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *                   example: Recording uploaded successfully
+ *       400:
+ *         description: No data was uploaded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Upload not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A chunk is still being written or the upload is already being completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:uploadId/complete', requireAuth, async (req, res) => {
+  const { uploadId } = req.params;
+
+  try {
+    const upload = findOwnUpload(uploadId, req.auth!.userId);
+
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    if (writing.has(uploadId)) {
+      return res.status(409).json({ error: 'Upload is still receiving data or being completed' });
+    }
+
+    if (upload.receivedBytes === 0) {
+      return res.status(400).json({ error: 'No data uploaded' });
+    }
+
+    // Further chunks, a second complete and an abort get a 409 until this one is done
+    writing.add(uploadId);
+    try {
+      const { duration, title, participants } = req.body || {};
+      const filename = `${upload.userId}-rec-${upload.uploadId}-${Date.now()}.webm`;
+      const partPath = getUploadFilePath(uploadId);
+
+      // Drop anything past the acknowledged bytes before the part file becomes the recording
+      await fs.promises.truncate(partPath, upload.receivedBytes);
+      await fs.promises.rename(partPath, getRecordingFilePath(filename));
+
+      // MediaRecorder output has no duration or cues, so players can't seek in it until it is remuxed
+      let durationMs = 0;
+      try {
+        ({ durationMs } = await makeWebmSeekable(getRecordingFilePath(filename)));
+      } catch (error) {
+        console.warn(`[Uploads] Could not index ${filename}, keeping it as uploaded:`, error);
+      }
+
+      const recording: Recording = {
+        recordingId: path.parse(filename).name,
+        userId: upload.userId,
+        meetingId: upload.meetingId,
+        username: upload.username,
+        title: title || upload.title || `Recording - ${new Date().toLocaleString()}`,
+        filename,
+        duration: parseInt(duration) || Math.round(durationMs / 1000),
+        createdAt: Date.now(),
+        recordingType: upload.recordingType,
+        layout: upload.layout,
+        participants: parseParticipants(participants, upload.username),
+      };
+
+      addRecording(recording);
+      searchIndex.indexRecording(recording);
+      deleteUpload(uploadId);
+      thumbnailQueue.enqueue(recording.recordingId);
+      transcriptionQueue.enqueue(recording.recordingId);
+      console.log(`[Uploads] Completed upload ${uploadId} as recording ${recording.recordingId} (${upload.receivedBytes} bytes)`);
+
+      return res.json({
+        recordingId: recording.recordingId,
+        message: 'Recording uploaded successfully',
+      });
+    } finally {
+      writing.delete(uploadId);
+    }
+  } catch (error) {
+    console.error(`[Uploads] Error completing upload ${uploadId}:`, error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/recordings/uploads/{uploadId}:
+ *   delete:
+ *     summary: Abort a chunked upload
+ *     description: Discard an upload and the bytes stored for it
+ *     tags: [Recordings]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uploadId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Upload discarded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Upload discarded
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Upload not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: A chunk is still being written or the upload is being completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/:uploadId', requireAuth, async (req, res) => {
+  const { uploadId } = req.params;
+
+  try {
+    const upload = findOwnUpload(uploadId, req.auth!.userId);
+
+    if (!upload) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+
+    if (writing.has(uploadId)) {
+      return res.status(409).json({ error: 'Upload is still receiving data or being completed' });
+    }
+
+    deleteUpload(uploadId);
+    await fs.promises.rm(getUploadFilePath(uploadId), { force: true });
+    console.log(`[Uploads] Discarded upload ${uploadId}`);
+
+    return res.json({ message: 'Upload discarded' });
+  } catch (error) {
+    console.error(`[Uploads] Error discarding upload ${uploadId}:`, error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
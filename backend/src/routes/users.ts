@@ -1,15 +1,75 @@
-import { Router } from 'express';
-import { randomUUID } from 'crypto';
-import { readUsers, writeUsers, findUserByUsername, addUser, User } from '../storage/fileStorage';
+import { Router, Request, Response } from 'express';
+import { randomUUID, createHash, timingSafeEqual } from 'crypto';
+import {
+  readUsers,
+  findUserByUsername,
+  addUser,
+  updateUser,
+  toPublicUser,
+  User,
+} from '../storage/fileStorage';
+import {
+  hashPassword,
+  verifyPassword,
+  createClaimToken,
+  verifyClaimToken,
+  CLAIM_TOKEN_TTL_MS,
+  issueToken,
+  revokeSession,
+  MIN_PASSWORD_LENGTH,
+  SESSION_TTL_MS,
+} from '../utils/auth';
+import { requireAuth, AUTH_COOKIE } from '../middleware/auth';
 
 const router = Router();
 
+// Shared secret for admin-only endpoints; they are disabled while it is unset
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+/**
+ * Check the X-Admin-Token header against ADMIN_TOKEN
+ */
+function isAdminRequest(req: Request): boolean {
+  const provided = req.get('X-Admin-Token');
+  if (!ADMIN_TOKEN || !provided) {
+    return false;
+  }
+
+  // Compare digests so the lengths always match
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(ADMIN_TOKEN));
+}
+
+/**
+ * Issue a token for the user, set it as a cookie and send the login response
+ */
+function sendSession(req: Request, res: Response, user: User) {
+  const { token, session } = issueToken(user.userId);
+
+  res.cookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    path: '/',
+    maxAge: SESSION_TTL_MS,
+  });
+
+  return res.json({
+    userId: user.userId,
+    username: user.username,
+    token,
+    expiresAt: session.expiresAt,
+  });
+}
+
 /**
  * @swagger
  * /api/users/register:
  *   post:
- *     summary: Register or get existing user
- *     description: Register a new user by username, or return existing user if username already exists
+ *     summary: Register a new user
+ *     description: Create an account with a username and password (or passphrase) and start a session.
+ *       Existing usernames are refused, including accounts created before passwords were introduced;
+ *       those are taken over with a claim token (`POST /api/users/claim`).
  *     tags: [Users]
  *     requestBody:
  *       required: true
@@ -19,28 +79,32 @@ const router = Router();
  *             type: object
  *             required:
  *               - username
+ *               - password
  *             properties:
  *               username:
  *                 type: string
  *                 description: Desired username
  *                 example: john_doe
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *                 description: Password or passphrase
  *     responses:
  *       200:
- *         description: User registered or retrieved successfully
+ *         description: User registered and logged in
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 userId:
- *                   type: string
- *                   format: uuid
- *                   example: 550e8400-e29b-41d4-a716-446655440000
- *                 username:
- *                   type: string
- *                   example: john_doe
+ *               $ref: '#/components/schemas/Session'
  *       400:
- *         description: Username is required
+ *         description: Username or password missing or too short
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Username already taken
  *         content:
  *           application/json:
  *             schema:
@@ -54,21 +118,21 @@ const router = Router();
  */
 router.post('/register', (req, res) => {
   try {
-    const { username } = req.body;
+    const { username, password } = req.body;
 
     if (!username || typeof username !== 'string') {
       return res.status(400).json({ error: 'Username is required' });
     }
 
+    if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
     // Check if user already exists
     const existingUser = findUserByUsername(username);
-    
+
     if (existingUser) {
-      console.log(`[Users] Returning existing user: ${username}`);
-      return res.json({
-        userId: existingUser.userId,
-        username: existingUser.username,
-      });
+      return res.status(409).json({ error: 'Username already taken' });
     }
 
     // Create new user
@@ -76,21 +140,351 @@ router.post('/register', (req, res) => {
       userId: randomUUID(),
       username,
       createdAt: Date.now(),
+      ...hashPassword(password),
     };
 
     addUser(newUser);
     console.log(`[Users] Created new user: ${username} with ID: ${newUser.userId}`);
 
-    return res.json({
-      userId: newUser.userId,
-      username: newUser.username,
-    });
+    return sendSession(req, res, newUser);
   } catch (error) {
     console.error('[Users] Error in register:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+/**
+ * @swagger
+ * /api/users/claim-tokens:
+ *   post:
+ *     summary: Issue an account claim token (admin)
+ *     description: |
+ *       Issue a one-time token that lets the owner of an account created before passwords were introduced set a
+ *       password with `POST /api/users/claim`. Hand it to the owner out of band. A new token replaces the previous one.
+ *       Requires the `X-Admin-Token` header to match `ADMIN_TOKEN`; the endpoint is disabled while it is unset.
+ *     tags: [Users]
+ *     parameters:
+ *       - in: header
+ *         name: X-Admin-Token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - username
+ *             properties:
+ *               username:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Claim token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 username:
+ *                   type: string
+ *                 claimToken:
+ *                   type: string
+ *                 expiresAt:
+ *                   type: number
+ *       403:
+ *         description: Missing or wrong admin token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: User not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The account already has a password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/claim-tokens', (req, res) => {
+  try {
+    if (!isAdminRequest(req)) {
+      return res.status(403).json({ error: 'Admin token required' });
+    }
+
+    const { username } = req.body;
+    const user = typeof username === 'string' ? findUserByUsername(username) : undefined;
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (user.passwordHash) {
+      return res.status(409).json({ error: 'Account already has a password' });
+    }
+
+    const { token, tokenHash } = createClaimToken();
+    const expiresAt = Date.now() + CLAIM_TOKEN_TTL_MS;
+    updateUser(user.userId, { claimTokenHash: tokenHash, claimTokenExpiresAt: expiresAt });
+    console.log(`[Users] Issued claim token for user: ${user.username}`);
+
+    return res.status(201).json({ username: user.username, claimToken: token, expiresAt });
+  } catch (error) {
+    console.error('[Users] Error issuing claim token:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/claim:
+ *   post:
+ *     summary: Claim an account that has no password
+ *     description: Set the password of an account created before passwords were introduced, proving ownership with
+ *       the claim token an admin issued for it, and start a session. The token can be used once.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - username
+ *               - claimToken
+ *               - password
+ *             properties:
+ *               username:
+ *                 type: string
+ *               claimToken:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 8
+ *     responses:
+ *       200:
+ *         description: Account claimed and logged in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Session'
+ *       400:
+ *         description: Fields missing or password too short
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid or expired claim token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/claim', (req, res) => {
+  try {
+    const { username, claimToken, password } = req.body;
+
+    if (!username || typeof username !== 'string' || !claimToken || typeof claimToken !== 'string') {
+      return res.status(400).json({ error: 'Username and claim token are required' });
+    }
+
+    if (!password || typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = findUserByUsername(username);
+
+    if (!user || user.passwordHash || !verifyClaimToken(claimToken, user)) {
+      return res.status(401).json({ error: 'Invalid or expired claim token' });
+    }
+
+    const credentials = hashPassword(password);
+    updateUser(user.userId, { ...credentials, claimTokenHash: undefined, claimTokenExpiresAt: undefined });
+    console.log(`[Users] Account claimed: ${username}`);
+
+    return sendSession(req, res, { ...user, ...credentials });
+  } catch (error) {
+    console.error('[Users] Error claiming account:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/login:
+ *   post:
+ *     summary: Log in
+ *     description: Verify username and password and start a session. The token is returned and also set as an HTTP-only cookie.
+ *     tags: [Users]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - username
+ *               - password
+ *             properties:
+ *               username:
+ *                 type: string
+ *                 example: john_doe
+ *               password:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Session'
+ *       400:
+ *         description: Username and password are required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid username or password
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/login', (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+
+    const user = findUserByUsername(username);
+
+    if (!user || !verifyPassword(password, user)) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    console.log(`[Users] User logged in: ${username}`);
+    return sendSession(req, res, user);
+  } catch (error) {
+    console.error('[Users] Error in login:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/logout:
+ *   post:
+ *     summary: Log out
+ *     description: Revoke the current session token
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Internal server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout', requireAuth, (req, res) => {
+  try {
+    revokeSession(req.auth!.sessionId);
+    res.clearCookie(AUTH_COOKIE, { path: '/' });
+
+    console.log(`[Users] User logged out: ${req.auth!.username}`);
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('[Users] Error in logout:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/users/me:
+ *   get:
+ *     summary: Get current user
+ *     description: Resolve the caller from their session token
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Current user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 userId:
+ *                   type: string
+ *                   format: uuid
+ *                 username:
+ *                   type: string
+ *       401:
+ *         description: Authentication required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/me', requireAuth, (req, res) => {
+  return res.json({
+    userId: req.auth!.userId,
+    username: req.auth!.username,
+  });
+});
+
 /**
  * @swagger
  * /api/users:
@@ -119,7 +513,7 @@ router.post('/register', (req, res) => {
  */
 router.get('/', (req, res) => {
   try {
-    const users = readUsers();
+    const users = readUsers().map(toPublicUser);
     return res.json({ users });
   } catch (error) {
     console.error('[Users] Error getting users:', error);
@@ -3,11 +3,12 @@ import express from 'express';
 import { createServer } from 'http';
 import { createServer as createHttpsServer } from 'https';
 import { readFileSync, existsSync } from 'fs';
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import cors from 'cors';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './swagger';
-import { createWorker } from './mediasoup/worker';
+import { createWorkerPool, closeWorkerPool } from './mediasoup/worker';
+import { qualityEvents, startQualityMonitor, stopQualityMonitor, QualityState } from './mediasoup/quality';
 import {
   createRoom,
   getRoom,
@@ -17,14 +18,49 @@ import {
   createWebRtcTransport,
   connectTransport,
   produce,
+  closeProducer,
   consume,
   getOtherPeersProducers,
   getRoomPeers,
+  setConsumerPreferredSize,
+  addToLobby,
+  removeFromLobby,
+  admitFromLobby,
+  isAdmitted,
+  getLobby,
+  getPeer,
+  isModerator,
+  setPeerRole,
+  setProducersPaused,
+  banFromRoom,
+  isBannedFromRoom,
+  setRoomLocked,
+  canEnterLockedRoom,
+  countRoomPeers,
+  getActiveSpeaker,
+  getSpeakingTimes,
+  roomEvents,
 } from './mediasoup/room';
-import { generateMeetingId, isMeetingExpired } from './utils/expiry';
+import {
+  startServerRecording,
+  stopServerRecording,
+  addProducerToRecording,
+  isServerRecording,
+} from './mediasoup/recorder';
+import { getJoinWindow, getMeetingWindowState } from './utils/expiry';
+import { findMeetingById } from './storage/fileStorage';
 import { deletionQueue } from './storage/deletionQueue';
+import { compositionQueue } from './storage/compositionQueue';
+import { thumbnailQueue } from './storage/thumbnailQueue';
+import { transcriptionQueue } from './storage/transcriptionQueue';
+import { searchIndex } from './storage/searchIndex';
+import { exportQueue } from './storage/exportQueue';
+import { socketAuth } from './middleware/auth';
 import usersRouter from './routes/users';
 import recordingsRouter from './routes/recordings';
+import uploadsRouter, { startUploadCleanup, stopUploadCleanup } from './routes/uploads';
+import meetingsRouter from './routes/meetings';
+import calendarRouter from './routes/calendar';
 
 const PORT = parseInt(process.env.PORT || '3001');
 const TLS_CERT = process.env.TLS_CERT || '';
@@ -87,7 +123,10 @@ app.get('/api-docs.json', (req, res) => {
 
 // Routes
 app.use('/api/users', usersRouter);
+app.use('/api/recordings/uploads', uploadsRouter);
 app.use('/api/recordings', recordingsRouter);
+app.use('/api/meetings', meetingsRouter);
+app.use('/api/calendar', calendarRouter);
 
 /**
  * @swagger
@@ -131,40 +170,156 @@ const io = new SocketIOServer(httpServer, {
   },
 });
 
-// Socket.IO connection handling
-io.on('connection', (socket) => {
-  console.log(`[Socket] Client connected: ${socket.id}`);
+// Authenticate every connection before any event handler runs
+io.use(socketAuth);
 
-  /**
-   * Create a new room
-   */
-  socket.on('createRoom', async (callback) => {
-    try {
-      const roomId = generateMeetingId();
-      await createRoom(roomId);
-      
-      console.log(`[Socket] Room created: ${roomId}`);
-      callback({ roomId });
-    } catch (error) {
-      console.error('[Socket] Error creating room:', error);
-      callback({ error: 'Failed to create room' });
+/**
+ * Send the current lobby to the room's hosts and co-hosts
+ */
+function notifyHosts(roomId: string) {
+  const waiting = getLobby(roomId);
+  for (const peer of getRoomPeers(roomId)) {
+    if (peer.role === 'host' || peer.role === 'cohost') {
+      io.to(peer.peerId).emit('lobbyUpdated', { roomId, waiting });
     }
-  });
+  }
+}
+
+/**
+ * Lock state and capacity of a room, as shown to its participants
+ */
+function getRoomState(roomId: string) {
+  const meeting = findMeetingById(roomId);
+  return {
+    locked: !!getRoom(roomId)?.locked,
+    maxParticipants: meeting?.settings.maxParticipants,
+  };
+}
+
+/**
+ * Take a socket's peer out of its room: close its transports, tell the others,
+ * and finish the server recording once nobody is left
+ */
+function leaveCurrentRoom(socket: Socket) {
+  const roomId = socket.data.roomId;
+  if (!roomId) return;
+
+  removePeer(roomId, socket.id);
+  socket.to(roomId).emit('peerLeft', { peerId: socket.id });
+  socket.leave(roomId);
+  socket.data.roomId = undefined;
+
+  // Nobody left to record - finish the server recording
+  if (getRoomPeers(roomId).length === 0 && isServerRecording(roomId)) {
+    stopServerRecording(roomId).catch((error) => {
+      console.error('[Socket] Error stopping server recording:', error);
+    });
+  }
+}
+
+/**
+ * Resolve the moderator and target of a moderation request
+ * Co-hosts can't act on the host, and nobody moderates themselves
+ */
+function getModerationTarget(socket: Socket, roomId: string, peerId: string) {
+  const moderator = getPeer(roomId, socket.id);
+  if (!isModerator(moderator) || socket.data.roomId !== roomId) {
+    return { error: 'Only the host or a co-host can do that' };
+  }
+
+  const target = getPeer(roomId, peerId);
+  if (!target) {
+    return { error: 'Participant not found' };
+  }
+
+  if (target.id === socket.id || (target.role === 'host' && moderator!.role !== 'host')) {
+    return { error: 'Not allowed to moderate this participant' };
+  }
+
+  return { moderator: moderator!, target };
+}
+
+// A worker holding some of a room's routers died: the peers on those routers have to join again
+roomEvents.on('roomRestarted', ({ roomId, peerIds }: { roomId: string; peerIds: string[] }) => {
+  for (const peerId of peerIds) {
+    const socket = io.sockets.sockets.get(peerId);
+    if (!socket) continue;
+
+    socket.leave(roomId);
+    socket.data.roomId = undefined;
+    socket.emit('roomRestarted', { roomId });
+  }
+
+  // Peers on the surviving routers see the dropped ones leave (and come back as they rejoin)
+  for (const peerId of peerIds) {
+    io.to(roomId).emit('peerLeft', { peerId });
+  }
+
+  // The recording's transports went down with the old router - save what was captured
+  if (isServerRecording(roomId)) {
+    stopServerRecording(roomId)
+      // Everyone still in the room, and the dropped peers that haven't rejoined yet
+      .then(() => io.to(roomId).to(peerIds).emit('serverRecordingStateChanged', { recording: false }))
+      .catch((error) => {
+        console.error('[Socket] Error stopping server recording:', error);
+      });
+  }
+});
+
+// Speaker detection: who's dominant, and who's heard right now (for tile highlights)
+roomEvents.on('activeSpeaker', ({ roomId, peerId }: { roomId: string; peerId: string }) => {
+  io.to(roomId).emit('activeSpeaker', { peerId });
+});
+
+roomEvents.on('audioLevels', ({ roomId, levels }: { roomId: string; levels: { peerId: string; volume: number }[] }) => {
+  io.to(roomId).emit('audioLevels', { levels });
+});
+
+// A peer's incoming video was stepped down or back up to suit its downlink
+qualityEvents.on('qualityChanged', ({ peerId, level, state }: { peerId: string; level: number; state: QualityState }) => {
+  io.to(peerId).emit('qualityChanged', { level, state });
+});
+
+// Socket.IO connection handling
+io.on('connection', (socket) => {
+  console.log(`[Socket] Client connected: ${socket.id} (${socket.data.username})`);
 
   /**
    * Join a room
    */
   socket.on('joinRoom', async (data, callback) => {
     try {
-      const { roomId, userId, username } = data;
+      const { roomId } = data;
+      const { userId, username } = socket.data;
 
-      if (!roomId || !userId || !username) {
+      if (!roomId) {
         return callback({ error: 'Missing required fields' });
       }
 
-      // Check if meeting has expired
-      if (isMeetingExpired(roomId)) {
-        return callback({ error: 'Meeting link has expired (24h limit)' });
+      // Rooms can only be opened for meetings created through the API
+      const meeting = findMeetingById(roomId);
+      if (!meeting) {
+        return callback({ error: 'Meeting not found' });
+      }
+
+      // Enforce the meeting's join window; a meeting that runs over its slot
+      // stays joinable while anyone is still in the room
+      const windowState = getMeetingWindowState(meeting);
+      if (windowState === 'cancelled') {
+        return callback({ error: 'Meeting has been cancelled' });
+      }
+
+      if (windowState === 'early') {
+        const { opensAt } = getJoinWindow(meeting);
+        return callback({ error: 'Meeting has not started yet', opensAt });
+      }
+
+      if (windowState === 'expired' && !getRoom(roomId)?.peers.size) {
+        return callback({ error: 'Meeting link has expired' });
+      }
+
+      if (isBannedFromRoom(roomId, userId)) {
+        return callback({ error: 'You were removed from this meeting' });
       }
 
       // Get or create room
@@ -173,16 +328,36 @@ io.on('connection', (socket) => {
         room = await createRoom(roomId);
       }
 
+      // The owner can always get in; everyone else is subject to the lock and the cap
+      const isHost = userId === meeting.ownerId;
+
+      if (!isHost && room.locked && !canEnterLockedRoom(roomId, userId)) {
+        return callback({ error: 'This meeting is locked by the host' });
+      }
+
+      const { maxParticipants } = meeting.settings;
+      if (!isHost && maxParticipants && countRoomPeers(roomId, userId) >= maxParticipants) {
+        return callback({ error: `This meeting is full (${maxParticipants} participants max)` });
+      }
+
+      // With the waiting room on, everyone but the owner waits for the host to let them in (once per meeting)
+      if (meeting.settings.lobbyEnabled && !isHost && !isAdmitted(roomId, userId)) {
+        addToLobby(roomId, socket.id, { userId, username });
+        socket.data.lobbyRoomId = roomId;
+        notifyHosts(roomId);
+        return callback({ waiting: true, meeting });
+      }
+
+      socket.data.lobbyRoomId = undefined;
+
       // Add peer to room
-      const peer = addPeer(roomId, socket.id, userId, username);
+      const peer = await addPeer(roomId, socket.id, { userId, username }, isHost ? 'host' : 'participant');
       
       // Join socket room
       socket.join(roomId);
 
-      // Store room and user info in socket data
+      // Store room in socket data (user info was set by the handshake)
       socket.data.roomId = roomId;
-      socket.data.userId = userId;
-      socket.data.username = username;
 
       // Get other peers in the room
       const peers = getRoomPeers(roomId).filter(p => p.peerId !== socket.id);
@@ -192,10 +367,20 @@ io.on('connection', (socket) => {
         peerId: socket.id,
         userId,
         username,
+        role: peer.role,
       });
 
       console.log(`[Socket] Peer ${socket.id} joined room ${roomId}`);
-      callback({ success: true, peers });
+      callback({
+        success: true,
+        peers,
+        meeting,
+        serverRecording: isServerRecording(roomId),
+        roomState: getRoomState(roomId),
+        role: peer.role,
+        activeSpeaker: getActiveSpeaker(roomId),
+        lobby: isHost ? getLobby(roomId) : undefined,
+      });
     } catch (error) {
       console.error('[Socket] Error joining room:', error);
       callback({ error: 'Failed to join room' });
@@ -254,14 +439,21 @@ io.on('connection', (socket) => {
    */
   socket.on('produce', async (data, callback) => {
     try {
-      const { roomId, transportId, kind, rtpParameters } = data;
-      const producerId = await produce(roomId, socket.id, transportId, kind, rtpParameters);
+      const { roomId, transportId, kind, rtpParameters, appData } = data;
+      const source = appData?.source === 'screen' ? 'screen' : undefined;
+      const producerId = await produce(roomId, socket.id, transportId, kind, rtpParameters, source);
       
       // Notify other peers about new producer
       socket.to(roomId).emit('newProducer', {
         peerId: socket.id,
         producerId,
         kind,
+        source: getPeer(roomId, socket.id)?.producers.get(producerId)?.appData.source,
+      });
+
+      // Late joiners are picked up by a running server recording
+      addProducerToRecording(roomId, socket.id, producerId).catch((error) => {
+        console.error('[Socket] Error adding producer to server recording:', error);
       });
 
       callback({ producerId });
@@ -271,6 +463,27 @@ io.on('connection', (socket) => {
     }
   });
 
+  /**
+   * Stop sending one of our producers (e.g. end a screen share)
+   */
+  socket.on('closeProducer', (data, callback) => {
+    try {
+      const { roomId, producerId } = data;
+      const source = closeProducer(roomId, socket.id, producerId);
+
+      socket.to(roomId).emit('producerClosed', {
+        peerId: socket.id,
+        producerId,
+        source,
+      });
+
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error closing producer:', error);
+      callback({ error: 'Failed to close producer' });
+    }
+  });
+
   /**
    * Consume media from another peer
    */
@@ -299,6 +512,324 @@ io.on('connection', (socket) => {
     }
   });
 
+  /**
+   * Get how long each participant has spoken in the caller's room
+   */
+  socket.on('getSpeakingTimes', (data, callback) => {
+    try {
+      const roomId = socket.data.roomId;
+      if (!roomId) {
+        return callback({ error: 'Not in a room' });
+      }
+
+      callback({ speakingTimes: getSpeakingTimes(roomId) });
+    } catch (error) {
+      console.error('[Socket] Error getting speaking times:', error);
+      callback({ error: 'Failed to get speaking times' });
+    }
+  });
+
+  /**
+   * Report how large a consumer's video is rendered, so the server can pick its layer
+   */
+  socket.on('setConsumerPreferredSize', async (data, callback) => {
+    try {
+      const { roomId, consumerId, height } = data;
+
+      if (typeof height !== 'number' || !(height >= 0)) {
+        return callback({ error: 'Invalid size' });
+      }
+
+      const spatialLayer = await setConsumerPreferredSize(roomId, socket.id, consumerId, height);
+      callback({ success: true, spatialLayer });
+    } catch (error) {
+      console.error('[Socket] Error setting preferred size:', error);
+      callback({ error: 'Failed to set preferred size' });
+    }
+  });
+
+  /**
+   * Start recording the room on the server
+   */
+  socket.on('startServerRecording', async (data, callback) => {
+    try {
+      const { roomId } = data;
+
+      if (!isModerator(getPeer(roomId, socket.id)) || socket.data.roomId !== roomId) {
+        return callback({ error: 'Only the host or a co-host can record the meeting' });
+      }
+
+      const meeting = findMeetingById(roomId);
+      if (!meeting?.settings.recordingEnabled) {
+        return callback({ error: 'Recording is disabled for this meeting' });
+      }
+
+      if (isServerRecording(roomId)) {
+        return callback({ error: 'Room is already being recorded' });
+      }
+
+      const recordingId = await startServerRecording(roomId, socket.data.userId, socket.data.username);
+
+      io.to(roomId).emit('serverRecordingStateChanged', {
+        recording: true,
+        recordingId,
+        username: socket.data.username,
+      });
+
+      callback({ recordingId });
+    } catch (error) {
+      console.error('[Socket] Error starting server recording:', error);
+      callback({ error: 'Failed to start server recording' });
+    }
+  });
+
+  /**
+   * Stop the room's server recording
+   */
+  socket.on('stopServerRecording', async (data, callback) => {
+    try {
+      const { roomId } = data;
+
+      if (!isModerator(getPeer(roomId, socket.id)) || socket.data.roomId !== roomId) {
+        return callback({ error: 'Only the host or a co-host can stop the recording' });
+      }
+
+      if (!isServerRecording(roomId)) {
+        return callback({ error: 'Room is not being recorded' });
+      }
+
+      const recording = await stopServerRecording(roomId);
+
+      io.to(roomId).emit('serverRecordingStateChanged', { recording: false });
+
+      callback({ recordingId: recording?.recordingId });
+    } catch (error) {
+      console.error('[Socket] Error stopping server recording:', error);
+      callback({ error: 'Failed to stop server recording' });
+    }
+  });
+
+  /**
+   * Let someone in from the lobby (host only)
+   */
+  socket.on('admitPeer', (data, callback) => {
+    try {
+      const { roomId, peerId } = data;
+
+      if (!isModerator(getPeer(roomId, socket.id)) || socket.data.roomId !== roomId) {
+        return callback({ error: 'Only the host or a co-host can admit participants' });
+      }
+
+      const entry = admitFromLobby(roomId, peerId);
+      if (!entry) {
+        return callback({ error: 'Participant is no longer waiting' });
+      }
+
+      io.to(peerId).emit('lobbyAdmitted', { roomId });
+      notifyHosts(roomId);
+
+      console.log(`[Socket] ${socket.data.username} admitted ${entry.username} into room ${roomId}`);
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error admitting peer:', error);
+      callback({ error: 'Failed to admit participant' });
+    }
+  });
+
+  /**
+   * Turn someone away from the lobby (host only)
+   */
+  socket.on('denyPeer', (data, callback) => {
+    try {
+      const { roomId, peerId } = data;
+
+      if (!isModerator(getPeer(roomId, socket.id)) || socket.data.roomId !== roomId) {
+        return callback({ error: 'Only the host or a co-host can deny participants' });
+      }
+
+      const entry = removeFromLobby(roomId, peerId);
+      if (!entry) {
+        return callback({ error: 'Participant is no longer waiting' });
+      }
+
+      io.to(peerId).emit('lobbyDenied', { roomId });
+      notifyHosts(roomId);
+
+      console.log(`[Socket] ${socket.data.username} denied ${entry.username} entry to room ${roomId}`);
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error denying peer:', error);
+      callback({ error: 'Failed to deny participant' });
+    }
+  });
+
+  /**
+   * Mute a participant by pausing their audio on the server (host/co-host only)
+   */
+  socket.on('muteParticipant', async (data, callback) => {
+    try {
+      const { roomId, peerId } = data;
+
+      const result = getModerationTarget(socket, roomId, peerId);
+      if ('error' in result) {
+        return callback({ error: result.error });
+      }
+
+      await setProducersPaused(roomId, peerId, 'audio', true);
+      io.to(peerId).emit('moderated', {
+        action: 'muted',
+        by: result.moderator.username,
+        message: `${result.moderator.username} muted you`,
+      });
+
+      console.log(`[Socket] ${result.moderator.username} muted ${result.target.username} in room ${roomId}`);
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error muting participant:', error);
+      callback({ error: 'Failed to mute participant' });
+    }
+  });
+
+  /**
+   * Stop a participant's camera by pausing their video on the server (host/co-host only)
+   */
+  socket.on('stopParticipantVideo', async (data, callback) => {
+    try {
+      const { roomId, peerId } = data;
+
+      const result = getModerationTarget(socket, roomId, peerId);
+      if ('error' in result) {
+        return callback({ error: result.error });
+      }
+
+      await setProducersPaused(roomId, peerId, 'video', true);
+      io.to(peerId).emit('moderated', {
+        action: 'videoStopped',
+        by: result.moderator.username,
+        message: `${result.moderator.username} turned off your camera`,
+      });
+
+      console.log(`[Socket] ${result.moderator.username} stopped video of ${result.target.username} in room ${roomId}`);
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error stopping participant video:', error);
+      callback({ error: 'Failed to stop participant video' });
+    }
+  });
+
+  /**
+   * Remove a participant from the room (host/co-host only)
+   * They can't rejoin the room afterwards
+   */
+  socket.on('removeParticipant', (data, callback) => {
+    try {
+      const { roomId, peerId } = data;
+
+      const result = getModerationTarget(socket, roomId, peerId);
+      if ('error' in result) {
+        return callback({ error: result.error });
+      }
+
+      const targetSocket = io.sockets.sockets.get(peerId);
+
+      banFromRoom(roomId, result.target.userId);
+      io.to(peerId).emit('moderated', {
+        action: 'removed',
+        by: result.moderator.username,
+        message: `${result.moderator.username} removed you from the meeting`,
+      });
+
+      if (targetSocket) {
+        leaveCurrentRoom(targetSocket);
+      } else {
+        removePeer(roomId, peerId);
+        io.to(roomId).emit('peerLeft', { peerId });
+      }
+
+      console.log(`[Socket] ${result.moderator.username} removed ${result.target.username} from room ${roomId}`);
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error removing participant:', error);
+      callback({ error: 'Failed to remove participant' });
+    }
+  });
+
+  /**
+   * Make a participant a co-host or take it back (host only)
+   */
+  socket.on('setParticipantRole', (data, callback) => {
+    try {
+      const { roomId, peerId, role } = data;
+
+      if (role !== 'cohost' && role !== 'participant') {
+        return callback({ error: 'Invalid role' });
+      }
+
+      if (getPeer(roomId, socket.id)?.role !== 'host' || socket.data.roomId !== roomId) {
+        return callback({ error: 'Only the host can change roles' });
+      }
+
+      const target = getPeer(roomId, peerId);
+      if (!target || target.role === 'host') {
+        return callback({ error: 'Participant not found' });
+      }
+
+      setPeerRole(roomId, peerId, role);
+      io.to(roomId).emit('peerRoleChanged', { peerId, role });
+
+      // New co-hosts need the current lobby
+      if (role === 'cohost') {
+        io.to(peerId).emit('lobbyUpdated', { roomId, waiting: getLobby(roomId) });
+      }
+
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error changing participant role:', error);
+      callback({ error: 'Failed to change role' });
+    }
+  });
+
+  /**
+   * Lock or unlock the room for new joiners (host/co-host only)
+   * People who were already in the room can still reconnect while it's locked
+   */
+  socket.on('setRoomLocked', (data, callback) => {
+    try {
+      const { roomId, locked } = data;
+
+      if (!isModerator(getPeer(roomId, socket.id)) || socket.data.roomId !== roomId) {
+        return callback({ error: 'Only the host or a co-host can lock the room' });
+      }
+
+      setRoomLocked(roomId, !!locked);
+      io.to(roomId).emit('roomStateChanged', { ...getRoomState(roomId), by: socket.data.username });
+
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error locking room:', error);
+      callback({ error: 'Failed to lock room' });
+    }
+  });
+
+  /**
+   * Resume the caller's own producers after a moderator paused them
+   */
+  socket.on('resumeProducers', async (data, callback) => {
+    try {
+      const { roomId, kind } = data;
+
+      if (socket.data.roomId !== roomId || (kind !== 'audio' && kind !== 'video')) {
+        return callback({ error: 'Invalid request' });
+      }
+
+      await setProducersPaused(roomId, socket.id, kind, false);
+      callback({ success: true });
+    } catch (error) {
+      console.error('[Socket] Error resuming producers:', error);
+      callback({ error: 'Failed to resume' });
+    }
+  });
+
   /**
    * Leave room
    */
@@ -315,26 +846,54 @@ io.on('connection', (socket) => {
   });
 
   function handleDisconnect() {
-    const roomId = socket.data.roomId;
-    if (roomId) {
-      removePeer(roomId, socket.id);
-      socket.to(roomId).emit('peerLeft', { peerId: socket.id });
-      socket.leave(roomId);
+    // Stop waiting in the lobby
+    const lobbyRoomId = socket.data.lobbyRoomId;
+    if (lobbyRoomId) {
+      removeFromLobby(lobbyRoomId, socket.id);
+      socket.data.lobbyRoomId = undefined;
+      notifyHosts(lobbyRoomId);
     }
+
+    leaveCurrentRoom(socket);
   }
 });
 
 // Start server
 async function start() {
   try {
-    // Create mediasoup worker
-    await createWorker();
-    console.log('[Server] Mediasoup worker created');
+    // Create mediasoup worker pool
+    await createWorkerPool();
+    console.log('[Server] Mediasoup worker pool created');
+
+    // Start downlink quality monitor
+    startQualityMonitor();
+    console.log('[Server] Quality monitor started');
 
     // Start deletion queue processor
     deletionQueue.start();
     console.log('[Server] Deletion queue started');
 
+    // Index recordings for search
+    searchIndex.build();
+
+    // Start composition queue processor
+    compositionQueue.start();
+    console.log('[Server] Composition queue started');
+
+    // Start thumbnail queue processor
+    thumbnailQueue.start();
+    console.log('[Server] Thumbnail queue started');
+
+    // Start transcription queue processor
+    transcriptionQueue.start();
+
+    // Start export queue processor
+    exportQueue.start();
+    console.log('[Server] Export queue started');
+
+    // Remove abandoned chunked uploads
+    startUploadCleanup();
+
     // Start server
     const protocol = TLS_CERT && TLS_KEY ? 'https' : 'http';
     httpServer.listen(PORT, '127.0.0.1', () => {
@@ -352,6 +911,13 @@ async function start() {
 process.on('SIGINT', () => {
   console.log('[Server] Shutting down...');
   deletionQueue.stop();
+  compositionQueue.stop();
+  thumbnailQueue.stop();
+  transcriptionQueue.stop();
+  exportQueue.stop();
+  stopUploadCleanup();
+  stopQualityMonitor();
+  closeWorkerPool();
   httpServer.close(() => {
     console.log('[Server] Server closed');
     process.exit(0);
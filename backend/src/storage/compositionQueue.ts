@@ -0,0 +1,308 @@
+import fs from 'fs';
+import {
+  findRecordingById,
+  getRecordingFilePath,
+  readRecordings,
+  updateRecording,
+  JobStatus,
+  Recording,
+  RecordingTrack,
+} from './fileStorage';
+import { computeGridLayout, Tile } from '../utils/gridLayout';
+import { runFfmpeg } from '../utils/ffmpeg';
+import { thumbnailQueue } from './thumbnailQueue';
+import { transcriptionQueue } from './transcriptionQueue';
+
+const CANVAS_WIDTH = 1920;
+const CANVAS_HEIGHT = 1080;
+const FRAME_RATE = 30;
+
+interface CompositionTask {
+  recordingId: string;
+  scheduledAt: number;
+}
+
+// Where a video track is drawn between two moments (ms since the recording started)
+interface TilePlacement {
+  track: number; // index into the video tracks
+  start: number;
+  end: number;
+  tile: Tile;
+}
+
+class CompositionQueue {
+  private queue: CompositionTask[] = [];
+  private processing = false;
+  private interval: NodeJS.Timeout | null = null;
+
+  /**
+   * Add a server recording to the composition queue
+   */
+  enqueue(recordingId: string): void {
+    this.queue.push({
+      recordingId,
+      scheduledAt: Date.now(),
+    });
+    this.setStatus(recordingId, 'queued');
+    console.log(`[CompositionQueue] Enqueued recording: ${recordingId}`);
+  }
+
+  /**
+   * Start processing the queue every 10 seconds
+   */
+  start(): void {
+    if (this.interval) {
+      return; // Already started
+    }
+
+    console.log('[CompositionQueue] Starting composition queue processor...');
+
+    // Pick up jobs that were queued or interrupted before a restart
+    readRecordings()
+      .filter(r => r.composition?.status === 'queued' || r.composition?.status === 'running')
+      .forEach(r => this.enqueue(r.recordingId));
+
+    // Process immediately
+    this.processQueue();
+
+    // Then process every 10 seconds
+    this.interval = setInterval(() => {
+      this.processQueue();
+    }, 10000);
+  }
+
+  /**
+   * Stop the queue processor
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('[CompositionQueue] Stopped composition queue processor');
+    }
+  }
+
+  /**
+   * Process all items in the queue, one composition at a time
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing || this.queue.length === 0) {
+      return;
+    }
+
+    this.processing = true;
+    console.log(`[CompositionQueue] Processing ${this.queue.length} composition(s)...`);
+
+    const tasksToProcess = [...this.queue];
+    this.queue = [];
+
+    for (const task of tasksToProcess) {
+      await this.composeRecording(task.recordingId);
+    }
+
+    this.processing = false;
+  }
+
+  /**
+   * Compose the per-track files of a recording into a single grid WebM
+   */
+  private async composeRecording(recordingId: string): Promise<void> {
+    const recording = findRecordingById(recordingId);
+
+    if (!recording || !recording.tracks?.length) {
+      console.log(`[CompositionQueue] Recording ${recordingId} has no tracks to compose`);
+      return;
+    }
+
+    this.setStatus(recordingId, 'running');
+
+    const filename = `${recordingId}.webm`;
+    const outputPath = getRecordingFilePath(filename);
+
+    try {
+      await runFfmpeg(this.buildArgs(recording, outputPath));
+
+      updateRecording(recordingId, {
+        filename,
+        composition: { status: 'done', updatedAt: Date.now() },
+      });
+
+      console.log(`[CompositionQueue] Composed recording: ${recordingId}`);
+      thumbnailQueue.enqueue(recordingId);
+      transcriptionQueue.enqueue(recordingId);
+    } catch (error) {
+      console.error(`[CompositionQueue] Error composing recording ${recordingId}:`, error);
+
+      if (fs.existsSync(outputPath)) {
+        fs.unlinkSync(outputPath);
+      }
+
+      this.setStatus(recordingId, 'failed', (error as Error).message);
+    }
+  }
+
+  /**
+   * Build the ffmpeg arguments: tracks are padded to their start offset,
+   * video is overlaid on a black canvas in the grid of the moment and audio is mixed together
+   */
+  private buildArgs(recording: Recording, outputPath: string): string[] {
+    const tracks = recording.tracks!;
+    const durationSec = Math.max(recording.duration, 1);
+    const videoTracks = tracks.filter(t => t.kind === 'video');
+    const audioTracks = tracks.filter(t => t.kind === 'audio');
+
+    const inputs: string[] = [];
+    const filters: string[] = [];
+    const maps: string[] = [];
+
+    [...videoTracks, ...audioTracks].forEach(track => {
+      inputs.push('-i', getRecordingFilePath(track.filename));
+    });
+
+    if (videoTracks.length > 0) {
+      const placements = this.placeVideoTracks(videoTracks);
+
+      filters.push(`color=c=black:s=${CANVAS_WIDTH}x${CANVAS_HEIGHT}:r=${FRAME_RATE}:d=${durationSec}[base]`);
+
+      // One copy of each track for every stretch of time it keeps the same tile
+      videoTracks.forEach((track, index) => {
+        const copies = placements.filter(placement => placement.track === index).length;
+        if (copies === 0) return;
+
+        const startSec = (track.startOffset / 1000).toFixed(3);
+        const outputs = Array.from({ length: copies }, (_, copy) => `[v${index}_${copy}]`).join('');
+
+        filters.push(
+          `[${index}:v]setpts=PTS-STARTPTS,` +
+          `tpad=start_duration=${startSec}:color=black,fps=${FRAME_RATE},split=${copies}${outputs}`
+        );
+      });
+
+      let previous = 'base';
+      const copiesUsed = new Map<number, number>();
+      placements.forEach((placement, step) => {
+        const { tile } = placement;
+        const copy = copiesUsed.get(placement.track) ?? 0;
+        copiesUsed.set(placement.track, copy + 1);
+
+        const input = `v${placement.track}_${copy}`;
+        const between = `between(t,${(placement.start / 1000).toFixed(3)},${(placement.end / 1000).toFixed(3)})`;
+
+        filters.push(
+          `[${input}]scale=${tile.width}:${tile.height}:force_original_aspect_ratio=decrease,` +
+          `pad=${tile.width}:${tile.height}:(ow-iw)/2:(oh-ih)/2:color=black[t${step}]`
+        );
+        filters.push(`[${previous}][t${step}]overlay=x=${tile.x}:y=${tile.y}:eof_action=pass:enable='${between}'[o${step}]`);
+        previous = `o${step}`;
+      });
+
+      filters.push(`[${previous}]null[vout]`);
+
+      maps.push('-map', '[vout]', '-c:v', 'libvpx', '-b:v', '2M', '-deadline', 'realtime', '-cpu-used', '8');
+    }
+
+    if (audioTracks.length > 0) {
+      audioTracks.forEach((track, index) => {
+        const inputIndex = videoTracks.length + index;
+        filters.push(`[${inputIndex}:a]asetpts=PTS-STARTPTS,adelay=${track.startOffset}:all=1[a${index}]`);
+      });
+
+      const labels = audioTracks.map((_, index) => `[a${index}]`).join('');
+      filters.push(`${labels}amix=inputs=${audioTracks.length}:duration=longest:normalize=0[aout]`);
+
+      maps.push('-map', '[aout]', '-c:a', 'libopus', '-b:a', '128k');
+    }
+
+    return [
+      ...inputs,
+      '-filter_complex', filters.join(';'),
+      ...maps,
+      '-t', String(durationSec),
+      '-y',
+      outputPath,
+    ];
+  }
+
+  /**
+   * Lay the video tracks out over time the way the client-side mixer does: at every moment
+   * the grid holds the video sources present then, and reflows as people join and leave.
+   * A user's tracks share one slot, so a reconnect or a restarted camera takes over the tile of the
+   * track before it; tracks of the same user that overlap (camera and screen share) get a slot each
+   */
+  private placeVideoTracks(videoTracks: RecordingTrack[]): TilePlacement[] {
+    const byStart = videoTracks
+      .map((_, index) => index)
+      .sort((a, b) => videoTracks[a].startOffset - videoTracks[b].startOffset);
+
+    // Slots in the order they first show up, which is also their order in the grid
+    const slotOf: string[] = [];
+    const slotEnds = new Map<string, number>();
+    for (const index of byStart) {
+      const track = videoTracks[index];
+
+      let lane = 0;
+      while ((slotEnds.get(`${track.userId}:${lane}`) ?? -1) > track.startOffset) {
+        lane++;
+      }
+
+      const slot = `${track.userId}:${lane}`;
+      slotOf[index] = slot;
+      slotEnds.set(slot, Math.max(slotEnds.get(slot) ?? 0, track.endOffset));
+    }
+    const slots = [...new Set(byStart.map(index => slotOf[index]))];
+
+    // The layout only changes when a track starts or ends
+    const moments = [...new Set(videoTracks.flatMap(track => [track.startOffset, track.endOffset]))].sort((a, b) => a - b);
+
+    const placements: TilePlacement[] = [];
+    const current = new Map<number, TilePlacement>(); // by track, the placement still being extended
+
+    for (let i = 0; i < moments.length - 1; i++) {
+      const start = moments[i];
+      const end = moments[i + 1];
+
+      const showing = byStart.filter(index => videoTracks[index].startOffset <= start && videoTracks[index].endOffset >= end);
+      const present = slots.filter(slot => showing.some(index => slotOf[index] === slot));
+      const tiles = computeGridLayout(present.length, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      for (const index of showing) {
+        const tile = tiles[present.indexOf(slotOf[index])];
+        const previous = current.get(index);
+
+        if (
+          previous && previous.end === start &&
+          previous.tile.x === tile.x && previous.tile.y === tile.y &&
+          previous.tile.width === tile.width && previous.tile.height === tile.height
+        ) {
+          previous.end = end;
+          continue;
+        }
+
+        const placement: TilePlacement = { track: index, start, end, tile };
+        placements.push(placement);
+        current.set(index, placement);
+      }
+    }
+
+    return placements;
+  }
+
+  /**
+   * Persist the composition status on the recording metadata
+   */
+  private setStatus(recordingId: string, status: JobStatus, error?: string): void {
+    updateRecording(recordingId, {
+      composition: { status, error, updatedAt: Date.now() },
+    });
+  }
+
+  /**
+   * Get queue size
+   */
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+}
+
+// Export singleton instance
+export const compositionQueue = new CompositionQueue();
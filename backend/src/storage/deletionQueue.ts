@@ -86,14 +86,25 @@ class DeletionQueue {
         return;
       }
 
-      // Delete video file from filesystem
-      const filePath = getRecordingFilePath(recording.filename);
-      
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-        console.log(`[DeletionQueue] Deleted file: ${filePath}`);
-      } else {
-        console.log(`[DeletionQueue] File not found: ${filePath}`);
+      // Delete video file (and any server-side track files, preview images, exports and transcript) from filesystem
+      const filenames = new Set([recording.filename]);
+      recording.tracks?.forEach(track => filenames.add(track.filename));
+      [recording.preview?.poster, recording.preview?.sprite?.filename, recording.preview?.waveform]
+        .forEach(filename => filename && filenames.add(filename));
+      Object.values(recording.exports || {}).forEach(job => job.filename && filenames.add(job.filename));
+      if (recording.transcript?.filename) {
+        filenames.add(recording.transcript.filename);
+      }
+
+      for (const filename of filenames) {
+        const filePath = getRecordingFilePath(filename);
+
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath);
+          console.log(`[DeletionQueue] Deleted file: ${filePath}`);
+        } else {
+          console.log(`[DeletionQueue] File not found: ${filePath}`);
+        }
       }
 
       // Remove from metadata
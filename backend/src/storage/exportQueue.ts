@@ -0,0 +1,219 @@
+import fs from 'fs';
+import {
+  findRecordingById,
+  getRecordingFilePath,
+  readRecordings,
+  updateRecording,
+  ExportFormat,
+  RecordingExport,
+  RecordingType,
+} from './fileStorage';
+import { runFfmpeg } from '../utils/ffmpeg';
+
+// How often a running export writes its progress to the metadata file
+const PROGRESS_SAVE_INTERVAL_MS = 2000;
+
+interface ExportTask {
+  recordingId: string;
+  format: ExportFormat;
+  scheduledAt: number;
+}
+
+/**
+ * Formats a recording can be exported to: MP4 needs video, M4A needs audio
+ */
+export function getExportFormats(recordingType: RecordingType = 'both'): ExportFormat[] {
+  switch (recordingType) {
+    case 'audio':
+      return ['m4a'];
+    case 'video':
+      return ['mp4'];
+    case 'both':
+    default:
+      return ['mp4', 'm4a'];
+  }
+}
+
+class ExportQueue {
+  private queue: ExportTask[] = [];
+  private processing = false;
+  private interval: NodeJS.Timeout | null = null;
+
+  /**
+   * Add a recording export to the queue (once; repeated requests while it waits are ignored)
+   */
+  enqueue(recordingId: string, format: ExportFormat): void {
+    if (this.queue.some(task => task.recordingId === recordingId && task.format === format)) {
+      return;
+    }
+
+    this.queue.push({
+      recordingId,
+      format,
+      scheduledAt: Date.now(),
+    });
+    this.setExport(recordingId, format, { status: 'queued', progress: 0, updatedAt: Date.now() });
+    console.log(`[ExportQueue] Enqueued ${format} export of recording: ${recordingId}`);
+  }
+
+  /**
+   * Start processing the queue every 10 seconds
+   */
+  start(): void {
+    if (this.interval) {
+      return; // Already started
+    }
+
+    console.log('[ExportQueue] Starting export queue processor...');
+
+    // Pick up exports that were queued or interrupted before a restart
+    for (const recording of readRecordings()) {
+      for (const [format, job] of Object.entries(recording.exports || {})) {
+        if (job.status === 'queued' || job.status === 'running') {
+          this.enqueue(recording.recordingId, format as ExportFormat);
+        }
+      }
+    }
+
+    // Process immediately
+    this.processQueue();
+
+    // Then process every 10 seconds
+    this.interval = setInterval(() => {
+      this.processQueue();
+    }, 10000);
+  }
+
+  /**
+   * Stop the queue processor
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('[ExportQueue] Stopped export queue processor');
+    }
+  }
+
+  /**
+   * Process all items in the queue, one transcode at a time
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing || this.queue.length === 0) {
+      return;
+    }
+
+    this.processing = true;
+    console.log(`[ExportQueue] Processing ${this.queue.length} export(s)...`);
+
+    // Take tasks one by one so requests made meanwhile don't queue a duplicate
+    while (this.queue.length > 0) {
+      const task = this.queue[0];
+      await this.exportRecording(task.recordingId, task.format);
+      this.queue.shift();
+    }
+
+    this.processing = false;
+  }
+
+  /**
+   * Transcode a recording into the export format, reporting progress as it goes
+   */
+  private async exportRecording(recordingId: string, format: ExportFormat): Promise<void> {
+    const recording = findRecordingById(recordingId);
+
+    if (!recording) {
+      console.log(`[ExportQueue] Recording ${recordingId} not found in metadata`);
+      return;
+    }
+
+    const filename = `${recordingId}-export.${format}`;
+    const outputPath = getRecordingFilePath(filename);
+    const durationSec = Math.max(recording.duration, 1);
+    let lastSavedAt = 0;
+
+    this.setExport(recordingId, format, { status: 'running', progress: 0, updatedAt: Date.now() });
+
+    try {
+      await runFfmpeg(this.buildArgs(getRecordingFilePath(recording.filename), outputPath, format), (seconds) => {
+        const now = Date.now();
+        if (now - lastSavedAt < PROGRESS_SAVE_INTERVAL_MS) return;
+        lastSavedAt = now;
+
+        const progress = Math.min(seconds / durationSec, 0.99);
+        this.setExport(recordingId, format, { status: 'running', progress, updatedAt: now });
+      });
+
+      // Deleted while ffmpeg was running: the deletion queue never knew about this file
+      if (!findRecordingById(recordingId)) {
+        if (fs.existsSync(outputPath)) {
+          fs.unlinkSync(outputPath);
+        }
+        console.log(`[ExportQueue] Recording ${recordingId} was deleted, dropped its ${format} export`);
+        return;
+      }
+
+      this.setExport(recordingId, format, { status: 'done', filename, progress: 1, updatedAt: Date.now() });
+      console.log(`[ExportQueue] Exported recording ${recordingId} to ${format}`);
+    } catch (error) {
+      console.error(`[ExportQueue] Error exporting recording ${recordingId} to ${format}:`, error);
+
+      if (fs.existsSync(outputPath)) {
+        fs.unlinkSync(outputPath);
+      }
+
+      this.setExport(recordingId, format, {
+        status: 'failed',
+        error: (error as Error).message,
+        progress: 0,
+        updatedAt: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * H.264/AAC in MP4 for video, AAC in M4A for audio; the index goes up front so playback starts before the download ends
+   */
+  private buildArgs(inputPath: string, outputPath: string, format: ExportFormat): string[] {
+    const audio = ['-c:a', 'aac', '-b:a', '128k'];
+
+    const codecs = format === 'mp4'
+      ? [
+          '-map', '0:v:0', '-map', '0:a?',
+          '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2', // yuv420p needs even dimensions
+          '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p',
+          ...audio,
+        ]
+      : ['-map', '0:a:0', '-vn', ...audio];
+
+    return [
+      '-i', inputPath,
+      ...codecs,
+      '-movflags', '+faststart',
+      '-y',
+      outputPath,
+    ];
+  }
+
+  /**
+   * Persist one format's export state, keeping the others
+   */
+  private setExport(recordingId: string, format: ExportFormat, state: RecordingExport): void {
+    const recording = findRecordingById(recordingId);
+    if (!recording) return;
+
+    updateRecording(recordingId, {
+      exports: { ...recording.exports, [format]: state },
+    });
+  }
+
+  /**
+   * Get queue size
+   */
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+}
+
+// Export singleton instance
+export const exportQueue = new ExportQueue();
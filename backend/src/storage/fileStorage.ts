@@ -3,8 +3,12 @@ import path from 'path';
 
 const DATA_DIR = path.join(__dirname, '../../data');
 const USERS_FILE = path.join(DATA_DIR, 'users.json');
+const SESSIONS_FILE = path.join(DATA_DIR, 'sessions.json');
+const MEETINGS_FILE = path.join(DATA_DIR, 'meetings.json');
 const METADATA_FILE = path.join(DATA_DIR, 'metadata.json');
 const RECORDINGS_DIR = path.join(DATA_DIR, 'recordings');
+const UPLOADS_FILE = path.join(DATA_DIR, 'uploads.json');
+const UPLOADS_DIR = path.join(DATA_DIR, 'uploads');
 
 // Ensure data directory exists
 if (!fs.existsSync(DATA_DIR)) {
@@ -15,11 +19,31 @@ if (!fs.existsSync(RECORDINGS_DIR)) {
   fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
 }
 
+if (!fs.existsSync(UPLOADS_DIR)) {
+  fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+}
+
 // User storage
 export interface User {
   userId: string;
   username: string;
   createdAt: number;
+  passwordHash?: string; // scrypt hash, hex encoded
+  passwordSalt?: string; // hex encoded
+  calendarFeedToken?: string; // secret part of the user's ICS feed URL
+  claimTokenHash?: string; // one-time token an admin issued to claim an account that has no password
+  claimTokenExpiresAt?: number;
+}
+
+// Public view of a user (never expose credential fields)
+export type PublicUser = Pick<User, 'userId' | 'username' | 'createdAt'>;
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    userId: user.userId,
+    username: user.username,
+    createdAt: user.createdAt,
+  };
 }
 
 export function readUsers(): User[] {
@@ -48,14 +72,246 @@ export function findUserByUsername(username: string): User | undefined {
   return users.find(u => u.username === username);
 }
 
+export function findUserById(userId: string): User | undefined {
+  const users = readUsers();
+  return users.find(u => u.userId === userId);
+}
+
+export function findUserByCalendarFeedToken(token: string): User | undefined {
+  const users = readUsers();
+  return users.find(u => !!u.calendarFeedToken && u.calendarFeedToken === token);
+}
+
 export function addUser(user: User): void {
   const users = readUsers();
   users.push(user);
   writeUsers(users);
 }
 
+export function updateUser(userId: string, updates: Partial<User>): boolean {
+  const users = readUsers();
+  const index = users.findIndex(u => u.userId === userId);
+
+  if (index === -1) {
+    return false;
+  }
+
+  users[index] = { ...users[index], ...updates };
+  writeUsers(users);
+  return true;
+}
+
+// Session storage (signed tokens reference a session so they can be revoked)
+export interface Session {
+  sessionId: string;
+  userId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export function readSessions(): Session[] {
+  try {
+    if (!fs.existsSync(SESSIONS_FILE)) {
+      return [];
+    }
+    const data = fs.readFileSync(SESSIONS_FILE, 'utf-8');
+    return data.trim() ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading sessions:', error);
+    return [];
+  }
+}
+
+export function writeSessions(sessions: Session[]): void {
+  try {
+    fs.writeFileSync(SESSIONS_FILE, JSON.stringify(sessions, null, 2));
+  } catch (error) {
+    console.error('Error writing sessions:', error);
+  }
+}
+
+export function addSession(session: Session): void {
+  // Drop expired sessions while we're rewriting the file anyway
+  const now = Date.now();
+  const sessions = readSessions().filter(s => s.expiresAt > now);
+  sessions.push(session);
+  writeSessions(sessions);
+}
+
+export function findSessionById(sessionId: string): Session | undefined {
+  const sessions = readSessions();
+  return sessions.find(s => s.sessionId === sessionId);
+}
+
+export function deleteSession(sessionId: string): boolean {
+  const sessions = readSessions();
+  const filtered = sessions.filter(s => s.sessionId !== sessionId);
+
+  if (filtered.length === sessions.length) {
+    return false; // Session not found
+  }
+
+  writeSessions(filtered);
+  return true;
+}
+
+// Meeting storage
+export interface MeetingSettings {
+  recordingEnabled: boolean;
+  earlyJoinMinutes: number; // how long before a scheduled start participants may join
+  lobbyEnabled: boolean; // hold non-host joiners until the host admits them
+  maxParticipants?: number; // room capacity, including the host
+}
+
+export interface Meeting {
+  meetingId: string;
+  ownerId: string;
+  ownerUsername: string;
+  title: string;
+  createdAt: number;
+  expiresAt: number;
+  scheduledStart?: number; // unset for instant meetings
+  durationMinutes?: number;
+  timeZone?: string; // IANA zone the meeting was scheduled in
+  sequence?: number; // iCalendar SEQUENCE, bumped on every change to a scheduled meeting
+  updatedAt?: number;
+  cancelledAt?: number;
+  settings: MeetingSettings;
+}
+
+export function readMeetings(): Meeting[] {
+  try {
+    if (!fs.existsSync(MEETINGS_FILE)) {
+      return [];
+    }
+    const data = fs.readFileSync(MEETINGS_FILE, 'utf-8');
+    return data.trim() ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error reading meetings:', error);
+    return [];
+  }
+}
+
+export function writeMeetings(meetings: Meeting[]): void {
+  try {
+    fs.writeFileSync(MEETINGS_FILE, JSON.stringify(meetings, null, 2));
+  } catch (error) {
+    console.error('Error writing meetings:', error);
+  }
+}
+
+export function addMeeting(meeting: Meeting): void {
+  const meetings = readMeetings();
+  meetings.push(meeting);
+  writeMeetings(meetings);
+}
+
+export function findMeetingById(meetingId: string): Meeting | undefined {
+  const meetings = readMeetings();
+  return meetings.find(m => m.meetingId === meetingId);
+}
+
+export function updateMeeting(meetingId: string, updates: Partial<Meeting>): boolean {
+  const meetings = readMeetings();
+  const index = meetings.findIndex(m => m.meetingId === meetingId);
+
+  if (index === -1) {
+    return false;
+  }
+
+  meetings[index] = { ...meetings[index], ...updates };
+  writeMeetings(meetings);
+  return true;
+}
+
+export function getMeetingsByOwnerId(ownerId: string): Meeting[] {
+  const meetings = readMeetings();
+  return meetings.filter(m => m.ownerId === ownerId);
+}
+
 // Recording metadata storage
 export type RecordingType = 'audio' | 'video' | 'both';
+export type RecordingSource = 'client' | 'server';
+export type RecordingLayout = 'grid' | 'speaker' | 'filmstrip' | 'presenter';
+
+// Status of a background job run against a recording
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface JobState {
+  status: JobStatus;
+  error?: string;
+  updatedAt: number;
+}
+
+// A single participant track captured by the server-side recorder
+export interface RecordingTrack {
+  filename: string;
+  kind: 'audio' | 'video';
+  peerId: string;
+  userId: string;
+  username: string;
+  startOffset: number; // ms since the recording started
+  endOffset: number; // ms since the recording started
+}
+
+// Sprite sheet of evenly spaced frames, laid out left to right, top to bottom
+export interface RecordingSprite {
+  filename: string;
+  frames: number;
+  columns: number;
+  rows: number;
+  interval: number; // seconds between frames
+  tileWidth: number;
+  tileHeight: number;
+}
+
+// Preview images generated after a recording is stored
+export interface RecordingPreview extends JobState {
+  poster?: string; // video recordings
+  sprite?: RecordingSprite; // video recordings
+  waveform?: string; // audio-only recordings
+}
+
+// Formats a recording can be transcoded to for download
+export type ExportFormat = 'mp4' | 'm4a';
+
+// A cached transcode of a recording
+export interface RecordingExport extends JobState {
+  filename?: string; // set once the export is done
+  progress: number; // 0 to 1
+}
+
+// A timed piece of a transcript, in seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Transcript file kept next to the recording; the metadata only tracks the job
+export interface Transcript {
+  recordingId: string;
+  engine: string;
+  language?: string;
+  segments: TranscriptSegment[];
+  createdAt: number;
+}
+
+export interface RecordingTranscript extends JobState {
+  filename?: string; // set once the transcript is done
+  engine?: string;
+  language?: string;
+}
+
+// Explicit access grant on a recording: a specific user, or anyone holding the link token
+export interface RecordingGrant {
+  grantId: string;
+  type: 'user' | 'link';
+  userId?: string;
+  username?: string;
+  token?: string;
+  createdAt: number;
+}
 
 export interface Recording {
   recordingId: string;
@@ -67,6 +323,15 @@ export interface Recording {
   duration: number;
   createdAt: number;
   recordingType?: RecordingType;
+  layout?: RecordingLayout; // client recordings with video only
+  participants?: string[]; // usernames of everyone who was in the recording
+  source?: RecordingSource;
+  tracks?: RecordingTrack[];
+  composition?: JobState;
+  preview?: RecordingPreview;
+  exports?: Partial<Record<ExportFormat, RecordingExport>>;
+  transcript?: RecordingTranscript;
+  grants?: RecordingGrant[];
 }
 
 export function readRecordings(): Recording[] {
@@ -131,7 +396,114 @@ export function getRecordingsByUserId(userId: string): Recording[] {
   return recordings.filter(r => r.userId === userId);
 }
 
+export function getRecordingsSharedWithUser(userId: string): Recording[] {
+  const recordings = readRecordings();
+  return recordings.filter(r =>
+    r.userId !== userId && r.grants?.some(g => g.type === 'user' && g.userId === userId)
+  );
+}
+
 export function getRecordingFilePath(filename: string): string {
   return path.join(RECORDINGS_DIR, filename);
 }
 
+export function readTranscript(filename: string): Transcript | null {
+  try {
+    const filePath = getRecordingFilePath(filename);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const data = fs.readFileSync(filePath, 'utf-8');
+    return JSON.parse(data);
+  } catch (error) {
+    console.error('Error reading transcript:', error);
+    return null;
+  }
+}
+
+export function writeTranscript(filename: string, transcript: Transcript): void {
+  fs.writeFileSync(getRecordingFilePath(filename), JSON.stringify(transcript, null, 2));
+}
+
+
+// Chunked recording uploads in progress
+export interface RecordingUpload {
+  uploadId: string;
+  userId: string;
+  username: string;
+  meetingId: string;
+  title?: string;
+  recordingType: RecordingType;
+  layout?: RecordingLayout;
+  receivedBytes: number; // bytes appended to the part file so far
+  createdAt: number;
+  updatedAt: number;
+}
+
+export function readUploads(): RecordingUpload[] {
+  try {
+    if (!fs.existsSync(UPLOADS_FILE)) {
+      return [];
+    }
+    const data = fs.readFileSync(UPLOADS_FILE, 'utf-8');
+    return JSON.parse(data);
+  } catch (error) {
+    console.error('Error reading uploads:', error);
+    return [];
+  }
+}
+
+export function writeUploads(uploads: RecordingUpload[]): void {
+  try {
+    fs.writeFileSync(UPLOADS_FILE, JSON.stringify(uploads, null, 2));
+  } catch (error) {
+    console.error('Error writing uploads:', error);
+  }
+}
+
+export function addUpload(upload: RecordingUpload): void {
+  const uploads = readUploads();
+  uploads.push(upload);
+  writeUploads(uploads);
+}
+
+export function findUploadById(uploadId: string): RecordingUpload | undefined {
+  const uploads = readUploads();
+  return uploads.find(u => u.uploadId === uploadId);
+}
+
+export function updateUpload(uploadId: string, updates: Partial<RecordingUpload>): boolean {
+  const uploads = readUploads();
+  const index = uploads.findIndex(u => u.uploadId === uploadId);
+
+  if (index === -1) {
+    return false;
+  }
+
+  uploads[index] = { ...uploads[index], ...updates };
+  writeUploads(uploads);
+  return true;
+}
+
+export function deleteUpload(uploadId: string): boolean {
+  const uploads = readUploads();
+  const filtered = uploads.filter(u => u.uploadId !== uploadId);
+
+  if (filtered.length === uploads.length) {
+    return false;
+  }
+
+  writeUploads(filtered);
+  return true;
+}
+
+export function getUploadFilePath(uploadId: string): string {
+  return path.join(UPLOADS_DIR, `${uploadId}.part`);
+}
+
+// IDs of the part files on disk, including any left without metadata
+export function listUploadFileIds(): string[] {
+  return fs.readdirSync(UPLOADS_DIR)
+    .filter(name => name.endsWith('.part'))
+    .map(name => path.basename(name, '.part'));
+}
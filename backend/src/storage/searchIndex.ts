@@ -0,0 +1,267 @@
+import { readRecordings, readTranscript, Recording, TranscriptSegment } from './fileStorage';
+
+export type SearchField = 'title' | 'meetingId' | 'participant' | 'transcript';
+
+// A title match counts for more than a word somewhere in an hour of transcript
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  participant: 3,
+  meetingId: 3,
+  transcript: 1,
+};
+
+// The last query term also matches longer words, so results show up while typing
+const PREFIX_MATCH_WEIGHT = 0.5;
+const MAX_MOMENTS = 5;
+
+interface Posting {
+  field: SearchField;
+  segment?: number; // transcript postings: index of the segment the word is in
+}
+
+interface IndexedRecording {
+  createdAt: number;
+  terms: Set<string>;
+  segments: TranscriptSegment[];
+}
+
+// A transcript segment that matched, i.e. a point in the media to jump to
+export interface SearchMoment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SearchHit {
+  recordingId: string;
+  score: number;
+  fields: SearchField[];
+  moments: SearchMoment[];
+}
+
+/**
+ * Lowercase words with accents removed, split on anything that isn't a letter or a digit
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * In-memory inverted index over recording titles, meeting IDs, participant names and transcripts
+ * Built from the metadata at startup and kept current as recordings are added, renamed, transcribed and deleted
+ */
+class SearchIndex {
+  private postings = new Map<string, Map<string, Posting[]>>();
+  private documents = new Map<string, IndexedRecording>();
+  private built = false;
+
+  /**
+   * (Re)build the whole index from the stored recordings
+   */
+  build(): void {
+    this.postings.clear();
+    this.documents.clear();
+
+    const recordings = readRecordings();
+    recordings.forEach(recording => this.indexRecording(recording));
+    this.built = true;
+
+    console.log(`[SearchIndex] Indexed ${recordings.length} recording(s), ${this.postings.size} terms`);
+  }
+
+  /**
+   * Add a recording to the index, replacing what was indexed for it before
+   */
+  indexRecording(recording: Recording): void {
+    this.removeRecording(recording.recordingId);
+
+    const document: IndexedRecording = {
+      createdAt: recording.createdAt,
+      terms: new Set(),
+      segments: [],
+    };
+
+    const add = (term: string, posting: Posting) => {
+      let byRecording = this.postings.get(term);
+      if (!byRecording) {
+        byRecording = new Map();
+        this.postings.set(term, byRecording);
+      }
+
+      const list = byRecording.get(recording.recordingId) || [];
+      list.push(posting);
+      byRecording.set(recording.recordingId, list);
+      document.terms.add(term);
+    };
+
+    tokenize(recording.title).forEach(term => add(term, { field: 'title' }));
+
+    // The whole ID too, so a pasted meeting ID matches as one term
+    add(recording.meetingId.toLowerCase(), { field: 'meetingId' });
+    tokenize(recording.meetingId).forEach(term => add(term, { field: 'meetingId' }));
+
+    new Set([recording.username, ...(recording.participants || [])]).forEach(name => {
+      tokenize(name).forEach(term => add(term, { field: 'participant' }));
+    });
+
+    if (recording.transcript?.status === 'done' && recording.transcript.filename) {
+      document.segments = readTranscript(recording.transcript.filename)?.segments || [];
+      document.segments.forEach((segment, index) => {
+        tokenize(segment.text).forEach(term => add(term, { field: 'transcript', segment: index }));
+      });
+    }
+
+    this.documents.set(recording.recordingId, document);
+  }
+
+  /**
+   * Drop a recording from the index
+   */
+  removeRecording(recordingId: string): void {
+    const document = this.documents.get(recordingId);
+    if (!document) return;
+
+    for (const term of document.terms) {
+      const byRecording = this.postings.get(term);
+      byRecording?.delete(recordingId);
+      if (byRecording?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(recordingId);
+  }
+
+  /**
+   * Recordings matching every word of the query, best first
+   * Only recordings accepted by canView are considered
+   */
+  search(query: string, canView: (recordingId: string) => boolean, limit = 20): SearchHit[] {
+    if (!this.built) {
+      this.build();
+    }
+
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const hits = new Map<string, {
+      score: number;
+      matchedTerms: number;
+      fields: Set<SearchField>;
+      segmentTerms: Map<number, Set<string>>;
+    }>();
+
+    queryTerms.forEach((queryTerm, queryIndex) => {
+      const matches = this.findTerms(queryTerm, queryIndex === queryTerms.length - 1);
+
+      // Postings per recording for this query term, with how much each one counts
+      const byRecording = new Map<string, { posting: Posting; weight: number }[]>();
+      for (const { term, weight } of matches) {
+        for (const [recordingId, postings] of this.postings.get(term)!) {
+          if (!canView(recordingId)) continue;
+
+          const list = byRecording.get(recordingId) || [];
+          postings.forEach(posting => list.push({ posting, weight }));
+          byRecording.set(recordingId, list);
+        }
+      }
+
+      // Rare words say more about a recording than common ones
+      const idf = Math.log(1 + this.documents.size / Math.max(byRecording.size, 1));
+
+      for (const [recordingId, postings] of byRecording) {
+        // Only recordings that matched every earlier term can still match the whole query
+        if (queryIndex > 0 && hits.get(recordingId)?.matchedTerms !== queryIndex) continue;
+
+        const hit = hits.get(recordingId) || {
+          score: 0,
+          matchedTerms: 0,
+          fields: new Set<SearchField>(),
+          segmentTerms: new Map<number, Set<string>>(),
+        };
+
+        // Repeats add less and less: a word said 50 times isn't 50 times as relevant
+        const fieldWeights = new Map<SearchField, { count: number; weight: number }>();
+        for (const { posting, weight } of postings) {
+          const entry = fieldWeights.get(posting.field) || { count: 0, weight: 0 };
+          entry.count++;
+          entry.weight = Math.max(entry.weight, weight);
+          fieldWeights.set(posting.field, entry);
+
+          hit.fields.add(posting.field);
+          if (posting.segment !== undefined) {
+            const terms = hit.segmentTerms.get(posting.segment) || new Set<string>();
+            terms.add(queryTerm);
+            hit.segmentTerms.set(posting.segment, terms);
+          }
+        }
+
+        for (const [field, { count, weight }] of fieldWeights) {
+          hit.score += FIELD_WEIGHTS[field] * weight * idf * (1 + Math.log(count));
+        }
+
+        hit.matchedTerms++;
+        hits.set(recordingId, hit);
+      }
+    });
+
+    return [...hits.entries()]
+      .filter(([, hit]) => hit.matchedTerms === queryTerms.length)
+      .map(([recordingId, hit]) => ({
+        recordingId,
+        score: Math.round(hit.score * 1000) / 1000,
+        fields: [...hit.fields],
+        moments: this.pickMoments(recordingId, hit.segmentTerms),
+      }))
+      .sort((a, b) =>
+        b.score - a.score ||
+        this.documents.get(b.recordingId)!.createdAt - this.documents.get(a.recordingId)!.createdAt
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Indexed terms a query term matches: itself, and longer words it starts if prefix matching is on
+   */
+  private findTerms(queryTerm: string, prefix: boolean): { term: string; weight: number }[] {
+    const matches: { term: string; weight: number }[] = [];
+
+    if (this.postings.has(queryTerm)) {
+      matches.push({ term: queryTerm, weight: 1 });
+    }
+
+    if (prefix) {
+      for (const term of this.postings.keys()) {
+        if (term !== queryTerm && term.startsWith(queryTerm)) {
+          matches.push({ term, weight: PREFIX_MATCH_WEIGHT });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Transcript segments with the most query words, in the order they are spoken
+   */
+  private pickMoments(recordingId: string, segmentTerms: Map<number, Set<string>>): SearchMoment[] {
+    const segments = this.documents.get(recordingId)!.segments;
+
+    return [...segmentTerms.entries()]
+      .sort(([a, aTerms], [b, bTerms]) => bTerms.size - aTerms.size || a - b)
+      .slice(0, MAX_MOMENTS)
+      .map(([index]) => segments[index])
+      .sort((a, b) => a.start - b.start)
+      .map(({ start, end, text }) => ({ start, end, text }));
+  }
+}
+
+// Export singleton instance
+export const searchIndex = new SearchIndex();
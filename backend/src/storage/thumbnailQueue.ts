@@ -0,0 +1,256 @@
+import fs from 'fs';
+import {
+  findRecordingById,
+  getRecordingFilePath,
+  readRecordings,
+  updateRecording,
+  JobStatus,
+  Recording,
+  RecordingPreview,
+  RecordingSprite,
+} from './fileStorage';
+import { runFfmpeg } from '../utils/ffmpeg';
+
+const POSTER_WIDTH = 320;
+const POSTER_OFFSET_SEC = 1; // skip the first second, which is often black
+
+const SPRITE_TILE_WIDTH = 160;
+const SPRITE_TILE_HEIGHT = 90;
+const SPRITE_COLUMNS = 10;
+const SPRITE_MAX_FRAMES = 50;
+
+const WAVEFORM_SIZE = '640x120';
+const WAVEFORM_COLOR = '0x4CAF50';
+
+interface ThumbnailTask {
+  recordingId: string;
+  scheduledAt: number;
+}
+
+class ThumbnailQueue {
+  private queue: ThumbnailTask[] = [];
+  private processing = false;
+  private interval: NodeJS.Timeout | null = null;
+
+  /**
+   * Add a stored recording to the thumbnail queue
+   */
+  enqueue(recordingId: string): void {
+    this.queue.push({
+      recordingId,
+      scheduledAt: Date.now(),
+    });
+    this.setStatus(recordingId, 'queued');
+    console.log(`[ThumbnailQueue] Enqueued recording: ${recordingId}`);
+  }
+
+  /**
+   * Start processing the queue every 10 seconds
+   */
+  start(): void {
+    if (this.interval) {
+      return; // Already started
+    }
+
+    console.log('[ThumbnailQueue] Starting thumbnail queue processor...');
+
+    // Pick up jobs that were queued or interrupted before a restart, and recordings stored before previews existed
+    readRecordings()
+      .filter(r => r.preview
+        ? r.preview.status === 'queued' || r.preview.status === 'running'
+        : !r.composition || r.composition.status === 'done')
+      .forEach(r => this.enqueue(r.recordingId));
+
+    // Process immediately
+    this.processQueue();
+
+    // Then process every 10 seconds
+    this.interval = setInterval(() => {
+      this.processQueue();
+    }, 10000);
+  }
+
+  /**
+   * Stop the queue processor
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('[ThumbnailQueue] Stopped thumbnail queue processor');
+    }
+  }
+
+  /**
+   * Process all items in the queue, one recording at a time
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing || this.queue.length === 0) {
+      return;
+    }
+
+    this.processing = true;
+    console.log(`[ThumbnailQueue] Processing ${this.queue.length} recording(s)...`);
+
+    const tasksToProcess = [...this.queue];
+    this.queue = [];
+
+    for (const task of tasksToProcess) {
+      await this.generatePreview(task.recordingId);
+    }
+
+    this.processing = false;
+  }
+
+  /**
+   * Generate a poster and a sprite sheet for a video recording, or a waveform for an audio-only one
+   */
+  private async generatePreview(recordingId: string): Promise<void> {
+    const recording = findRecordingById(recordingId);
+
+    if (!recording) {
+      console.log(`[ThumbnailQueue] Recording ${recordingId} not found in metadata`);
+      return;
+    }
+
+    const inputPath = getRecordingFilePath(recording.filename);
+    if (!fs.existsSync(inputPath)) {
+      this.setStatus(recordingId, 'failed', 'Recording file not found');
+      return;
+    }
+
+    this.setStatus(recordingId, 'running');
+
+    const preview: RecordingPreview = { status: 'done', updatedAt: 0 };
+    const outputs: string[] = [];
+
+    try {
+      if (recording.recordingType === 'audio') {
+        preview.waveform = `${recordingId}-waveform.png`;
+        outputs.push(preview.waveform);
+        await runFfmpeg(this.buildWaveformArgs(inputPath, getRecordingFilePath(preview.waveform)));
+      } else {
+        preview.poster = `${recordingId}-poster.jpg`;
+        outputs.push(preview.poster);
+        await runFfmpeg(this.buildPosterArgs(recording, inputPath, getRecordingFilePath(preview.poster)));
+
+        preview.sprite = this.planSprite(recording);
+        outputs.push(preview.sprite.filename);
+        await runFfmpeg(this.buildSpriteArgs(preview.sprite, inputPath, getRecordingFilePath(preview.sprite.filename)));
+      }
+
+      // Deleted while ffmpeg was running: the deletion queue never knew about these files
+      if (!findRecordingById(recordingId)) {
+        this.removeOutputs(outputs);
+        console.log(`[ThumbnailQueue] Recording ${recordingId} was deleted, dropped its preview`);
+        return;
+      }
+
+      preview.updatedAt = Date.now();
+      updateRecording(recordingId, { preview });
+
+      console.log(`[ThumbnailQueue] Generated preview for recording: ${recordingId}`);
+    } catch (error) {
+      console.error(`[ThumbnailQueue] Error generating preview for ${recordingId}:`, error);
+      this.removeOutputs(outputs);
+      this.setStatus(recordingId, 'failed', (error as Error).message);
+    }
+  }
+
+  /**
+   * One frame from early in the recording, scaled to the poster width
+   */
+  private buildPosterArgs(recording: Recording, inputPath: string, outputPath: string): string[] {
+    const offsetSec = Math.min(POSTER_OFFSET_SEC, recording.duration / 2);
+
+    return [
+      '-ss', offsetSec.toFixed(3),
+      '-i', inputPath,
+      '-frames:v', '1',
+      '-vf', `scale=${POSTER_WIDTH}:-2`,
+      '-q:v', '4',
+      '-y',
+      outputPath,
+    ];
+  }
+
+  /**
+   * Spread up to SPRITE_MAX_FRAMES frames evenly over the recording, at most one per second
+   */
+  private planSprite(recording: Recording): RecordingSprite {
+    const durationSec = Math.max(recording.duration, 1);
+    const frames = Math.min(SPRITE_MAX_FRAMES, Math.floor(durationSec));
+    const columns = Math.min(SPRITE_COLUMNS, frames);
+
+    return {
+      filename: `${recording.recordingId}-sprite.jpg`,
+      frames,
+      columns,
+      rows: Math.ceil(frames / columns),
+      interval: durationSec / frames,
+      tileWidth: SPRITE_TILE_WIDTH,
+      tileHeight: SPRITE_TILE_HEIGHT,
+    };
+  }
+
+  /**
+   * Sample frames at the sprite interval, letterbox them into tiles and tile them into one image
+   */
+  private buildSpriteArgs(sprite: RecordingSprite, inputPath: string, outputPath: string): string[] {
+    const { tileWidth, tileHeight } = sprite;
+
+    return [
+      '-i', inputPath,
+      '-vf',
+      `fps=1/${sprite.interval.toFixed(3)},` +
+      `scale=${tileWidth}:${tileHeight}:force_original_aspect_ratio=decrease,` +
+      `pad=${tileWidth}:${tileHeight}:(ow-iw)/2:(oh-ih)/2:color=black,` +
+      `tile=${sprite.columns}x${sprite.rows}`,
+      '-frames:v', '1',
+      '-q:v', '5',
+      '-y',
+      outputPath,
+    ];
+  }
+
+  private buildWaveformArgs(inputPath: string, outputPath: string): string[] {
+    return [
+      '-i', inputPath,
+      '-filter_complex', `showwavespic=s=${WAVEFORM_SIZE}:colors=${WAVEFORM_COLOR}`,
+      '-frames:v', '1',
+      '-y',
+      outputPath,
+    ];
+  }
+
+  /**
+   * Delete the files a preview job wrote
+   */
+  private removeOutputs(filenames: string[]): void {
+    for (const filename of filenames) {
+      const filePath = getRecordingFilePath(filename);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    }
+  }
+
+  /**
+   * Persist the preview status on the recording metadata
+   */
+  private setStatus(recordingId: string, status: JobStatus, error?: string): void {
+    updateRecording(recordingId, {
+      preview: { status, error, updatedAt: Date.now() },
+    });
+  }
+
+  /**
+   * Get queue size
+   */
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+}
+
+// Export singleton instance
+export const thumbnailQueue = new ThumbnailQueue();
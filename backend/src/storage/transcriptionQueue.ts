@@ -0,0 +1,191 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  findRecordingById,
+  getRecordingFilePath,
+  readRecordings,
+  updateRecording,
+  writeTranscript,
+  JobStatus,
+} from './fileStorage';
+import { runFfmpeg } from '../utils/ffmpeg';
+import { getSpeechEngine } from '../utils/speech';
+import { searchIndex } from './searchIndex';
+
+interface TranscriptionTask {
+  recordingId: string;
+  scheduledAt: number;
+}
+
+class TranscriptionQueue {
+  private queue: TranscriptionTask[] = [];
+  private processing = false;
+  private interval: NodeJS.Timeout | null = null;
+
+  /**
+   * Add a stored recording to the transcription queue
+   * Recordings without audio, or any recording when no speech engine is configured, are skipped
+   */
+  enqueue(recordingId: string): void {
+    const recording = findRecordingById(recordingId);
+    if (!getSpeechEngine() || !recording || recording.recordingType === 'video') {
+      return;
+    }
+
+    this.queue.push({
+      recordingId,
+      scheduledAt: Date.now(),
+    });
+    this.setStatus(recordingId, 'queued');
+    console.log(`[TranscriptionQueue] Enqueued recording: ${recordingId}`);
+  }
+
+  /**
+   * Start processing the queue every 10 seconds
+   */
+  start(): void {
+    if (this.interval) {
+      return; // Already started
+    }
+
+    const engine = getSpeechEngine();
+    if (!engine) {
+      console.log('[TranscriptionQueue] No speech engine configured, transcription is disabled');
+      return;
+    }
+
+    console.log(`[TranscriptionQueue] Starting transcription queue processor (${engine.name})...`);
+
+    // Pick up jobs that were queued or interrupted before a restart
+    readRecordings()
+      .filter(r => r.transcript?.status === 'queued' || r.transcript?.status === 'running')
+      .forEach(r => this.enqueue(r.recordingId));
+
+    // Process immediately
+    this.processQueue();
+
+    // Then process every 10 seconds
+    this.interval = setInterval(() => {
+      this.processQueue();
+    }, 10000);
+  }
+
+  /**
+   * Stop the queue processor
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      console.log('[TranscriptionQueue] Stopped transcription queue processor');
+    }
+  }
+
+  /**
+   * Process all items in the queue, one recording at a time
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing || this.queue.length === 0) {
+      return;
+    }
+
+    this.processing = true;
+    console.log(`[TranscriptionQueue] Processing ${this.queue.length} recording(s)...`);
+
+    const tasksToProcess = [...this.queue];
+    this.queue = [];
+
+    for (const task of tasksToProcess) {
+      await this.transcribe(task.recordingId);
+    }
+
+    this.processing = false;
+  }
+
+  /**
+   * Extract the audio as 16 kHz mono WAV, run it through the speech engine and save the transcript
+   */
+  private async transcribe(recordingId: string): Promise<void> {
+    const recording = findRecordingById(recordingId);
+    const engine = getSpeechEngine();
+
+    if (!recording) {
+      console.log(`[TranscriptionQueue] Recording ${recordingId} not found in metadata`);
+      return;
+    }
+    if (!engine) {
+      return;
+    }
+
+    const inputPath = getRecordingFilePath(recording.filename);
+    if (!fs.existsSync(inputPath)) {
+      this.setStatus(recordingId, 'failed', 'Recording file not found');
+      return;
+    }
+
+    this.setStatus(recordingId, 'running');
+
+    const wavPath = path.join(os.tmpdir(), `${recordingId}-transcribe.wav`);
+    const filename = `${recordingId}-transcript.json`;
+
+    try {
+      await runFfmpeg(['-i', inputPath, '-vn', '-ac', '1', '-ar', '16000', '-c:a', 'pcm_s16le', '-y', wavPath]);
+
+      const result = await engine.transcribe(wavPath);
+
+      // Deleted while the engine was running: don't leave a transcript the deletion queue never knew about
+      if (!findRecordingById(recordingId)) {
+        console.log(`[TranscriptionQueue] Recording ${recordingId} was deleted, dropped its transcript`);
+        return;
+      }
+
+      writeTranscript(filename, {
+        recordingId,
+        engine: engine.name,
+        language: result.language,
+        segments: result.segments,
+        createdAt: Date.now(),
+      });
+
+      updateRecording(recordingId, {
+        transcript: {
+          status: 'done',
+          filename,
+          engine: engine.name,
+          language: result.language,
+          updatedAt: Date.now(),
+        },
+      });
+
+      searchIndex.indexRecording(findRecordingById(recordingId)!);
+      console.log(`[TranscriptionQueue] Transcribed recording ${recordingId} (${result.segments.length} segments)`);
+    } catch (error) {
+      console.error(`[TranscriptionQueue] Error transcribing ${recordingId}:`, error);
+      this.setStatus(recordingId, 'failed', (error as Error).message);
+    } finally {
+      if (fs.existsSync(wavPath)) {
+        fs.unlinkSync(wavPath);
+      }
+    }
+  }
+
+  /**
+   * Persist the transcript status on the recording metadata
+   */
+  private setStatus(recordingId: string, status: JobStatus, error?: string): void {
+    updateRecording(recordingId, {
+      transcript: { status, error, updatedAt: Date.now() },
+    });
+  }
+
+  /**
+   * Get queue size
+   */
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+}
+
+// Export singleton instance
+export const transcriptionQueue = new TranscriptionQueue();
@@ -13,7 +13,7 @@ Backend API for the Cindy WebRTC video conferencing application with mediasoup S
 
 ## Features
 
-- **User Management**: Simple username-based registration
+- **User Management**: Password-based accounts with signed, revocable session tokens
 - **Recording Management**: Upload, list, stream, update, and delete recordings
 - **Real-time Communication**: WebSocket-based signaling for WebRTC
 
@@ -21,17 +21,60 @@ Backend API for the Cindy WebRTC video conferencing application with mediasoup S
 
 ## WebSocket Events (Socket.IO)
 
-Connect to the server via Socket.IO at the same host/port.
+Connect to the server via Socket.IO at the same host/port. The handshake must carry a session token,
+either as \`auth: { token }\` or through the \`cindy_token\` cookie; connections without a valid token are refused
+with a \`connect_error\` (\`Authentication required\`). The peer's \`userId\` and \`username\` always come from the token.
 
 ### Room Management
 
 | Event | Direction | Description |
 |-------|-----------|-------------|
-| \`createRoom\` | Client → Server | Creates a new room. Returns \`{ roomId }\` |
-| \`joinRoom\` | Client → Server | Join a room. Payload: \`{ roomId, userId, username }\`. Returns \`{ success, peers }\` |
+| \`joinRoom\` | Client → Server | Join a meeting's room as the authenticated user. The meeting must exist (\`POST /api/meetings\`) and be inside its join window (a meeting that overruns stays joinable while the room is occupied). Non-owners are refused when the room is locked (unless they were already in it) or at \`settings.maxParticipants\`. Payload: \`{ roomId }\`. Returns \`{ success, peers, meeting, serverRecording, roomState, role, activeSpeaker?, lobby? }\` (\`lobby\` only for the host), \`{ waiting: true, meeting }\` when held in the waiting room, or \`{ error, opensAt }\` before a scheduled meeting opens |
 | \`leaveRoom\` | Client → Server | Leave the current room |
-| \`newPeer\` | Server → Client | Emitted when a new peer joins. Payload: \`{ peerId, userId, username }\` |
+| \`newPeer\` | Server → Client | Emitted when a new peer joins. Payload: \`{ peerId, userId, username, role }\` |
 | \`peerLeft\` | Server → Client | Emitted when a peer leaves. Payload: \`{ peerId }\` |
+| \`roomRestarted\` | Server → Client | The media worker holding the peer's router died. The peer was dropped and must \`joinRoom\` again (lobby, lock and bans are kept). Payload: \`{ roomId }\` |
+
+### Speaker Detection
+
+Every audio producer is observed on the room's main router (mediasoup \`ActiveSpeakerObserver\` and \`AudioLevelObserver\`).
+
+| Event | Direction | Description |
+|-------|-----------|-------------|
+| \`activeSpeaker\` | Server → Client | Emitted to the room when the dominant speaker changes. Payload: \`{ peerId }\` |
+| \`audioLevels\` | Server → Client | Emitted to the room every 800 ms while anyone is heard, and once with an empty list on silence. \`volume\` is in dBov (-127 to 0). Payload: \`{ levels: [{ peerId, volume }] }\` |
+| \`getSpeakingTimes\` | Client → Server | Get how long each participant has been heard in the caller's room, longest first (totals are per user and survive reconnects). Returns \`{ speakingTimes: [{ userId, username, speakingMs }] }\` |
+
+### Waiting Room
+
+When a meeting has \`settings.lobbyEnabled\`, everyone except the owner is held in the lobby by \`joinRoom\`
+until the host or a co-host admits them. An admitted client sends \`joinRoom\` again to enter the room; the admission
+is kept per user, so later rejoins (reconnects, \`roomRestarted\`) skip the lobby.
+
+| Event | Direction | Description |
+|-------|-----------|-------------|
+| \`admitPeer\` | Client → Server | Host/co-host only. Let a waiting peer in. Payload: \`{ roomId, peerId }\` |
+| \`denyPeer\` | Client → Server | Host/co-host only. Turn a waiting peer away. Payload: \`{ roomId, peerId }\` |
+| \`lobbyUpdated\` | Server → Client | Sent to hosts and co-hosts when the lobby changes. Payload: \`{ roomId, waiting: [{ peerId, userId, username, requestedAt }] }\` |
+| \`lobbyAdmitted\` | Server → Client | Sent to a waiting peer the host let in. Payload: \`{ roomId }\` |
+| \`lobbyDenied\` | Server → Client | Sent to a waiting peer the host turned away. Payload: \`{ roomId }\` |
+
+### Moderation
+
+The meeting owner joins as \`host\`, everyone else as \`participant\`. The host can make participants \`cohost\`.
+Hosts and co-hosts can moderate anyone except the host; removed users can't rejoin the room.
+
+| Event | Direction | Description |
+|-------|-----------|-------------|
+| \`muteParticipant\` | Client → Server | Pause a participant's audio producer on the server. Payload: \`{ roomId, peerId }\` |
+| \`stopParticipantVideo\` | Client → Server | Pause a participant's video producer on the server. Payload: \`{ roomId, peerId }\` |
+| \`removeParticipant\` | Client → Server | Remove a participant, closing their transports. Payload: \`{ roomId, peerId }\` |
+| \`setParticipantRole\` | Client → Server | Host only. Payload: \`{ roomId, peerId, role: 'cohost' \\| 'participant' }\` |
+| \`setRoomLocked\` | Client → Server | Refuse (or allow again) new joiners; people who were already in the room can still reconnect. Payload: \`{ roomId, locked }\` |
+| \`roomStateChanged\` | Server → Client | Emitted to the room when it is locked or unlocked. Payload: \`{ locked, maxParticipants, by }\` |
+| \`resumeProducers\` | Client → Server | Resume the caller's own producers after a moderator paused them. Payload: \`{ roomId, kind }\` |
+| \`moderated\` | Server → Client | Sent to the affected participant. Payload: \`{ action: 'muted' \\| 'videoStopped' \\| 'removed', by, message }\` |
+| \`peerRoleChanged\` | Server → Client | Emitted to the room when a role changes. Payload: \`{ peerId, role }\` |
 
 ### WebRTC Signaling
 
@@ -40,10 +83,22 @@ Connect to the server via Socket.IO at the same host/port.
 | \`getRouterRtpCapabilities\` | Client → Server | Get router RTP capabilities. Payload: \`{ roomId }\`. Returns \`{ rtpCapabilities }\` |
 | \`createWebRtcTransport\` | Client → Server | Create a WebRTC transport. Payload: \`{ roomId }\`. Returns transport params |
 | \`connectTransport\` | Client → Server | Connect transport. Payload: \`{ roomId, transportId, dtlsParameters }\` |
-| \`produce\` | Client → Server | Start producing media. Payload: \`{ roomId, transportId, kind, rtpParameters }\`. Returns \`{ producerId }\` |
+| \`produce\` | Client → Server | Start producing media. A video producer with \`appData.source = 'screen'\` is a screen share, sent alongside the camera; a peer has at most one producer per source. Payload: \`{ roomId, transportId, kind, rtpParameters, appData? }\`. Returns \`{ producerId }\` |
+| \`closeProducer\` | Client → Server | Stop one of the caller's producers (e.g. end a screen share). Payload: \`{ roomId, producerId }\`. Returns \`{ success }\` |
+| \`producerClosed\` | Server → Client | Emitted to the room when a peer closes a producer; its consumers are closed. Payload: \`{ peerId, producerId, source }\` |
 | \`consume\` | Client → Server | Consume media from another peer. Payload: \`{ roomId, transportId, producerId, rtpCapabilities }\` |
-| \`getProducers\` | Client → Server | Get existing producers. Payload: \`{ roomId }\`. Returns \`{ producers }\` |
-| \`newProducer\` | Server → Client | Emitted when a peer starts producing. Payload: \`{ peerId, producerId, kind }\` |
+| \`setConsumerPreferredSize\` | Client → Server | Report the rendered size (in device pixels) of a video consumer; the server picks the smallest simulcast/SVC layer that covers it. Payload: \`{ roomId, consumerId, width, height }\`. Returns \`{ success, spatialLayer }\` |
+| \`getProducers\` | Client → Server | Get existing producers. Payload: \`{ roomId }\`. Returns \`{ producers: [{ producerId, peerId, userId, username, kind, source }] }\` (\`source\` is \`microphone\`, \`camera\` or \`screen\`) |
+| \`newProducer\` | Server → Client | Emitted when a peer starts producing. Payload: \`{ peerId, producerId, kind, source }\` |
+| \`qualityChanged\` | Server → Client | Emitted to a peer when its incoming video is stepped down or back up to suit its downlink (from transport bandwidth estimates and consumer scores). \`state\` is \`good\`, \`reduced\` (lower layers or frame rate) or \`audioOnly\` (video paused). Payload: \`{ level, state }\` |
+
+### Server-Side Recording
+
+| Event | Direction | Description |
+|-------|-----------|-------------|
+| \`startServerRecording\` | Client → Server | Host/co-host only, from inside the room. Record every track in the room on the server. Payload: \`{ roomId }\`. Returns \`{ recordingId }\` |
+| \`stopServerRecording\` | Client → Server | Host/co-host only, from inside the room. Stop the server recording and save it. Payload: \`{ roomId }\`. Returns \`{ recordingId }\` |
+| \`serverRecordingStateChanged\` | Server → Client | Emitted when a server recording starts or stops. Payload: \`{ recording, recordingId?, username? }\` |
 
 ---
       `,
@@ -70,8 +125,29 @@ Connect to the server via Socket.IO at the same host/port.
         name: 'Recordings',
         description: 'Recording upload, management, and streaming',
       },
+      {
+        name: 'Meetings',
+        description: 'Meeting creation and lookup',
+      },
+      {
+        name: 'Calendar',
+        description: 'iCalendar exports and per-user feeds of scheduled meetings',
+      },
     ],
     components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Session token returned by /api/users/login or /api/users/register',
+        },
+        cookieAuth: {
+          type: 'apiKey',
+          in: 'cookie',
+          name: 'cindy_token',
+          description: 'HTTP-only cookie set on login (used by media elements)',
+        },
+      },
       schemas: {
         User: {
           type: 'object',
@@ -94,6 +170,28 @@ Connect to the server via Socket.IO at the same host/port.
             },
           },
         },
+        Session: {
+          type: 'object',
+          properties: {
+            userId: {
+              type: 'string',
+              format: 'uuid',
+              example: '550e8400-e29b-41d4-a716-446655440000',
+            },
+            username: {
+              type: 'string',
+              example: 'john_doe',
+            },
+            token: {
+              type: 'string',
+              description: 'Signed session token, send as "Authorization: Bearer <token>"',
+            },
+            expiresAt: {
+              type: 'number',
+              description: 'Unix timestamp when the token expires',
+            },
+          },
+        },
         Recording: {
           type: 'object',
           properties: {
@@ -137,8 +235,231 @@ Connect to the server via Socket.IO at the same host/port.
               enum: ['audio', 'video', 'both'],
               description: 'Type of recording',
             },
+            layout: {
+              type: 'string',
+              enum: ['grid', 'speaker', 'filmstrip', 'presenter'],
+              description: 'Layout a client recording with video was composed with',
+            },
+            participants: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Usernames of everyone who was in the recording',
+            },
+            source: {
+              type: 'string',
+              enum: ['client', 'server'],
+              description: 'Whether the recording was made in the browser or on the server',
+            },
+            composition: {
+              type: 'object',
+              description: 'Status of the grid composition job (server recordings only)',
+              properties: {
+                status: { type: 'string', enum: ['queued', 'running', 'failed', 'done'] },
+                error: { type: 'string' },
+                updatedAt: { type: 'number' },
+              },
+            },
+            preview: {
+              type: 'object',
+              description: 'Status and files of the preview images generated after the recording is stored',
+              properties: {
+                status: { type: 'string', enum: ['queued', 'running', 'failed', 'done'] },
+                error: { type: 'string' },
+                updatedAt: { type: 'number' },
+                poster: { type: 'string', description: 'Poster frame (video recordings)' },
+                waveform: { type: 'string', description: 'Waveform image (audio-only recordings)' },
+                sprite: {
+                  type: 'object',
+                  description: 'Sprite sheet of evenly spaced frames, left to right and top to bottom (video recordings)',
+                  properties: {
+                    filename: { type: 'string' },
+                    frames: { type: 'number' },
+                    columns: { type: 'number' },
+                    rows: { type: 'number' },
+                    interval: { type: 'number', description: 'Seconds between frames' },
+                    tileWidth: { type: 'number' },
+                    tileHeight: { type: 'number' },
+                  },
+                },
+              },
+            },
+            exports: {
+              type: 'object',
+              description: 'Download exports by format (mp4, m4a), transcoded on first request and cached',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string', enum: ['queued', 'running', 'failed', 'done'] },
+                  error: { type: 'string' },
+                  updatedAt: { type: 'number' },
+                  progress: { type: 'number', description: 'From 0 to 1' },
+                  filename: { type: 'string' },
+                },
+              },
+            },
+            transcript: {
+              type: 'object',
+              description: 'Transcription job; the transcript itself is served by GET /api/recordings/{id}/transcript',
+              properties: {
+                status: { type: 'string', enum: ['queued', 'running', 'failed', 'done'] },
+                error: { type: 'string' },
+                updatedAt: { type: 'number' },
+                filename: { type: 'string' },
+                engine: { type: 'string', example: 'whisper.cpp' },
+                language: { type: 'string', example: 'en' },
+              },
+            },
+            tracks: {
+              type: 'array',
+              description: 'Per-participant track files captured by the server recorder',
+              items: {
+                type: 'object',
+                properties: {
+                  filename: { type: 'string' },
+                  kind: { type: 'string', enum: ['audio', 'video'] },
+                  peerId: { type: 'string' },
+                  userId: { type: 'string' },
+                  username: { type: 'string' },
+                  startOffset: { type: 'number', description: 'Milliseconds since the recording started' },
+                  endOffset: { type: 'number', description: 'Milliseconds since the recording started' },
+                },
+              },
+            },
+            grants: {
+              type: 'array',
+              description: 'Users and share links with view access (returned to the owner only)',
+              items: { $ref: '#/components/schemas/RecordingGrant' },
+            },
           },
         },
+        RecordingGrant: {
+          type: 'object',
+          properties: {
+            grantId: { type: 'string', format: 'uuid' },
+            type: {
+              type: 'string',
+              enum: ['user', 'link'],
+              description: 'Shared with a specific user, or with anyone holding the link token',
+            },
+            userId: { type: 'string', format: 'uuid' },
+            username: { type: 'string' },
+            token: { type: 'string', description: 'Share link token (link grants only)' },
+            createdAt: { type: 'number' },
+          },
+        },
+        MeetingSettings: {
+          type: 'object',
+          properties: {
+            recordingEnabled: {
+              type: 'boolean',
+              description: 'Whether participants may record the meeting',
+              default: true,
+            },
+            earlyJoinMinutes: {
+              type: 'number',
+              description: 'How many minutes before a scheduled start the meeting can be joined (default EARLY_JOIN_MINUTES)',
+              default: 10,
+            },
+            lobbyEnabled: {
+              type: 'boolean',
+              description: 'Whether participants wait in a lobby until the host admits them',
+              default: false,
+            },
+            maxParticipants: {
+              type: 'number',
+              description: 'Most people allowed in the room at once, including the host (default MAX_PARTICIPANTS, up to MAX_PARTICIPANTS_LIMIT)',
+              default: 50,
+            },
+          },
+        },
+        Meeting: {
+          type: 'object',
+          properties: {
+            meetingId: {
+              type: 'string',
+              description: 'Server-issued meeting ID',
+              example: 'q3Vb7xK2mZ9pL0aW',
+            },
+            ownerId: {
+              type: 'string',
+              format: 'uuid',
+            },
+            ownerUsername: {
+              type: 'string',
+            },
+            title: {
+              type: 'string',
+              example: 'Weekly Sync',
+            },
+            createdAt: {
+              type: 'number',
+              description: 'Unix timestamp in milliseconds',
+            },
+            expiresAt: {
+              type: 'number',
+              description: 'Unix timestamp in milliseconds after which the link can no longer be joined',
+            },
+            scheduledStart: {
+              type: 'number',
+              description: 'Scheduled start (unix ms); absent for instant meetings',
+            },
+            durationMinutes: {
+              type: 'number',
+              description: 'Scheduled length in minutes',
+            },
+            timeZone: {
+              type: 'string',
+              description: 'IANA time zone the meeting was scheduled in',
+              example: 'Europe/Berlin',
+            },
+            sequence: {
+              type: 'number',
+              description: 'iCalendar SEQUENCE, incremented whenever a scheduled meeting changes or is cancelled',
+            },
+            updatedAt: {
+              type: 'number',
+            },
+            cancelledAt: {
+              type: 'number',
+              description: 'Set when the owner cancelled the meeting',
+            },
+            settings: {
+              $ref: '#/components/schemas/MeetingSettings',
+            },
+          },
+        },
+        CalendarFeed: {
+          type: 'object',
+          properties: {
+            feedUrl: {
+              type: 'string',
+              description: 'Secret, subscribable iCalendar URL (anyone with the URL can read the feed)',
+              example: 'https://meet.example.com/api/calendar/feed/Zk3...q9.ics',
+            },
+          },
+        },
+        MeetingWithWindow: {
+          allOf: [
+            { $ref: '#/components/schemas/Meeting' },
+            {
+              type: 'object',
+              properties: {
+                opensAt: {
+                  type: 'number',
+                  description: 'Earliest time the meeting can be joined (unix ms)',
+                },
+                closesAt: {
+                  type: 'number',
+                  description: 'Time after which the meeting can no longer be joined (unix ms)',
+                },
+                state: {
+                  type: 'string',
+                  enum: ['early', 'open', 'expired', 'cancelled'],
+                },
+              },
+            },
+          ],
+        },
         Error: {
           type: 'object',
           properties: {
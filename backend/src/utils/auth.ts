@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import {
+  addSession,
+  deleteSession,
+  findSessionById,
+  findUserById,
+  Session,
+  User,
+} from '../storage/fileStorage';
+
+export const SESSION_TTL_MS = parseInt(process.env.SESSION_TTL_HOURS || '168') * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const CLAIM_TOKEN_TTL_MS = parseInt(process.env.CLAIM_TOKEN_TTL_HOURS || '72') * 60 * 60 * 1000;
+
+// Tokens are signed with AUTH_SECRET; without it every restart invalidates all sessions
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+if (!process.env.AUTH_SECRET) {
+  console.warn('[Auth] AUTH_SECRET not set, using a random secret (sessions will not survive a restart)');
+}
+
+interface TokenPayload {
+  sid: string; // session ID
+  uid: string; // user ID
+  exp: number; // expiry (unix ms)
+}
+
+/**
+ * Hash a password (or passphrase) with a fresh random salt
+ */
+export function hashPassword(password: string): { passwordHash: string; passwordSalt: string } {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return {
+    passwordHash: hash.toString('hex'),
+    passwordSalt: salt.toString('hex'),
+  };
+}
+
+/**
+ * Check a password against a user's stored hash
+ */
+export function verifyPassword(password: string, user: User): boolean {
+  if (!user.passwordHash || !user.passwordSalt) {
+    return false;
+  }
+
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(user.passwordSalt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create a one-time account claim token; only its hash is stored
+ */
+export function createClaimToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(24).toString('base64url');
+  return { token, tokenHash: hashClaimToken(token) };
+}
+
+function hashClaimToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Check a claim token against the one issued for a user, and that it hasn't expired
+ */
+export function verifyClaimToken(token: string, user: User): boolean {
+  if (!user.claimTokenHash || !user.claimTokenExpiresAt || user.claimTokenExpiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(user.claimTokenHash, 'hex');
+  const actual = Buffer.from(hashClaimToken(token), 'hex');
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function sign(data: string): string {
+  return crypto.createHmac('sha256', AUTH_SECRET).update(data).digest('base64url');
+}
+
+/**
+ * Create a session for a user and return its signed token
+ */
+export function issueToken(userId: string): { token: string; session: Session } {
+  const now = Date.now();
+  const session: Session = {
+    sessionId: crypto.randomUUID(),
+    userId,
+    createdAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
+
+  addSession(session);
+
+  const payload: TokenPayload = { sid: session.sessionId, uid: userId, exp: session.expiresAt };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return { token: `${encoded}.${sign(encoded)}`, session };
+}
+
+/**
+ * Verify a token's signature, expiry and session
+ * Returns the session and user, or null if the token is not valid
+ */
+export function verifyToken(token: string): { session: Session; user: User } | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+
+  if (payload.exp <= Date.now()) {
+    return null;
+  }
+
+  // Revoked sessions are removed from storage
+  const session = findSessionById(payload.sid);
+  if (!session || session.userId !== payload.uid || session.expiresAt <= Date.now()) {
+    return null;
+  }
+
+  const user = findUserById(session.userId);
+  if (!user) {
+    return null;
+  }
+
+  return { session, user };
+}
+
+/**
+ * Revoke a session so its token stops working
+ */
+export function revokeSession(sessionId: string): boolean {
+  return deleteSession(sessionId);
+}
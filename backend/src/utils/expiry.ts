@@ -1,48 +1,78 @@
 import crypto from 'crypto';
+import { Meeting } from '../storage/fileStorage';
+
+// Default and maximum lifetime of a meeting link
+export const DEFAULT_MEETING_TTL_HOURS = parseInt(process.env.MEETING_TTL_HOURS || '24');
+export const MAX_MEETING_TTL_HOURS = parseInt(process.env.MAX_MEETING_TTL_HOURS || '168');
+
+// Scheduled meetings
+export const DEFAULT_EARLY_JOIN_MINUTES = parseInt(process.env.EARLY_JOIN_MINUTES || '10');
+export const DEFAULT_MEETING_DURATION_MINUTES = 60;
+export const MAX_MEETING_DURATION_MINUTES = 24 * 60;
+
+// Room capacity: the default cap and the highest cap a meeting may ask for
+export const DEFAULT_MAX_PARTICIPANTS = parseInt(process.env.MAX_PARTICIPANTS || '50');
+export const MAX_PARTICIPANTS_LIMIT = parseInt(process.env.MAX_PARTICIPANTS_LIMIT || '200');
+
+export type MeetingWindowState = 'early' | 'open' | 'expired' | 'cancelled';
 
 /**
- * Generate a time-sensitive meeting ID
- * Format: {randomHash}-{timestamp}
+ * Generate an unguessable meeting ID
+ * Expiry lives on the stored meeting, so nothing in the ID is meaningful
  */
 export function generateMeetingId(): string {
-  const randomHash = crypto.randomBytes(8).toString('hex');
-  const timestamp = Date.now();
-  return `${randomHash}-${timestamp}`;
+  return crypto.randomBytes(12).toString('base64url');
 }
 
 /**
- * Check if a meeting link has expired (> 24 hours old)
+ * Get the expiry time for a new instant meeting
+ * The requested lifetime is clamped to 1h..MAX_MEETING_TTL_HOURS
  */
-export function isMeetingExpired(meetingId: string): boolean {
-  try {
-    const parts = meetingId.split('-');
-    const timestamp = parseInt(parts[parts.length - 1]);
-    
-    if (isNaN(timestamp)) {
-      return true; // Invalid format, consider expired
-    }
-    
-    const age = Date.now() - timestamp;
-    const twentyFourHours = 24 * 60 * 60 * 1000;
-    
-    return age > twentyFourHours;
-  } catch (error) {
-    console.error('Error checking meeting expiry:', error);
-    return true; // On error, consider expired for safety
-  }
+export function getMeetingExpiry(createdAt: number, requestedHours?: number): number {
+  const hours = requestedHours && requestedHours > 0
+    ? Math.min(Math.max(requestedHours, 1), MAX_MEETING_TTL_HOURS)
+    : DEFAULT_MEETING_TTL_HOURS;
+
+  return createdAt + hours * 60 * 60 * 1000;
+}
+
+/**
+ * Get the end of a scheduled meeting's slot
+ */
+export function getScheduledEnd(scheduledStart: number, durationMinutes: number): number {
+  return scheduledStart + durationMinutes * 60 * 1000;
 }
 
 /**
- * Get meeting age in hours
+ * Get the time window in which a meeting can be joined
+ * Instant meetings open on creation; scheduled meetings open earlyJoinMinutes before the start
  */
-export function getMeetingAge(meetingId: string): number {
-  try {
-    const parts = meetingId.split('-');
-    const timestamp = parseInt(parts[parts.length - 1]);
-    const age = Date.now() - timestamp;
-    return age / (60 * 60 * 1000); // Convert to hours
-  } catch (error) {
-    return 999; // Return large number on error
+export function getJoinWindow(meeting: Meeting): { opensAt: number; closesAt: number } {
+  if (meeting.scheduledStart === undefined) {
+    return { opensAt: meeting.createdAt, closesAt: meeting.expiresAt };
   }
+
+  return {
+    opensAt: meeting.scheduledStart - meeting.settings.earlyJoinMinutes * 60 * 1000,
+    closesAt: meeting.expiresAt,
+  };
 }
 
+/**
+ * Check where the current time falls relative to a meeting's join window
+ */
+export function getMeetingWindowState(meeting: Meeting, now: number = Date.now()): MeetingWindowState {
+  const { opensAt, closesAt } = getJoinWindow(meeting);
+
+  if (meeting.cancelledAt) return 'cancelled';
+  if (now < opensAt) return 'early';
+  if (now > closesAt) return 'expired';
+  return 'open';
+}
+
+/**
+ * Check if a meeting has expired
+ */
+export function isMeetingExpired(meeting: Meeting): boolean {
+  return getMeetingWindowState(meeting) === 'expired';
+}
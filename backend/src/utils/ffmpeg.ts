@@ -0,0 +1,42 @@
+import { spawn } from 'child_process';
+import { config } from '../mediasoup/config';
+
+/**
+ * Run ffmpeg to completion
+ * Rejects with the tail of stderr when ffmpeg exits with a non-zero code
+ * With onProgress, it is called with the output time reached so far (in seconds)
+ */
+export function runFfmpeg(args: string[], onProgress?: (seconds: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const progressArgs = onProgress ? ['-progress', 'pipe:1', '-nostats'] : [];
+    const ffmpeg = spawn(config.recording.ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...progressArgs, ...args]);
+
+    let stderr = '';
+    ffmpeg.stderr.on('data', (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    // Progress comes as key=value lines; out_time_us is the position in the output
+    let pending = '';
+    ffmpeg.stdout.on('data', (chunk) => {
+      if (!onProgress) return;
+      const lines = (pending + chunk.toString()).split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        const match = /^out_time_us=(\d+)/.exec(line.trim());
+        if (match) {
+          onProgress(parseInt(match[1]) / 1e6);
+        }
+      }
+    });
+
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
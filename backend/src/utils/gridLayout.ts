@@ -0,0 +1,43 @@
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Compute tile positions for a grid recording
+ * Same rules as the client-side mixer: 1=centered 854x480, 2-4=2x2, 5-9=3x3, 10-16=4x4, etc.
+ */
+export function computeGridLayout(count: number, canvasWidth = 1920, canvasHeight = 1080): Tile[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  if (count === 1) {
+    const width = 854;
+    const height = 480;
+    return [{
+      x: Math.floor((canvasWidth - width) / 2),
+      y: Math.floor((canvasHeight - height) / 2),
+      width,
+      height,
+    }];
+  }
+
+  const gridSize = Math.ceil(Math.sqrt(count));
+  const cellWidth = Math.floor(canvasWidth / gridSize);
+  const cellHeight = Math.floor(canvasHeight / gridSize);
+
+  const tiles: Tile[] = [];
+  for (let index = 0; index < count; index++) {
+    tiles.push({
+      x: (index % gridSize) * cellWidth,
+      y: Math.floor(index / gridSize) * cellHeight,
+      width: cellWidth,
+      height: cellHeight,
+    });
+  }
+
+  return tiles;
+}
@@ -0,0 +1,326 @@
+/**
+ * Minimal iCalendar (RFC 5545) serializer for meeting events
+ */
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const PRODID = '-//Cindy//Meetings//EN';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type IcsEventStatus = 'CONFIRMED' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  start: number; // unix ms
+  end: number; // unix ms
+  timeZone?: string; // IANA name; times are written in UTC when unset
+  summary: string;
+  description?: string;
+  url?: string;
+  status: IcsEventStatus;
+  created: number;
+  lastModified: number;
+}
+
+export interface IcsCalendar {
+  name?: string;
+  events: IcsEvent[];
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 3.1)
+ * Continuation lines start with a space; multi-byte characters are never split
+ */
+export function foldLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf-8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, 'utf-8');
+    // The leading space of a continuation line counts toward its length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+/**
+ * Check that a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function pad(value: number, length: number = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+/**
+ * Format a timestamp as a UTC DATE-TIME (e.g. 20250114T093000Z)
+ */
+export function formatUtc(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}` +
+    `T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+/**
+ * Format a timestamp as a floating local DATE-TIME in a time zone (e.g. 20250114T103000)
+ */
+export function formatLocal(timestamp: number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+  return `${get('year')}${get('month')}${get('day')}T${get('hour')}${get('minute')}${get('second')}`;
+}
+
+interface Transition {
+  at: number;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+// Formatters and offset transitions by zone (and year); the tz database doesn't change while the process runs
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+const yearTransitions = new Map<string, Transition[]>();
+
+/**
+ * Get a time zone's UTC offset in minutes at a given instant
+ */
+export function getUtcOffset(timestamp: number, timeZone: string): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' });
+    offsetFormatters.set(timeZone, formatter);
+  }
+
+  const name = formatter
+    .formatToParts(new Date(timestamp))
+    .find(p => p.type === 'timeZoneName')?.value || 'GMT';
+
+  // "GMT" for UTC itself, otherwise "GMT+05:30" / "GMT-08:00"
+  const match = name.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * Find the instant (to the minute) at which a zone's offset changes between two times
+ */
+function findTransition(from: number, to: number, timeZone: string): number {
+  const before = getUtcOffset(from, timeZone);
+  let low = from;
+  let high = to;
+
+  while (high - low > 60 * 1000) {
+    const mid = Math.floor((low + high) / 2);
+    if (getUtcOffset(mid, timeZone) === before) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  // Transitions fall on minute boundaries: the first one after the last time still on the old offset
+  return Math.floor(low / 60000) * 60000 + 60000;
+}
+
+/**
+ * Offset changes of a zone during a UTC calendar year, found by checking the offset once a day
+ */
+function getYearTransitions(timeZone: string, year: number): Transition[] {
+  const key = `${timeZone}:${year}`;
+  const cached = yearTransitions.get(key);
+  if (cached) return cached;
+
+  const yearStart = Date.UTC(year, 0, 1);
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+
+  const transitions: Transition[] = [];
+  let previousOffset = getUtcOffset(yearStart, timeZone);
+
+  for (let day = yearStart + DAY_MS; day <= yearEnd; day += DAY_MS) {
+    const offset = getUtcOffset(day, timeZone);
+    if (offset !== previousOffset) {
+      transitions.push({
+        at: findTransition(day - DAY_MS, day, timeZone),
+        offsetFrom: previousOffset,
+        offsetTo: offset,
+      });
+      previousOffset = offset;
+    }
+  }
+
+  yearTransitions.set(key, transitions);
+  return transitions;
+}
+
+/**
+ * Build a VTIMEZONE component for a zone, covering the given time range
+ * Offsets come from the runtime's tz database via Intl; each transition in the range
+ * becomes its own STANDARD/DAYLIGHT observance with an explicit DTSTART
+ */
+export function buildVTimezone(timeZone: string, from: number, to: number): string[] {
+  // Cover whole years so recurring observances show up on both sides of the range
+  const firstYear = new Date(from).getUTCFullYear();
+  const lastYear = new Date(to).getUTCFullYear();
+  const rangeStart = Date.UTC(firstYear, 0, 1);
+
+  const transitions: Transition[] = [];
+  for (let year = firstYear; year <= lastYear; year++) {
+    transitions.push(...getYearTransitions(timeZone, year));
+  }
+
+  // The larger of the offsets seen is treated as daylight saving time
+  const offsets = [getUtcOffset(rangeStart, timeZone), ...transitions.map(t => t.offsetTo)];
+  const standardOffset = Math.min(...offsets);
+
+  const observance = (at: number, offsetFrom: number, offsetTo: number): string[] => {
+    const type = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${type}`,
+      // DTSTART of an observance is local time in the offset being replaced
+      `DTSTART:${formatUtc(at + offsetFrom * 60 * 1000).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${type}`,
+    ];
+  };
+
+  const initialOffset = getUtcOffset(rangeStart, timeZone);
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(rangeStart, initialOffset, initialOffset),
+  ];
+
+  for (const transition of transitions) {
+    lines.push(...observance(transition.at, transition.offsetFrom, transition.offsetTo));
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function formatDateProperty(name: string, timestamp: number, timeZone?: string): string {
+  if (!timeZone) {
+    return `${name}:${formatUtc(timestamp)}`;
+  }
+  return `${name};TZID=${timeZone}:${formatLocal(timestamp, timeZone)}`;
+}
+
+function serializeEvent(event: IcsEvent, dtstamp: number): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(dtstamp)}`,
+    `CREATED:${formatUtc(event.created)}`,
+    `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+    formatDateProperty('DTSTART', event.start, event.timeZone),
+    formatDateProperty('DTEND', event.end, event.timeZone),
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.status}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+    lines.push(`LOCATION:${escapeText(event.url)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize a calendar with its events and the VTIMEZONEs they reference
+ */
+export function serializeCalendar(calendar: IcsCalendar): string {
+  const now = Date.now();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (calendar.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+  }
+
+  // One VTIMEZONE per zone, spanning all events that use it
+  const zones = new Map<string, { from: number; to: number }>();
+  for (const event of calendar.events) {
+    if (!event.timeZone) continue;
+    const range = zones.get(event.timeZone);
+    zones.set(event.timeZone, {
+      from: Math.min(range?.from ?? event.start, event.start),
+      to: Math.max(range?.to ?? event.end, event.end),
+    });
+  }
+
+  for (const [timeZone, range] of zones) {
+    lines.push(...buildVTimezone(timeZone, range.from, range.to));
+  }
+
+  for (const event of calendar.events) {
+    lines.push(...serializeEvent(event, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,112 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import { config } from '../mediasoup/config';
+import { TranscriptSegment } from '../storage/fileStorage';
+
+export interface SpeechResult {
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * A local speech-to-text engine
+ * transcribe() gets a 16 kHz mono WAV file and resolves with timed segments
+ */
+export interface SpeechEngine {
+  readonly name: string;
+  transcribe(wavPath: string): Promise<SpeechResult>;
+}
+
+// Shape of the file written by whisper.cpp with -oj (offsets are in ms)
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+  }[];
+}
+
+/**
+ * whisper.cpp command line tool (`whisper-cli`, called `main` in older builds)
+ */
+class WhisperCppEngine implements SpeechEngine {
+  readonly name = 'whisper.cpp';
+
+  async transcribe(wavPath: string): Promise<SpeechResult> {
+    const { whisperPath, whisperModel, language, threads } = config.transcription;
+    const outputBase = `${wavPath}.whisper`;
+    const outputPath = `${outputBase}.json`;
+
+    try {
+      await this.run(whisperPath, [
+        '-m', whisperModel,
+        '-f', wavPath,
+        '-l', language,
+        '-t', String(threads),
+        '-oj',
+        '-of', outputBase,
+        '-np',
+      ]);
+
+      const output: WhisperCppOutput = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
+
+      return {
+        language: output.result?.language,
+        segments: (output.transcription || [])
+          .map(item => ({
+            start: item.offsets.from / 1000,
+            end: item.offsets.to / 1000,
+            text: item.text.trim(),
+          }))
+          .filter(segment => segment.text.length > 0),
+      };
+    } finally {
+      if (fs.existsSync(outputPath)) {
+        fs.unlinkSync(outputPath);
+      }
+    }
+  }
+
+  private run(command: string, args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const whisper = spawn(command, args);
+
+      let stderr = '';
+      whisper.stderr.on('data', (chunk) => {
+        stderr = (stderr + chunk.toString()).slice(-2000);
+      });
+
+      whisper.on('error', reject);
+      whisper.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
+
+// Engines by the name used in SPEECH_ENGINE
+const engines: Record<string, () => SpeechEngine> = {
+  'whisper.cpp': () => new WhisperCppEngine(),
+};
+
+let engine: SpeechEngine | null | undefined;
+
+/**
+ * The configured speech engine, or null when transcription is turned off
+ */
+export function getSpeechEngine(): SpeechEngine | null {
+  if (engine === undefined) {
+    const name = config.transcription.engine;
+    const create = engines[name];
+
+    if (!create && name !== 'none') {
+      console.warn(`[Speech] Unknown speech engine "${name}", transcription is disabled`);
+    }
+    engine = create ? create() : null;
+  }
+  return engine;
+}
@@ -0,0 +1,52 @@
+import { TranscriptSegment } from '../storage/fileStorage';
+
+export type SubtitleFormat = 'vtt' | 'srt';
+
+/**
+ * hh:mm:ss.mmm, with a comma before the milliseconds for SRT
+ */
+function formatTimestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Cue text that can't end its cue early: a blank line or an arrow would be read as the start of the next cue
+ */
+function cueText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]*(?=\n)/g, '\n')
+    .replace(/\n{2,}/g, '\n')
+    .replace(/-->/g, '→')
+    .trim();
+}
+
+/**
+ * WebVTT captions, one cue per segment
+ * `&` and `<` are escaped, as WebVTT reads them as entities and tags
+ */
+export function toWebVtt(segments: TranscriptSegment[]): string {
+  const cues = segments.map(segment =>
+    `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n` +
+    cueText(segment.text).replace(/&/g, '&amp;').replace(/</g, '&lt;')
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * SubRip subtitles, numbered from 1
+ */
+export function toSrt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment, index) =>
+      `${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${cueText(segment.text)}\n`
+    )
+    .join('\n');
+}
@@ -0,0 +1,500 @@
+import fs from 'fs';
+
+/**
+ * WebM fix-up for MediaRecorder output
+ *
+ * Browsers write WebM as a live stream: the Segment and its Clusters have
+ * unknown sizes, Info has no Duration and there are no Cues, so players can't
+ * show the length or seek. makeWebmSeekable() rewrites such a file in place
+ * without re-encoding:
+ *   EBML header (copied)
+ *   Segment (known size)
+ *     SeekHead  -> Info, Tracks, Cues
+ *     Info      (with Duration)
+ *     Tracks    (copied)
+ *     ...       (other top-level elements such as Tags, copied)
+ *     Cues      (one cue per cluster, on its first keyframe)
+ *     Clusters  (known sizes, contents copied)
+ *
+ * Elements we write use 8-byte sizes and fixed-width integers, so the size of
+ * SeekHead and Cues doesn't depend on the positions they hold.
+ */
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+  CRC32: 0xbf,
+};
+
+// Children of a Segment; one of these ends a Cluster of unknown size
+const TOP_LEVEL_IDS = new Set([
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  ID.Cues,
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+  ID.EBML,
+  ID.Segment,
+]);
+
+// Top-level elements that are dropped and written again
+const REBUILT_IDS = new Set([ID.SeekHead, ID.Cues, ID.Void, ID.CRC32]);
+
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+const DEFAULT_TIMECODE_SCALE = 1000000; // 1 ms in ns
+
+const READ_WINDOW = 64 * 1024;
+const COPY_CHUNK = 1024 * 1024;
+
+interface ElementHeader {
+  id: number;
+  start: number; // position of the ID
+  dataStart: number;
+  size: number | null; // null for an unknown size
+}
+
+interface ClusterInfo {
+  dataStart: number;
+  dataEnd: number;
+  cueTime?: number; // first keyframe on the cue track, in timecode ticks
+}
+
+export interface WebmFixResult {
+  durationMs: number;
+  clusters: number;
+}
+
+/**
+ * Positional reads through a small cache, since headers are read a few bytes at a time
+ */
+class FileReader {
+  private file: fs.promises.FileHandle;
+  private window = Buffer.alloc(0);
+  private windowStart = 0;
+  readonly size: number;
+
+  constructor(file: fs.promises.FileHandle, size: number) {
+    this.file = file;
+    this.size = size;
+  }
+
+  async read(position: number, length: number): Promise<Buffer> {
+    const end = Math.min(position + length, this.size);
+    if (position >= end) return Buffer.alloc(0);
+    if (position < this.windowStart || end > this.windowStart + this.window.length) {
+      const windowLength = Math.min(Math.max(length, READ_WINDOW), this.size - position);
+      const buffer = Buffer.alloc(windowLength);
+      const { bytesRead } = await this.file.read(buffer, 0, windowLength, position);
+      this.window = buffer.subarray(0, bytesRead);
+      this.windowStart = position;
+    }
+    return this.window.subarray(position - this.windowStart, end - this.windowStart);
+  }
+}
+
+/**
+ * Read a variable-length integer: element IDs keep their length marker, sizes don't
+ */
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  const first = buffer[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23; // leading zeros within the byte, plus one
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes = allOnes && buffer[offset + i] === 0xff;
+  }
+
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+async function readHeader(reader: FileReader, position: number): Promise<ElementHeader | null> {
+  const buffer = await reader.read(position, 12);
+  const id = readVint(buffer, 0, true);
+  if (!id) return null;
+  const size = readVint(buffer, id.length, false);
+  if (!size) return null;
+
+  return {
+    id: id.value,
+    start: position,
+    dataStart: position + id.length + size.length,
+    size: size.unknown ? null : size.value,
+  };
+}
+
+function readUint(buffer: Buffer): number {
+  let value = 0;
+  for (const byte of buffer) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+interface ChildElement {
+  id: number;
+  dataOffset: number; // within the parent's payload
+  data: Buffer;
+  raw: Buffer; // including the ID and size
+}
+
+/**
+ * Split an element's payload into its children
+ */
+function readChildren(payload: Buffer): ChildElement[] {
+  const children: ChildElement[] = [];
+  let offset = 0;
+
+  while (offset < payload.length) {
+    const id = readVint(payload, offset, true);
+    const size = id && readVint(payload, offset + id.length, false);
+    if (!id || !size || size.unknown) break;
+
+    const dataStart = offset + id.length + size.length;
+    const end = dataStart + size.value;
+    if (end > payload.length) break;
+
+    children.push({
+      id: id.value,
+      dataOffset: dataStart,
+      data: payload.subarray(dataStart, end),
+      raw: payload.subarray(offset, end),
+    });
+    offset = end;
+  }
+
+  return children;
+}
+
+function encodeId(id: number): Buffer {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return Buffer.from(bytes);
+}
+
+// An 8-byte size: 0x01 marker followed by 7 bytes of value
+function encodeSize(size: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer[0] = 0x01;
+  buffer.writeUIntBE(size, 2, 6);
+  return buffer;
+}
+
+function encodeElement(id: number, payload: Buffer): Buffer {
+  return Buffer.concat([encodeId(id), encodeSize(payload.length), payload]);
+}
+
+function encodeUint(id: number, value: number): Buffer {
+  const payload = Buffer.alloc(8);
+  payload.writeBigUInt64BE(BigInt(Math.round(value)));
+  return encodeElement(id, payload);
+}
+
+function encodeFloat(id: number, value: number): Buffer {
+  const payload = Buffer.alloc(8);
+  payload.writeDoubleBE(value);
+  return encodeElement(id, payload);
+}
+
+/**
+ * Pick the track cues point at: the first video track, or the first audio track for audio-only files
+ */
+function findCueTrack(tracks: Buffer): number | undefined {
+  let audioTrack: number | undefined;
+
+  for (const entry of readChildren(tracks)) {
+    if (entry.id !== ID.TrackEntry) continue;
+
+    const fields = readChildren(entry.data);
+    const number = fields.find(field => field.id === ID.TrackNumber);
+    const type = fields.find(field => field.id === ID.TrackType);
+    if (!number || !type) continue;
+
+    const trackType = readUint(type.data);
+    if (trackType === TRACK_TYPE_VIDEO) return readUint(number.data);
+    if (trackType === TRACK_TYPE_AUDIO && audioTrack === undefined) audioTrack = readUint(number.data);
+  }
+
+  return audioTrack;
+}
+
+/**
+ * Walk a cluster's blocks. A cluster of unknown size ends where the next top-level element starts;
+ * a block cut off by the end of the file is dropped along with everything after it.
+ */
+async function scanCluster(
+  reader: FileReader,
+  header: ElementHeader,
+  limit: number,
+  cueTrack: number,
+  onBlock: (timestamp: number) => void
+): Promise<ClusterInfo> {
+  const end = header.size === null ? limit : Math.min(header.dataStart + header.size, limit);
+  const cluster: ClusterInfo = { dataStart: header.dataStart, dataEnd: header.dataStart };
+  let clusterTimecode = 0;
+  let position = header.dataStart;
+
+  while (position < end) {
+    const child = await readHeader(reader, position);
+    if (!child || child.size === null) break;
+    if (header.size === null && TOP_LEVEL_IDS.has(child.id)) break;
+
+    const childEnd = child.dataStart + child.size;
+    if (childEnd > end) break;
+
+    if (child.id === ID.Timecode) {
+      clusterTimecode = readUint(await reader.read(child.dataStart, child.size));
+    } else if (child.id === ID.SimpleBlock || child.id === ID.BlockGroup) {
+      let blockStart = child.dataStart;
+      let keyframe = false;
+
+      if (child.id === ID.BlockGroup) {
+        // A block without references is a keyframe
+        const fields = readChildren(await reader.read(child.dataStart, child.size));
+        const block = fields.find(field => field.id === ID.Block);
+        if (!block) {
+          position = childEnd;
+          continue;
+        }
+        blockStart = child.dataStart + block.dataOffset;
+        keyframe = !fields.some(field => field.id === ID.ReferenceBlock);
+      }
+
+      const blockHeader = await reader.read(blockStart, 12);
+      const track = readVint(blockHeader, 0, false);
+      if (track) {
+        const timestamp = clusterTimecode + blockHeader.readInt16BE(track.length);
+        if (child.id === ID.SimpleBlock) {
+          keyframe = (blockHeader[track.length + 2] & 0x80) !== 0;
+        }
+
+        onBlock(timestamp);
+        if (keyframe && track.value === cueTrack && cluster.cueTime === undefined) {
+          cluster.cueTime = timestamp;
+        }
+      }
+    }
+
+    position = childEnd;
+  }
+
+  cluster.dataEnd = position;
+  return cluster;
+}
+
+async function copyRange(reader: fs.promises.FileHandle, writer: fs.promises.FileHandle, start: number, end: number): Promise<void> {
+  const buffer = Buffer.alloc(Math.min(COPY_CHUNK, end - start));
+  for (let position = start; position < end; ) {
+    const { bytesRead } = await reader.read(buffer, 0, Math.min(buffer.length, end - position), position);
+    if (bytesRead === 0) throw new Error('Unexpected end of file while copying');
+    await writer.write(buffer, 0, bytesRead);
+    position += bytesRead;
+  }
+}
+
+function buildSeekHead(entries: { id: number; position: number }[]): Buffer {
+  return encodeElement(
+    ID.SeekHead,
+    Buffer.concat(entries.map(entry => encodeElement(
+      ID.Seek,
+      Buffer.concat([encodeElement(ID.SeekID, encodeId(entry.id)), encodeUint(ID.SeekPosition, entry.position)])
+    )))
+  );
+}
+
+function buildCues(points: { time: number; position: number }[], track: number): Buffer {
+  return encodeElement(
+    ID.Cues,
+    Buffer.concat(points.map(point => encodeElement(
+      ID.CuePoint,
+      Buffer.concat([
+        encodeUint(ID.CueTime, point.time),
+        encodeElement(
+          ID.CueTrackPositions,
+          Buffer.concat([encodeUint(ID.CueTrack, track), encodeUint(ID.CueClusterPosition, point.position)])
+        ),
+      ])
+    )))
+  );
+}
+
+/**
+ * Rewrite a WebM file in place with a Duration, Cues and known element sizes
+ * Rejects (leaving the file untouched) when the file isn't WebM it can make sense of
+ */
+export async function makeWebmSeekable(filePath: string): Promise<WebmFixResult> {
+  const input = await fs.promises.open(filePath, 'r');
+  const tmpPath = `${filePath}.remux`;
+
+  try {
+    const reader = new FileReader(input, (await input.stat()).size);
+
+    const ebml = await readHeader(reader, 0);
+    if (!ebml || ebml.id !== ID.EBML || ebml.size === null) {
+      throw new Error('Not an EBML file');
+    }
+    const ebmlEnd = ebml.dataStart + ebml.size;
+
+    const segment = await readHeader(reader, ebmlEnd);
+    if (!segment || segment.id !== ID.Segment) {
+      throw new Error('Missing Segment');
+    }
+    const segmentEnd = segment.size === null ? reader.size : Math.min(segment.dataStart + segment.size, reader.size);
+
+    let info: Buffer | undefined;
+    let tracks: Buffer | undefined;
+    let cueTrack: number | undefined;
+    let maxTimestamp = 0;
+    const others: Buffer[] = [];
+    const clusters: ClusterInfo[] = [];
+
+    let position = segment.dataStart;
+    while (position < segmentEnd) {
+      // Anything else is the torn end of a file whose recording was cut off
+      const header = await readHeader(reader, position);
+      if (!header || !(TOP_LEVEL_IDS.has(header.id) || REBUILT_IDS.has(header.id))) break;
+
+      if (header.id === ID.Cluster) {
+        if (cueTrack === undefined) {
+          throw new Error('Clusters before Tracks, or no audio or video track');
+        }
+
+        const cluster = await scanCluster(reader, header, segmentEnd, cueTrack, (timestamp) => {
+          maxTimestamp = Math.max(maxTimestamp, timestamp);
+        });
+        if (cluster.dataEnd > cluster.dataStart) {
+          clusters.push(cluster);
+        }
+        position = header.size === null ? cluster.dataEnd : header.dataStart + header.size;
+        continue;
+      }
+
+      if (header.size === null) {
+        throw new Error(`Unsupported unknown-size element 0x${header.id.toString(16)}`);
+      }
+
+      const end = header.dataStart + header.size;
+      if (end > segmentEnd) break;
+
+      if (header.id === ID.Info) {
+        info = Buffer.from(await reader.read(header.dataStart, header.size));
+      } else if (header.id === ID.Tracks) {
+        tracks = Buffer.from(await reader.read(header.dataStart, header.size));
+        cueTrack = findCueTrack(tracks);
+      } else if (!REBUILT_IDS.has(header.id)) {
+        others.push(Buffer.from(await reader.read(header.start, end - header.start)));
+      }
+
+      position = end;
+    }
+
+    if (!info || !tracks || clusters.length === 0) {
+      throw new Error('Missing Info, Tracks or Clusters');
+    }
+
+    // Info with the Duration (in timecode ticks) replaced
+    const infoFields = readChildren(info);
+    const scaleField = infoFields.find(field => field.id === ID.TimecodeScale);
+    const timecodeScale = scaleField ? readUint(scaleField.data) : DEFAULT_TIMECODE_SCALE;
+    const infoElement = encodeElement(ID.Info, Buffer.concat([
+      ...infoFields.filter(field => field.id !== ID.Duration && field.id !== ID.Void).map(field => field.raw),
+      encodeFloat(ID.Duration, maxTimestamp),
+    ]));
+    const tracksElement = encodeElement(ID.Tracks, tracks);
+
+    // Sizes first (placeholders have the same width as real positions), then the real positions
+    const cuedClusters = clusters.filter(cluster => cluster.cueTime !== undefined);
+    const seekHeadSize = buildSeekHead([ID.Info, ID.Tracks, ID.Cues].map(id => ({ id, position: 0 }))).length;
+    const cuesSize = buildCues(cuedClusters.map(() => ({ time: 0, position: 0 })), 0).length;
+
+    const infoPosition = seekHeadSize;
+    const tracksPosition = infoPosition + infoElement.length;
+    const cuesPosition = tracksPosition + tracksElement.length + others.reduce((sum, element) => sum + element.length, 0);
+
+    const clusterHeaderSize = encodeId(ID.Cluster).length + 8;
+    const clusterPositions = new Map<ClusterInfo, number>();
+    let clusterPosition = cuesPosition + cuesSize;
+    for (const cluster of clusters) {
+      clusterPositions.set(cluster, clusterPosition);
+      clusterPosition += clusterHeaderSize + (cluster.dataEnd - cluster.dataStart);
+    }
+    const segmentSize = clusterPosition;
+
+    const seekEntries = [
+      { id: ID.Info, position: infoPosition },
+      { id: ID.Tracks, position: tracksPosition },
+      { id: ID.Cues, position: cuesPosition },
+    ];
+    const cues = buildCues(
+      cuedClusters.map(cluster => ({ time: cluster.cueTime!, position: clusterPositions.get(cluster)! })),
+      cueTrack
+    );
+
+    const output = await fs.promises.open(tmpPath, 'w');
+    try {
+      await copyRange(input, output, 0, ebmlEnd);
+      await output.write(Buffer.concat([
+        encodeId(ID.Segment),
+        encodeSize(segmentSize),
+        buildSeekHead(seekEntries),
+        infoElement,
+        tracksElement,
+        ...others,
+        cues,
+      ]));
+
+      for (const cluster of clusters) {
+        await output.write(Buffer.concat([encodeId(ID.Cluster), encodeSize(cluster.dataEnd - cluster.dataStart)]));
+        await copyRange(input, output, cluster.dataStart, cluster.dataEnd);
+      }
+    } finally {
+      await output.close();
+    }
+
+    await fs.promises.rename(tmpPath, filePath);
+
+    return {
+      durationMs: Math.round((maxTimestamp * timecodeScale) / 1e6),
+      clusters: clusters.length,
+    };
+  } catch (error) {
+    await fs.promises.rm(tmpPath, { force: true });
+    throw error;
+  } finally {
+    await input.close();
+  }
+}
@@ -1,35 +1,75 @@
 import { useState, useRef, useEffect } from 'react';
-import { RecordingMode, RECORDING_MODE_CONFIG } from '../types/recording';
+import { RecordingMode, RecordingLayout, RECORDING_MODE_CONFIG, RECORDING_LAYOUT_CONFIG } from '../types/recording';
+import { Peer, PeerRole } from '../services/webrtc';
+
+const ROLE_LABELS: Record<PeerRole, string> = {
+  host: 'Host',
+  cohost: 'Co-host',
+  participant: '',
+};
 
 interface ControlsProps {
   micEnabled: boolean;
   cameraEnabled: boolean;
+  screenSharing: boolean;
   recording: boolean;
   recordingDuration: number;
   recordingMode?: RecordingMode;
+  serverRecording: boolean;
+  recordingEnabled: boolean;
+  participants: Peer[];
+  localRole: PeerRole;
+  roomLocked: boolean;
   onToggleMic: () => void;
   onToggleCamera: () => void;
-  onStartRecording: (mode: RecordingMode) => void;
+  onToggleScreenShare: () => void;
+  onStartRecording: (mode: RecordingMode, layout: RecordingLayout) => void;
   onStopRecording: () => void;
+  onStartServerRecording: () => void;
+  onStopServerRecording: () => void;
   onLeave: () => void;
   onCopyLink: () => void;
+  onMuteParticipant: (peerId: string) => void;
+  onStopParticipantVideo: (peerId: string) => void;
+  onRemoveParticipant: (peerId: string) => void;
+  onSetParticipantRole: (peerId: string, role: 'cohost' | 'participant') => void;
+  onToggleRoomLock: () => void;
 }
 
 export function Controls({
   micEnabled,
   cameraEnabled,
+  screenSharing,
   recording,
   recordingDuration,
   recordingMode,
+  serverRecording,
+  recordingEnabled,
+  participants,
+  localRole,
+  roomLocked,
   onToggleMic,
   onToggleCamera,
+  onToggleScreenShare,
   onStartRecording,
   onStopRecording,
+  onStartServerRecording,
+  onStopServerRecording,
   onLeave,
   onCopyLink,
+  onMuteParticipant,
+  onStopParticipantVideo,
+  onRemoveParticipant,
+  onSetParticipantRole,
+  onToggleRoomLock,
 }: ControlsProps) {
   const [dropdownOpen, setDropdownOpen] = useState(false);
+  const [participantsOpen, setParticipantsOpen] = useState(false);
+  const [recordingLayout, setRecordingLayout] = useState<RecordingLayout>('grid');
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const participantsRef = useRef<HTMLDivElement>(null);
+
+  const canModerate = localRole === 'host' || localRole === 'cohost';
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -43,6 +83,9 @@ export function Controls({
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setDropdownOpen(false);
       }
+      if (participantsRef.current && !participantsRef.current.contains(event.target as Node)) {
+        setParticipantsOpen(false);
+      }
     };
 
     document.addEventListener('mousedown', handleClickOutside);
@@ -51,7 +94,12 @@ export function Controls({
 
   const handleRecordingOptionClick = (mode: RecordingMode) => {
     setDropdownOpen(false);
-    onStartRecording(mode);
+    onStartRecording(mode, recordingLayout);
+  };
+
+  const handleServerRecordingClick = () => {
+    setDropdownOpen(false);
+    onStartServerRecording();
   };
 
   const getModeLabel = (mode: RecordingMode): string => {
@@ -86,30 +134,68 @@ export function Controls({
           {cameraEnabled ? '📹 Camera On' : '📹 Camera Off'}
         </button>
 
-        {/* Recording dropdown or stop button */}
+        {/* Screen share toggle */}
+        <button
+          onClick={onToggleScreenShare}
+          style={{
+            ...styles.button,
+            backgroundColor: screenSharing ? '#FF9800' : '#607D8B',
+          }}
+          title={screenSharing ? 'Stop presenting' : 'Present your screen'}
+        >
+          {screenSharing ? '🖥️ Stop Presenting' : '🖥️ Present'}
+        </button>
+
+        {/* Recording dropdown (if the meeting allows recording) or stop button */}
         {!recording ? (
-          <div ref={dropdownRef} style={styles.dropdownContainer}>
-            <button
-              onClick={() => setDropdownOpen(!dropdownOpen)}
-              style={{ ...styles.button, backgroundColor: '#2196F3' }}
-              title="Start recording"
-            >
-              ⏺ Record ▼
-            </button>
-            {dropdownOpen && (
-              <div style={styles.dropdownMenu}>
-                {(['audio', 'video', 'both'] as RecordingMode[]).map((mode) => (
-                  <button
-                    key={mode}
-                    onClick={() => handleRecordingOptionClick(mode)}
-                    style={styles.dropdownItem}
-                  >
-                    {getModeLabel(mode)}
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
+          recordingEnabled && (
+            <div ref={dropdownRef} style={styles.dropdownContainer}>
+              <button
+                onClick={() => setDropdownOpen(!dropdownOpen)}
+                style={{ ...styles.button, backgroundColor: '#2196F3' }}
+                title="Start recording"
+              >
+                ⏺ Record ▼
+              </button>
+              {dropdownOpen && (
+                <div style={styles.dropdownMenu}>
+                  <div style={styles.dropdownHeading}>Layout</div>
+                  <div style={styles.layoutOptions}>
+                    {(Object.keys(RECORDING_LAYOUT_CONFIG) as RecordingLayout[]).map((layout) => (
+                      <button
+                        key={layout}
+                        onClick={() => setRecordingLayout(layout)}
+                        style={{
+                          ...styles.layoutOption,
+                          backgroundColor: layout === recordingLayout ? '#2196F3' : '#3a3a3a',
+                        }}
+                        title={RECORDING_LAYOUT_CONFIG[layout].label}
+                      >
+                        {RECORDING_LAYOUT_CONFIG[layout].icon} {RECORDING_LAYOUT_CONFIG[layout].label}
+                      </button>
+                    ))}
+                  </div>
+                  {(['audio', 'video', 'both'] as RecordingMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => handleRecordingOptionClick(mode)}
+                      style={styles.dropdownItem}
+                    >
+                      {getModeLabel(mode)}
+                    </button>
+                  ))}
+                  {canModerate && !serverRecording && (
+                    <button
+                      onClick={handleServerRecordingClick}
+                      style={styles.dropdownItem}
+                    >
+                      ☁️ Record on Server
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
         ) : (
           <button
             onClick={onStopRecording}
@@ -120,6 +206,106 @@ export function Controls({
           </button>
         )}
 
+        {/* Server recording stop button (host and co-hosts) */}
+        {canModerate && serverRecording && (
+          <button
+            onClick={onStopServerRecording}
+            style={{ ...styles.button, backgroundColor: '#f44336' }}
+            title="Stop server recording"
+          >
+            ⏹ Stop Server Recording
+          </button>
+        )}
+
+        {/* Participant panel */}
+        <div ref={participantsRef} style={styles.dropdownContainer}>
+          <button
+            onClick={() => setParticipantsOpen(!participantsOpen)}
+            style={{ ...styles.button, backgroundColor: '#673AB7' }}
+            title="Participants"
+          >
+            👥 People ({participants.length + 1})
+          </button>
+          {participantsOpen && (
+            <div style={{ ...styles.dropdownMenu, minWidth: '300px' }}>
+              <div style={styles.participantRow}>
+                <span style={styles.participantName}>
+                  You
+                  {ROLE_LABELS[localRole] && <span style={styles.roleBadge}>{ROLE_LABELS[localRole]}</span>}
+                </span>
+              </div>
+              {participants.map((participant) => {
+                // Co-hosts can't moderate the host
+                const canActOn = canModerate && (participant.role !== 'host' || localRole === 'host');
+                return (
+                  <div key={participant.peerId} style={styles.participantRow}>
+                    <span style={styles.participantName}>
+                      {participant.username}
+                      {ROLE_LABELS[participant.role] && (
+                        <span style={styles.roleBadge}>{ROLE_LABELS[participant.role]}</span>
+                      )}
+                    </span>
+                    {canActOn && (
+                      <div style={styles.participantActions}>
+                        <button
+                          onClick={() => onMuteParticipant(participant.peerId)}
+                          style={styles.participantAction}
+                          title="Mute"
+                        >
+                          🔇
+                        </button>
+                        <button
+                          onClick={() => onStopParticipantVideo(participant.peerId)}
+                          style={styles.participantAction}
+                          title="Turn off camera"
+                        >
+                          🚫
+                        </button>
+                        {localRole === 'host' && (
+                          <button
+                            onClick={() =>
+                              onSetParticipantRole(
+                                participant.peerId,
+                                participant.role === 'cohost' ? 'participant' : 'cohost'
+                              )
+                            }
+                            style={styles.participantAction}
+                            title={participant.role === 'cohost' ? 'Remove co-host' : 'Make co-host'}
+                          >
+                            {participant.role === 'cohost' ? '⬇️' : '⭐'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            if (confirm(`Remove ${participant.username} from the meeting?`)) {
+                              onRemoveParticipant(participant.peerId);
+                            }
+                          }}
+                          style={{ ...styles.participantAction, backgroundColor: '#f44336' }}
+                          title="Remove from meeting"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Room lock (hosts and co-hosts) */}
+        {canModerate && (
+          <button
+            onClick={onToggleRoomLock}
+            style={{ ...styles.button, backgroundColor: roomLocked ? '#f44336' : '#607D8B' }}
+            title={roomLocked ? 'Let new people join again' : 'Stop new people from joining'}
+          >
+            {roomLocked ? '🔒 Locked' : '🔓 Lock Room'}
+          </button>
+        )}
+
         {/* Copy link */}
         <button
           onClick={onCopyLink}
@@ -146,6 +332,14 @@ export function Controls({
           Recording {recordingMode ? `(${RECORDING_MODE_CONFIG[recordingMode].label})` : ''}: {formatDuration(recordingDuration)}
         </div>
       )}
+
+      {/* Server recording indicator */}
+      {serverRecording && (
+        <div style={styles.recordingIndicator}>
+          <span style={styles.recordingDot}>●</span>
+          ☁️ This meeting is being recorded on the server
+        </div>
+      )}
     </div>
   );
 }
@@ -207,6 +401,65 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     transition: 'background-color 0.2s',
   },
+  dropdownHeading: {
+    padding: '10px 20px 4px',
+    color: '#999',
+    fontSize: '12px',
+    textTransform: 'uppercase',
+  },
+  layoutOptions: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr',
+    gap: '6px',
+    padding: '6px 12px 10px',
+    borderBottom: '1px solid #3a3a3a',
+  },
+  layoutOption: {
+    padding: '6px 8px',
+    border: 'none',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '12px',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
+  participantRow: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '10px 15px',
+    color: 'white',
+    fontSize: '14px',
+    borderBottom: '1px solid #3a3a3a',
+  },
+  participantName: {
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  roleBadge: {
+    marginLeft: '8px',
+    padding: '2px 6px',
+    borderRadius: '4px',
+    backgroundColor: '#673AB7',
+    fontSize: '11px',
+    fontWeight: 'bold',
+  },
+  participantActions: {
+    display: 'flex',
+    gap: '4px',
+    flexShrink: 0,
+  },
+  participantAction: {
+    padding: '4px 8px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#444',
+    color: 'white',
+    fontSize: '13px',
+    cursor: 'pointer',
+  },
   recordingIndicator: {
     textAlign: 'center',
     color: 'white',
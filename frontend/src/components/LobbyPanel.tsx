@@ -0,0 +1,89 @@
+import { LobbyEntry } from '../services/webrtc';
+
+interface LobbyPanelProps {
+  waiting: LobbyEntry[];
+  onAdmit: (peerId: string) => void;
+  onDeny: (peerId: string) => void;
+}
+
+export function LobbyPanel({ waiting, onAdmit, onDeny }: LobbyPanelProps) {
+  if (waiting.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.heading}>Waiting to join ({waiting.length})</div>
+      {waiting.map((entry) => (
+        <div key={entry.peerId} style={styles.item}>
+          <span style={styles.name}>{entry.username}</span>
+          <div style={styles.actions}>
+            <button
+              onClick={() => onAdmit(entry.peerId)}
+              style={{ ...styles.button, backgroundColor: '#4CAF50' }}
+            >
+              Admit
+            </button>
+            <button
+              onClick={() => onDeny(entry.peerId)}
+              style={{ ...styles.button, backgroundColor: '#f44336' }}
+            >
+              Deny
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  panel: {
+    position: 'fixed',
+    top: '80px',
+    right: '20px',
+    width: '280px',
+    maxHeight: '50vh',
+    overflowY: 'auto',
+    backgroundColor: '#2a2a2a',
+    borderRadius: '8px',
+    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.5)',
+    padding: '12px',
+    zIndex: 1000,
+  },
+  heading: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: '14px',
+    marginBottom: '10px',
+  },
+  item: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '8px',
+    padding: '8px 0',
+    borderTop: '1px solid #3a3a3a',
+  },
+  name: {
+    color: 'white',
+    fontSize: '14px',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  actions: {
+    display: 'flex',
+    gap: '6px',
+    flexShrink: 0,
+  },
+  button: {
+    padding: '6px 10px',
+    border: 'none',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '13px',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+  },
+};
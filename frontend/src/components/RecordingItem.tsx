@@ -1,5 +1,14 @@
-import { useState } from 'react';
-import { Recording } from '../services/api';
+import { useState, useEffect, useRef } from 'react';
+import {
+  Recording,
+  DownloadFormat,
+  ExportFormat,
+  getThumbnailUrl,
+  getSpriteUrl,
+  getDownloadUrl,
+  getRecordingStatus,
+  requestExport,
+} from '../services/api';
 import { RecordingMode, RECORDING_MODE_CONFIG } from '../types/recording';
 
 interface RecordingItemProps {
@@ -7,11 +16,45 @@ interface RecordingItemProps {
   onPlay: (recording: Recording) => void;
   onRename: (id: string, newTitle: string) => void;
   onDelete: (id: string) => void;
+  onShare: (id: string) => void;
+  shared?: boolean; // Shared with the current user, who can only play it
 }
 
-export function RecordingItem({ recording, onPlay, onRename, onDelete }: RecordingItemProps) {
+// Same size as a sprite tile, so scrubbing shows frames at their natural size
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 90;
+
+// Transcoded formats offered next to the original WebM (same rule as the server)
+const EXPORT_FORMATS: Record<RecordingMode, ExportFormat[]> = {
+  audio: ['m4a'],
+  video: ['mp4'],
+  both: ['mp4', 'm4a'],
+};
+
+const DOWNLOAD_LABELS: Record<DownloadFormat, string> = {
+  webm: 'WebM (original)',
+  mp4: 'MP4 (H.264)',
+  m4a: 'M4A (audio only)',
+};
+
+const EXPORT_POLL_INTERVAL_MS = 2000;
+
+export function RecordingItem({ recording, onPlay, onRename, onDelete, onShare, shared }: RecordingItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [title, setTitle] = useState(recording.title);
+  const [scrubFrame, setScrubFrame] = useState<number | null>(null);
+  const [showDownloads, setShowDownloads] = useState(false);
+  const [preparing, setPreparing] = useState<{ format: ExportFormat; progress: number } | null>(null);
+  const exportPollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Stop polling an export when the item goes away
+  useEffect(() => {
+    return () => {
+      if (exportPollRef.current) {
+        clearInterval(exportPollRef.current);
+      }
+    };
+  }, []);
 
   const handleRename = () => {
     if (title.trim() && title !== recording.title) {
@@ -26,6 +69,106 @@ export function RecordingItem({ recording, onPlay, onRename, onDelete }: Recordi
     }
   };
 
+  const startDownload = (format: DownloadFormat) => {
+    const link = document.createElement('a');
+    link.href = getDownloadUrl(recording.recordingId, format);
+    link.download = '';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  const stopExportPolling = () => {
+    if (exportPollRef.current) {
+      clearInterval(exportPollRef.current);
+      exportPollRef.current = null;
+    }
+    setPreparing(null);
+  };
+
+  // Wait for the export to finish, showing its progress, then download it
+  const pollExport = (format: ExportFormat) => {
+    setPreparing({ format, progress: 0 });
+
+    exportPollRef.current = setInterval(async () => {
+      try {
+        const job = (await getRecordingStatus(recording.recordingId)).exports?.[format];
+
+        if (job?.status === 'done') {
+          stopExportPolling();
+          startDownload(format);
+        } else if (job?.status === 'failed') {
+          stopExportPolling();
+          alert(`Could not prepare the ${format.toUpperCase()} download: ${job.error || 'unknown error'}`);
+        } else {
+          setPreparing({ format, progress: job?.progress ?? 0 });
+        }
+      } catch (err) {
+        console.error('Error polling export status:', err instanceof Error ? err.message : err);
+      }
+    }, EXPORT_POLL_INTERVAL_MS);
+  };
+
+  const handleDownload = async (format: DownloadFormat) => {
+    setShowDownloads(false);
+
+    if (format === 'webm') {
+      startDownload(format);
+      return;
+    }
+
+    try {
+      if (await requestExport(recording.recordingId, format)) {
+        startDownload(format);
+      } else {
+        pollExport(format);
+      }
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to prepare download');
+    }
+  };
+
+  const renderDownloadMenu = () => {
+    const formats: DownloadFormat[] = ['webm', ...EXPORT_FORMATS[recording.recordingType || 'both']];
+    const processing = !!recording.composition && recording.composition.status !== 'done';
+
+    if (preparing) {
+      return (
+        <button
+          onClick={stopExportPolling}
+          style={{ ...styles.button, backgroundColor: '#607D8B' }}
+          title="Stop waiting (the export keeps running on the server)"
+        >
+          ⏳ {preparing.format.toUpperCase()} {Math.round(preparing.progress * 100)}%
+        </button>
+      );
+    }
+
+    return (
+      <div style={styles.menuAnchor}>
+        <button
+          onClick={() => setShowDownloads(!showDownloads)}
+          style={{ ...styles.button, backgroundColor: '#795548', opacity: processing ? 0.5 : 1 }}
+          disabled={processing}
+          title={processing ? 'Available once processing has finished' : 'Download recording'}
+        >
+          ⬇️ Download
+        </button>
+
+        {showDownloads && (
+          <div style={styles.menu}>
+            {formats.map(format => (
+              <button key={format} onClick={() => handleDownload(format)} style={styles.menuItem}>
+                {DOWNLOAD_LABELS[format]}
+                {recording.exports?.[format as ExportFormat]?.status === 'done' && ' ✓'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const formatDate = (timestamp: number): string => {
     return new Date(timestamp).toLocaleString();
   };
@@ -59,8 +202,88 @@ export function RecordingItem({ recording, onPlay, onRename, onDelete }: Recordi
     );
   };
 
+  const getStatusBadge = () => {
+    const status = recording.composition?.status;
+    if (!status || status === 'done') return null;
+
+    const labels: Record<string, string> = {
+      queued: '⏳ Queued',
+      running: '⚙️ Processing',
+      failed: '⚠️ Processing failed',
+    };
+
+    return (
+      <span
+        style={{
+          ...styles.badge,
+          backgroundColor: status === 'failed' ? '#f44336' : '#607D8B',
+        }}
+        title={recording.composition?.error || 'Building grid recording'}
+      >
+        {labels[status]}
+      </span>
+    );
+  };
+
+  const renderThumbnail = () => {
+    const preview = recording.preview?.status === 'done' ? recording.preview : undefined;
+    const sprite = preview?.sprite;
+
+    // Hovering picks the sprite frame under the pointer
+    const handleScrub = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!sprite) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 0.999);
+      setScrubFrame(Math.floor(fraction * sprite.frames));
+    };
+
+    let content: React.ReactNode;
+    if (sprite && scrubFrame !== null) {
+      const column = scrubFrame % sprite.columns;
+      const row = Math.floor(scrubFrame / sprite.columns);
+      content = (
+        <>
+          <div
+            style={{
+              ...styles.sprite,
+              backgroundImage: `url(${getSpriteUrl(recording.recordingId)})`,
+              backgroundPosition: `-${column * sprite.tileWidth}px -${row * sprite.tileHeight}px`,
+              backgroundSize: `${sprite.columns * sprite.tileWidth}px ${sprite.rows * sprite.tileHeight}px`,
+            }}
+          />
+          <div style={{ ...styles.scrubBar, width: `${((scrubFrame + 1) / sprite.frames) * 100}%` }} />
+          <span style={styles.scrubTime}>{formatDuration(Math.floor(scrubFrame * sprite.interval))}</span>
+        </>
+      );
+    } else if (preview?.poster || preview?.waveform) {
+      content = (
+        <img
+          src={getThumbnailUrl(recording.recordingId)}
+          alt=""
+          style={{ ...styles.thumbnailImage, objectFit: preview.waveform ? 'contain' : 'cover' }}
+        />
+      );
+    } else {
+      content = <span style={styles.thumbnailPlaceholder}>{RECORDING_MODE_CONFIG[recording.recordingType || 'both'].icon}</span>;
+    }
+
+    return (
+      <div
+        style={styles.thumbnail}
+        onMouseMove={handleScrub}
+        onMouseLeave={() => setScrubFrame(null)}
+        onClick={() => onPlay(recording)}
+        title="Play recording"
+      >
+        {content}
+      </div>
+    );
+  };
+
   return (
     <div style={styles.container}>
+      {renderThumbnail()}
+
       <div style={styles.info}>
         <div style={styles.titleRow}>
           {isEditing ? (
@@ -83,12 +306,17 @@ export function RecordingItem({ recording, onPlay, onRename, onDelete }: Recordi
             <h3 style={styles.title}>{recording.title}</h3>
           )}
           {getRecordingTypeBadge(recording.recordingType)}
+          {getStatusBadge()}
         </div>
         
         <div style={styles.metadata}>
           <span>📅 {formatDate(recording.createdAt)}</span>
           <span>⏱️ {formatDuration(recording.duration)}</span>
           <span>🎬 Meeting: {recording.meetingId.substring(0, 8)}...</span>
+          {shared && <span>👤 Shared by {recording.username}</span>}
+          {recording.participants && recording.participants.length > 0 && (
+            <span title={recording.participants.join(', ')}>👥 {recording.participants.length} participant(s)</span>
+          )}
         </div>
       </div>
 
@@ -101,21 +329,35 @@ export function RecordingItem({ recording, onPlay, onRename, onDelete }: Recordi
           ▶️ Play
         </button>
 
-        <button
-          onClick={() => setIsEditing(true)}
-          style={{ ...styles.button, backgroundColor: '#2196F3' }}
-          title="Rename recording"
-        >
-          ✏️ Rename
-        </button>
+        {renderDownloadMenu()}
 
-        <button
-          onClick={handleDelete}
-          style={{ ...styles.button, backgroundColor: '#f44336' }}
-          title="Delete recording"
-        >
-          🗑️ Delete
-        </button>
+        {!shared && (
+          <>
+            <button
+              onClick={() => onShare(recording.recordingId)}
+              style={{ ...styles.button, backgroundColor: '#FF9800' }}
+              title="Share recording"
+            >
+              🔗 Share
+            </button>
+
+            <button
+              onClick={() => setIsEditing(true)}
+              style={{ ...styles.button, backgroundColor: '#2196F3' }}
+              title="Rename recording"
+            >
+              ✏️ Rename
+            </button>
+
+            <button
+              onClick={handleDelete}
+              style={{ ...styles.button, backgroundColor: '#f44336' }}
+              title="Delete recording"
+            >
+              🗑️ Delete
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -134,6 +376,49 @@ const styles: { [key: string]: React.CSSProperties } = {
     flexWrap: 'wrap',
     gap: '15px',
   },
+  thumbnail: {
+    position: 'relative',
+    width: `${THUMBNAIL_WIDTH}px`,
+    height: `${THUMBNAIL_HEIGHT}px`,
+    flexShrink: 0,
+    backgroundColor: '#000',
+    borderRadius: '6px',
+    overflow: 'hidden',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbnailPlaceholder: {
+    fontSize: '32px',
+    opacity: 0.5,
+  },
+  sprite: {
+    width: '100%',
+    height: '100%',
+    backgroundRepeat: 'no-repeat',
+  },
+  scrubBar: {
+    position: 'absolute',
+    left: 0,
+    bottom: 0,
+    height: '3px',
+    backgroundColor: '#f44336',
+  },
+  scrubTime: {
+    position: 'absolute',
+    right: '4px',
+    bottom: '6px',
+    padding: '1px 4px',
+    borderRadius: '3px',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    color: 'white',
+    fontSize: '11px',
+  },
   info: {
     flex: '1',
     minWidth: '300px',
@@ -181,6 +466,33 @@ const styles: { [key: string]: React.CSSProperties } = {
     gap: '10px',
     flexWrap: 'wrap',
   },
+  menuAnchor: {
+    position: 'relative',
+  },
+  menu: {
+    position: 'absolute',
+    top: '100%',
+    right: 0,
+    marginTop: '4px',
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: '170px',
+    backgroundColor: '#333',
+    borderRadius: '6px',
+    overflow: 'hidden',
+    boxShadow: '0 4px 10px rgba(0, 0, 0, 0.4)',
+    zIndex: 10,
+  },
+  menuItem: {
+    padding: '10px 14px',
+    border: 'none',
+    backgroundColor: 'transparent',
+    color: 'white',
+    fontSize: '14px',
+    textAlign: 'left',
+    cursor: 'pointer',
+    whiteSpace: 'nowrap',
+  },
   button: {
     padding: '10px 20px',
     border: 'none',
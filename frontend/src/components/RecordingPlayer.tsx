@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef } from 'react';
+import { Recording, TranscriptSegment, getVideoUrl, getCaptionsUrl, getTranscript } from '../services/api';
+
+interface RecordingPlayerProps {
+  recording: Recording;
+  startAt?: number; // seconds, e.g. a search hit in the transcript
+}
+
+const formatTimestamp = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Plays a recording with its captions, next to a transcript that seeks the media when a line is clicked
+ */
+export function RecordingPlayer({ recording, startAt }: RecordingPlayerProps) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const activeSegmentRef = useRef<HTMLButtonElement>(null);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const hasTranscript = recording.transcript?.status === 'done';
+
+  useEffect(() => {
+    if (!hasTranscript) return;
+
+    let cancelled = false;
+    getTranscript(recording.recordingId)
+      .then((transcript) => {
+        if (!cancelled) setSegments(transcript.segments);
+      })
+      .catch((err) => {
+        console.error('[RecordingPlayer] Error loading transcript:', err instanceof Error ? err.message : err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recording.recordingId, hasTranscript]);
+
+  const activeIndex = segments.findIndex((segment) => currentTime >= segment.start && currentTime < segment.end);
+
+  // Keep the line being spoken in view
+  useEffect(() => {
+    activeSegmentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleSeek = (segment: TranscriptSegment) => {
+    const media = mediaRef.current;
+    if (!media) return;
+
+    media.currentTime = segment.start;
+    media.play().catch(() => {});
+  };
+
+  const mediaProps = {
+    ref: (el: HTMLMediaElement | null) => {
+      mediaRef.current = el;
+    },
+    src: getVideoUrl(recording.recordingId),
+    controls: true,
+    autoPlay: true,
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    onLoadedMetadata: (e: React.SyntheticEvent<HTMLMediaElement>) => {
+      if (startAt) e.currentTarget.currentTime = startAt;
+    },
+  };
+
+  const captions = hasTranscript && (
+    <track
+      kind="captions"
+      src={getCaptionsUrl(recording.recordingId)}
+      srcLang={recording.transcript?.language || 'en'}
+      label="Transcript"
+      default
+    />
+  );
+
+  return (
+    <div style={styles.container}>
+      {recording.recordingType === 'audio' ? (
+        <div style={styles.audioContainer}>
+          <div style={styles.audioIcon}>🎵</div>
+          <audio {...mediaProps} style={styles.audio}>
+            {captions}
+          </audio>
+        </div>
+      ) : (
+        <video {...mediaProps} style={styles.video}>
+          {captions}
+        </video>
+      )}
+
+      {segments.length > 0 && (
+        <div style={styles.transcript}>
+          {segments.map((segment, index) => (
+            <button
+              key={index}
+              ref={index === activeIndex ? activeSegmentRef : undefined}
+              onClick={() => handleSeek(segment)}
+              style={{
+                ...styles.segment,
+                backgroundColor: index === activeIndex ? '#3a3a3a' : 'transparent',
+              }}
+              title="Jump to this moment"
+            >
+              <span style={styles.segmentTime}>{formatTimestamp(segment.start)}</span>
+              <span>{segment.text}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '15px',
+    minHeight: 0,
+  },
+  video: {
+    width: '100%',
+    borderRadius: '8px',
+    backgroundColor: '#000',
+    minHeight: 0,
+  },
+  audioContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    padding: '40px 20px',
+    backgroundColor: '#1a1a1a',
+    borderRadius: '8px',
+  },
+  audioIcon: {
+    fontSize: '80px',
+    marginBottom: '30px',
+  },
+  audio: {
+    width: '100%',
+    maxWidth: '500px',
+  },
+  transcript: {
+    display: 'flex',
+    flexDirection: 'column',
+    maxHeight: '200px',
+    overflowY: 'auto',
+    backgroundColor: '#1a1a1a',
+    borderRadius: '8px',
+    padding: '8px',
+  },
+  segment: {
+    display: 'flex',
+    gap: '12px',
+    padding: '6px 8px',
+    border: 'none',
+    borderRadius: '4px',
+    color: '#ddd',
+    fontSize: '14px',
+    textAlign: 'left',
+    cursor: 'pointer',
+  },
+  segmentTime: {
+    color: '#4CAF50',
+    fontFamily: 'monospace',
+    flexShrink: 0,
+  },
+};
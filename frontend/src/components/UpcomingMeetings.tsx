@@ -0,0 +1,147 @@
+import { Meeting, getMeetingIcsUrl } from '../services/api';
+
+interface UpcomingMeetingsProps {
+  meetings: Meeting[];
+  onJoin: (meetingId: string) => void;
+  onCancel: (meetingId: string) => void;
+}
+
+export function UpcomingMeetings({ meetings, onJoin, onCancel }: UpcomingMeetingsProps) {
+  const formatTime = (timestamp: number): string => {
+    return new Date(timestamp).toLocaleString([], {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getWhen = (meeting: Meeting): string => {
+    if (meeting.scheduledStart === undefined) {
+      return `Instant · expires ${formatTime(meeting.expiresAt)}`;
+    }
+    return `${formatTime(meeting.scheduledStart)} · ${meeting.durationMinutes} min`;
+  };
+
+  const handleCopyLink = async (meetingId: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/meeting/${meetingId}`);
+      alert('Meeting link copied to clipboard!');
+    } catch (err) {
+      console.error('[UpcomingMeetings] Error copying link:', err);
+    }
+  };
+
+  if (meetings.length === 0) {
+    return <p style={styles.empty}>No upcoming meetings</p>;
+  }
+
+  return (
+    <div style={styles.list}>
+      {meetings.map((meeting) => (
+        <div key={meeting.meetingId} style={styles.item}>
+          <div style={styles.info}>
+            <div style={styles.title}>{meeting.title}</div>
+            <div style={styles.when}>{getWhen(meeting)}</div>
+          </div>
+          <div style={styles.actions}>
+            {meeting.scheduledStart !== undefined && (
+              <>
+                <a
+                  href={getMeetingIcsUrl(meeting.meetingId)}
+                  style={{ ...styles.button, backgroundColor: '#FF9800', textDecoration: 'none' }}
+                  title="Add to calendar (.ics)"
+                >
+                  📅
+                </a>
+                <button
+                  onClick={() => {
+                    if (confirm(`Cancel "${meeting.title}"?`)) {
+                      onCancel(meeting.meetingId);
+                    }
+                  }}
+                  style={{ ...styles.button, backgroundColor: '#f44336' }}
+                  title="Cancel meeting"
+                >
+                  ✕
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => handleCopyLink(meeting.meetingId)}
+              style={{ ...styles.button, backgroundColor: '#607D8B' }}
+              title="Copy meeting link"
+            >
+              🔗
+            </button>
+            <button
+              onClick={() => onJoin(meeting.meetingId)}
+              style={{
+                ...styles.button,
+                backgroundColor: meeting.state === 'open' ? '#4CAF50' : '#555',
+                cursor: meeting.state === 'open' ? 'pointer' : 'not-allowed',
+              }}
+              disabled={meeting.state !== 'open'}
+              title={meeting.state === 'open' ? 'Join meeting' : `Opens ${formatTime(meeting.opensAt)}`}
+            >
+              {meeting.state === 'open' ? 'Join' : 'Not open'}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const styles: { [key: string]: React.CSSProperties } = {
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '10px',
+  },
+  item: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '12px 15px',
+    backgroundColor: '#1a1a1a',
+    borderRadius: '8px',
+  },
+  info: {
+    minWidth: '0',
+  },
+  title: {
+    color: 'white',
+    fontWeight: 'bold',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  when: {
+    color: '#999',
+    fontSize: '13px',
+    marginTop: '4px',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+    flexShrink: 0,
+  },
+  button: {
+    padding: '8px 14px',
+    border: 'none',
+    borderRadius: '6px',
+    color: 'white',
+    fontSize: '14px',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+  },
+  empty: {
+    color: '#999',
+    fontSize: '14px',
+    textAlign: 'center',
+    margin: '0',
+  },
+};
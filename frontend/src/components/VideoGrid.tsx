@@ -1,14 +1,47 @@
 import { useEffect, useRef, useState } from 'react';
+import { QualityState } from '../services/webrtc';
 
 interface VideoGridProps {
   localStream: MediaStream | null;
   remoteStreams: Map<string, { stream: MediaStream; username: string }>;
+  onTileResize?: (peerId: string, width: number, height: number) => void;
+  quality?: QualityState;
+  layout?: VideoLayout;
+  localPeerId?: string;
+  featuredPeerId?: string; // the remote peer enlarged in speaker view
+  speakingPeerIds?: Set<string>;
+  screenShares?: Map<string, { stream: MediaStream; username: string }>; // remote shares by peer ID
+  localScreenStream?: MediaStream | null;
 }
 
+export type VideoLayout = 'grid' | 'speaker';
+
 const MOBILE_BREAKPOINT = 640;
 
-export function VideoGrid({ localStream, remoteStreams }: VideoGridProps) {
-  const localVideoRef = useRef<HTMLVideoElement>(null);
+// Wait for resizing to settle before reporting a tile's size
+const RESIZE_REPORT_DELAY_MS = 300;
+
+// Height of the strip of small tiles under the featured speaker
+const FILMSTRIP_HEIGHT = 140;
+
+const QUALITY_BADGES: Record<QualityState, string | null> = {
+  good: null,
+  reduced: '⚠️ Low bandwidth',
+  audioOnly: '⚠️ Low bandwidth · video paused',
+};
+
+export function VideoGrid({
+  localStream,
+  remoteStreams,
+  onTileResize,
+  quality = 'good',
+  layout = 'grid',
+  localPeerId,
+  featuredPeerId,
+  speakingPeerIds,
+  screenShares,
+  localScreenStream,
+}: VideoGridProps) {
   const [windowWidth, setWindowWidth] = useState(window.innerWidth);
 
   // Track window width for responsive layout
@@ -21,11 +54,12 @@ export function VideoGrid({ localStream, remoteStreams }: VideoGridProps) {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  useEffect(() => {
-    if (localVideoRef.current && localStream) {
-      localVideoRef.current.srcObject = localStream;
+  // The local tile moves between the grid and the filmstrip, so attach the stream whenever it mounts
+  const attachLocalVideo = (video: HTMLVideoElement | null) => {
+    if (video && localStream && video.srcObject !== localStream) {
+      video.srcObject = localStream;
     }
-  }, [localStream]);
+  };
 
   // Calculate total participant count (local + remote)
   const participantCount = 1 + remoteStreams.size;
@@ -106,43 +140,153 @@ export function VideoGrid({ localStream, remoteStreams }: VideoGridProps) {
 
   const isFullScreen = participantCount === 1 && !isMobile;
 
+  const isSpeaking = (peerId?: string): boolean => !!peerId && !!speakingPeerIds?.has(peerId);
+
+  const renderLocal = (style: React.CSSProperties) => (
+    <div style={style}>
+      <video
+        ref={attachLocalVideo}
+        autoPlay
+        playsInline
+        muted
+        style={styles.video}
+      />
+      <div style={styles.label}>You (Local)</div>
+      {isSpeaking(localPeerId) && <div style={styles.speakingRing} />}
+    </div>
+  );
+
+  const renderRemote = (peerId: string, style?: React.CSSProperties) => {
+    const { stream, username } = remoteStreams.get(peerId)!;
+    return (
+      <RemoteVideo
+        key={peerId}
+        peerId={peerId}
+        stream={stream}
+        username={username}
+        isMobile={isMobile}
+        onResize={onTileResize}
+        qualityBadge={QUALITY_BADGES[quality]}
+        speaking={isSpeaking(peerId)}
+        style={style}
+      />
+    );
+  };
+
+  const remotePeerIds = Array.from(remoteStreams.keys());
+
+  const stripTileStyle: React.CSSProperties = {
+    ...getVideoContainerStyle(false),
+    width: `${Math.round((FILMSTRIP_HEIGHT * 16) / 9)}px`,
+    flexShrink: 0,
+  };
+
+  // One large tile with a strip of small ones below; on mobile everything stacks in one column
+  const renderStageLayout = (
+    stage: React.ReactNode,
+    renderStrip: (style: React.CSSProperties) => React.ReactNode
+  ) => {
+    if (isMobile) {
+      return (
+        <div style={getGridStyle()}>
+          {stage}
+          {renderStrip(getVideoContainerStyle(false))}
+        </div>
+      );
+    }
+
+    return (
+      <div style={styles.stageLayout}>
+        {stage}
+        <div style={styles.filmstrip}>{renderStrip(stripTileStyle)}</div>
+      </div>
+    );
+  };
+
+  // Presenter view: a screen share takes the stage (the latest remote one before our own)
+  const shares = Array.from(screenShares?.entries() ?? []).map(([peerId, { stream, username }]) => ({
+    key: peerId,
+    stream,
+    label: `${username} is presenting`,
+  }));
+  if (localScreenStream) {
+    shares.unshift({ key: 'local', stream: localScreenStream, label: 'You are presenting' });
+  }
+
+  if (shares.length > 0) {
+    const presented = shares[shares.length - 1];
+    const otherShares = shares.slice(0, -1);
+
+    return renderStageLayout(
+      <ScreenShare
+        key={presented.key}
+        stream={presented.stream}
+        label={presented.label}
+        style={isMobile ? getVideoContainerStyle(false) : undefined}
+      />,
+      (style) => (
+        <>
+          {renderLocal(style)}
+          {remotePeerIds.map(peerId => renderRemote(peerId, style))}
+          {otherShares.map(share => (
+            <ScreenShare key={share.key} stream={share.stream} label={share.label} style={style} />
+          ))}
+        </>
+      )
+    );
+  }
+
+  // Speaker view: the dominant remote speaker fills the stage, everyone else sits in a strip below
+  if (layout === 'speaker' && remotePeerIds.length > 0) {
+    const featured = featuredPeerId && remoteStreams.has(featuredPeerId) ? featuredPeerId : remotePeerIds[0];
+    const others = remotePeerIds.filter(peerId => peerId !== featured);
+
+    return renderStageLayout(renderRemote(featured), (style) => (
+      <>
+        {renderLocal(style)}
+        {others.map(peerId => renderRemote(peerId, style))}
+      </>
+    ));
+  }
+
   return (
     <div style={getGridStyle()}>
       {/* Local video */}
-      <div style={getVideoContainerStyle(isFullScreen)}>
-        <video
-          ref={localVideoRef}
-          autoPlay
-          playsInline
-          muted
-          style={styles.video}
-        />
-        <div style={styles.label}>You (Local)</div>
-      </div>
+      {renderLocal(getVideoContainerStyle(isFullScreen))}
 
       {/* Remote videos */}
-      {Array.from(remoteStreams.entries()).map(([peerId, { stream, username }]) => (
-        <RemoteVideo
-          key={peerId}
-          stream={stream}
-          username={username}
-          isMobile={isMobile}
-        />
-      ))}
+      {remotePeerIds.map(peerId => renderRemote(peerId))}
     </div>
   );
 }
 
 function RemoteVideo({
+  peerId,
   stream,
   username,
   isMobile,
+  onResize,
+  qualityBadge,
+  speaking,
+  style,
 }: {
+  peerId: string;
   stream: MediaStream;
   username: string;
   isMobile: boolean;
+  onResize?: (peerId: string, width: number, height: number) => void;
+  qualityBadge: string | null;
+  speaking: boolean;
+  style?: React.CSSProperties;
 }) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onResizeRef = useRef(onResize);
+
+  // Keep the latest callback without re-observing on every render
+  useEffect(() => {
+    onResizeRef.current = onResize;
+  }, [onResize]);
 
   useEffect(() => {
     if (videoRef.current && stream) {
@@ -150,6 +294,25 @@ function RemoteVideo({
     }
   }, [stream]);
 
+  // Report the tile's rendered size so the server can send a matching video layer
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const observer = new ResizeObserver((entries) => {
+      const { width, height } = entries[0].contentRect;
+      clearTimeout(timer);
+      timer = setTimeout(() => onResizeRef.current?.(peerId, width, height), RESIZE_REPORT_DELAY_MS);
+    });
+
+    observer.observe(container);
+    return () => {
+      clearTimeout(timer);
+      observer.disconnect();
+    };
+  }, [peerId]);
+
   const containerStyle: React.CSSProperties = {
     position: 'relative',
     backgroundColor: '#000',
@@ -158,10 +321,11 @@ function RemoteVideo({
     ...(isMobile
       ? { width: '100%', aspectRatio: '16/9' }
       : { width: '100%', height: '100%', minHeight: 0 }),
+    ...style,
   };
 
   return (
-    <div style={containerStyle}>
+    <div ref={containerRef} style={containerStyle}>
       <video
         ref={videoRef}
         autoPlay
@@ -169,6 +333,39 @@ function RemoteVideo({
         style={styles.video}
       />
       <div style={styles.label}>{username}</div>
+      {qualityBadge && <div style={styles.qualityBadge}>{qualityBadge}</div>}
+      {speaking && <div style={styles.speakingRing} />}
+    </div>
+  );
+}
+
+function ScreenShare({
+  stream,
+  label,
+  style,
+}: {
+  stream: MediaStream;
+  label: string;
+  style?: React.CSSProperties;
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div style={{ ...styles.screenShare, ...style }}>
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        style={{ ...styles.video, objectFit: 'contain' }}
+      />
+      <div style={styles.label}>🖥️ {label}</div>
     </div>
   );
 }
@@ -189,4 +386,44 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: '4px',
     fontSize: '14px',
   },
+  qualityBadge: {
+    position: 'absolute',
+    top: '10px',
+    right: '10px',
+    backgroundColor: 'rgba(255, 152, 0, 0.85)',
+    color: 'white',
+    padding: '4px 8px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontWeight: 'bold',
+  },
+  speakingRing: {
+    position: 'absolute',
+    inset: 0,
+    border: '3px solid #4CAF50',
+    borderRadius: '8px',
+    pointerEvents: 'none',
+  },
+  screenShare: {
+    position: 'relative',
+    backgroundColor: '#000',
+    borderRadius: '8px',
+    overflow: 'hidden',
+    width: '100%',
+    height: '100%',
+    minHeight: 0,
+  },
+  stageLayout: {
+    display: 'grid',
+    gridTemplateRows: `1fr ${FILMSTRIP_HEIGHT}px`,
+    gap: '12px',
+    padding: '20px',
+    width: '100%',
+    height: 'calc(100vh - 150px)',
+  },
+  filmstrip: {
+    display: 'flex',
+    gap: '12px',
+    overflowX: 'auto',
+  },
 };
@@ -1,21 +1,46 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { getUserId, isLoggedIn, clearUser } from '../services/auth';
+import { getUserId, isLoggedIn, logout } from '../services/auth';
 import {
   getRecordings,
+  getSharedRecordings,
+  shareRecording,
   updateRecordingTitle,
   deleteRecording,
-  getVideoUrl,
+  getRecordingStatus,
+  searchRecordings,
   Recording,
+  SearchField,
+  SearchResult,
 } from '../services/api';
 import { RecordingItem } from '../components/RecordingItem';
+import { RecordingPlayer } from '../components/RecordingPlayer';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  title: 'Title',
+  meetingId: 'Meeting ID',
+  participant: 'Participant',
+  transcript: 'Transcript',
+};
+
+const formatTimestamp = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
 
 export function History() {
   const navigate = useNavigate();
   const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [sharedRecordings, setSharedRecordings] = useState<Recording[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [playingRecording, setPlayingRecording] = useState<Recording | null>(null);
+  const [playingStartAt, setPlayingStartAt] = useState<number | undefined>(undefined);
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
 
   useEffect(() => {
     // Check if user is logged in
@@ -27,6 +52,65 @@ export function History() {
     loadRecordings();
   }, [navigate]);
 
+  // Poll recordings that are still being composed, getting their preview images or being transcribed
+  useEffect(() => {
+    const isPending = (job?: { status: string }) => job?.status === 'queued' || job?.status === 'running';
+    const pending = recordings.filter(
+      (rec) => isPending(rec.composition) || isPending(rec.preview) || isPending(rec.transcript)
+    );
+    if (pending.length === 0) return;
+
+    const interval = setInterval(async () => {
+      for (const rec of pending) {
+        try {
+          const { status, error, updatedAt, preview, transcript } = await getRecordingStatus(rec.recordingId);
+          if (
+            status === rec.composition?.status &&
+            preview?.status === rec.preview?.status &&
+            transcript?.status === rec.transcript?.status
+          ) continue;
+
+          setRecordings((prev) =>
+            prev.map((r) =>
+              r.recordingId === rec.recordingId
+                ? { ...r, composition: r.composition && { status, error, updatedAt }, preview, transcript }
+                : r
+            )
+          );
+        } catch (err) {
+          console.error('[History] Error polling recording status:', err);
+        }
+      }
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [recordings]);
+
+  // Search once typing pauses; an empty box goes back to the full list
+  useEffect(() => {
+    const trimmed = query.trim();
+    let cancelled = false;
+
+    const timeout = setTimeout(async () => {
+      if (!trimmed) {
+        setSearchResults(null);
+        return;
+      }
+
+      try {
+        const results = await searchRecordings(trimmed);
+        if (!cancelled) setSearchResults(results);
+      } catch (err) {
+        console.error('[History] Error searching recordings:', err);
+      }
+    }, trimmed ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
   const loadRecordings = async () => {
     try {
       const userId = getUserId();
@@ -34,8 +118,9 @@ export function History() {
         throw new Error('User ID not found');
       }
 
-      const data = await getRecordings(userId);
-      setRecordings(data);
+      const [own, shared] = await Promise.all([getRecordings(), getSharedRecordings()]);
+      setRecordings(own);
+      setSharedRecordings(shared);
       setLoading(false);
     } catch (err) {
       console.error('[History] Error loading recordings:', err);
@@ -44,20 +129,19 @@ export function History() {
     }
   };
 
-  const handlePlay = (recording: Recording) => {
+  const handlePlay = (recording: Recording, startAt?: number) => {
     setPlayingRecording(recording);
+    setPlayingStartAt(startAt);
   };
 
   const handleClosePlayer = () => {
     setPlayingRecording(null);
+    setPlayingStartAt(undefined);
   };
 
   const handleRename = async (recordingId: string, newTitle: string) => {
     try {
-      const userId = getUserId();
-      if (!userId) return;
-
-      await updateRecordingTitle(recordingId, newTitle, userId);
+      await updateRecordingTitle(recordingId, newTitle);
       
       // Update local state
       setRecordings((prev) =>
@@ -65,6 +149,14 @@ export function History() {
           rec.recordingId === recordingId ? { ...rec, title: newTitle } : rec
         )
       );
+      setSearchResults((prev) =>
+        prev &&
+        prev.map((result) =>
+          result.recording.recordingId === recordingId
+            ? { ...result, recording: { ...result.recording, title: newTitle } }
+            : result
+        )
+      );
     } catch (err) {
       console.error('[History] Error renaming recording:', err);
       alert('Failed to rename recording');
@@ -73,27 +165,85 @@ export function History() {
 
   const handleDelete = async (recordingId: string) => {
     try {
-      const userId = getUserId();
-      if (!userId) return;
-
-      await deleteRecording(recordingId, userId);
+      await deleteRecording(recordingId);
       
       // Show success message (async deletion)
       alert('Deleted successfully!');
       
       // Remove from local state immediately
       setRecordings((prev) => prev.filter((rec) => rec.recordingId !== recordingId));
+      setSearchResults((prev) => prev && prev.filter((result) => result.recording.recordingId !== recordingId));
     } catch (err) {
       console.error('[History] Error deleting recording:', err);
       alert('Failed to delete recording');
     }
   };
 
-  const handleLogout = () => {
-    clearUser();
+  const handleShare = async (recordingId: string) => {
+    const username = prompt('Share with username (leave empty to create a share link):');
+    if (username === null) return;
+
+    try {
+      const { shareUrl } = await shareRecording(recordingId, username.trim() || undefined);
+
+      if (shareUrl) {
+        prompt('Anyone with this link can watch the recording:', `${window.location.origin}${shareUrl}`);
+      } else {
+        alert(`Shared with ${username.trim()}`);
+      }
+    } catch (err) {
+      console.error('[History] Error sharing recording:', err);
+      alert(err instanceof Error ? err.message : 'Failed to share recording');
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
     navigate('/');
   };
 
+  const renderSearchResults = (results: SearchResult[]) => {
+    if (results.length === 0) {
+      return (
+        <div style={styles.empty}>
+          <h2>No matches</h2>
+          <p>Nothing in your recordings matches "{query.trim()}".</p>
+        </div>
+      );
+    }
+
+    return (
+      <div style={styles.list}>
+        {results.map(({ recording, fields, moments }) => (
+          <div key={recording.recordingId} style={styles.searchResult}>
+            <div style={styles.searchResultHeader}>
+              <button onClick={() => handlePlay(recording)} style={styles.searchResultTitle} title="Play recording">
+                ▶️ {recording.title}
+              </button>
+              <span style={styles.searchResultMeta}>
+                📅 {new Date(recording.createdAt).toLocaleString()}
+                {recording.userId !== getUserId() && ` · 👤 ${recording.username}`}
+                {' · '}Matched in {fields.map((field) => SEARCH_FIELD_LABELS[field]).join(', ')}
+              </span>
+            </div>
+
+            {moments.map((moment) => (
+              <button
+                key={moment.start}
+                onClick={() => handlePlay(recording, moment.start)}
+                style={styles.moment}
+                title="Play from here"
+              >
+                <span style={styles.momentTime}>{formatTimestamp(moment.start)}</span>
+                <span>{moment.text}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div style={styles.loading}>
@@ -129,7 +279,17 @@ export function History() {
       </div>
 
       <div style={styles.content}>
-        {recordings.length === 0 ? (
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="🔍 Search titles, participants, meeting IDs and transcripts"
+          style={styles.searchInput}
+        />
+
+        {searchResults ? (
+          renderSearchResults(searchResults)
+        ) : recordings.length === 0 ? (
           <div style={styles.empty}>
             <h2>No recordings yet</h2>
             <p>Start a meeting and click "Start Recording" to create your first recording!</p>
@@ -146,10 +306,30 @@ export function History() {
                 onPlay={handlePlay}
                 onRename={handleRename}
                 onDelete={handleDelete}
+                onShare={handleShare}
               />
             ))}
           </div>
         )}
+
+        {!searchResults && sharedRecordings.length > 0 && (
+          <>
+            <h2 style={styles.sectionTitle}>🤝 Shared with me</h2>
+            <div style={styles.list}>
+              {sharedRecordings.map((recording) => (
+                <RecordingItem
+                  key={recording.recordingId}
+                  recording={recording}
+                  onPlay={handlePlay}
+                  onRename={handleRename}
+                  onDelete={handleDelete}
+                  onShare={handleShare}
+                  shared
+                />
+              ))}
+            </div>
+          </>
+        )}
       </div>
 
       {/* Media player modal */}
@@ -162,24 +342,11 @@ export function History() {
                 ✕
               </button>
             </div>
-            {playingRecording.recordingType === 'audio' ? (
-              <div style={styles.audioContainer}>
-                <div style={styles.audioIcon}>🎵</div>
-                <audio
-                  src={getVideoUrl(playingRecording.recordingId)}
-                  controls
-                  autoPlay
-                  style={styles.audio}
-                />
-              </div>
-            ) : (
-              <video
-                src={getVideoUrl(playingRecording.recordingId)}
-                controls
-                autoPlay
-                style={styles.video}
-              />
-            )}
+            <RecordingPlayer
+              key={`${playingRecording.recordingId}-${playingStartAt ?? 0}`}
+              recording={playingRecording}
+              startAt={playingStartAt}
+            />
           </div>
         </div>
       )}
@@ -237,6 +404,69 @@ const styles: { [key: string]: React.CSSProperties } = {
     maxWidth: '1200px',
     margin: '0 auto',
   },
+  searchInput: {
+    width: '100%',
+    boxSizing: 'border-box',
+    padding: '12px 16px',
+    marginBottom: '25px',
+    fontSize: '16px',
+    borderRadius: '8px',
+    border: '2px solid #444',
+    backgroundColor: '#2a2a2a',
+    color: 'white',
+  },
+  searchResult: {
+    padding: '20px',
+    backgroundColor: '#2a2a2a',
+    borderRadius: '8px',
+    marginBottom: '15px',
+    boxShadow: '0 2px 5px rgba(0, 0, 0, 0.3)',
+  },
+  searchResultHeader: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '6px',
+    marginBottom: '10px',
+  },
+  searchResultTitle: {
+    alignSelf: 'flex-start',
+    padding: 0,
+    border: 'none',
+    backgroundColor: 'transparent',
+    color: 'white',
+    fontSize: '18px',
+    fontWeight: 'bold',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  searchResultMeta: {
+    color: '#999',
+    fontSize: '14px',
+  },
+  moment: {
+    display: 'flex',
+    gap: '12px',
+    width: '100%',
+    padding: '6px 8px',
+    border: 'none',
+    borderRadius: '4px',
+    backgroundColor: '#1a1a1a',
+    color: '#ddd',
+    fontSize: '14px',
+    textAlign: 'left',
+    cursor: 'pointer',
+    marginTop: '4px',
+  },
+  momentTime: {
+    color: '#4CAF50',
+    fontFamily: 'monospace',
+    flexShrink: 0,
+  },
+  sectionTitle: {
+    color: 'white',
+    fontSize: '22px',
+    margin: '40px 0 20px',
+  },
   list: {
     display: 'flex',
     flexDirection: 'column',
@@ -323,26 +553,5 @@ const styles: { [key: string]: React.CSSProperties } = {
     justifyContent: 'center',
     alignItems: 'center',
   },
-  video: {
-    width: '100%',
-    borderRadius: '8px',
-    backgroundColor: '#000',
-  },
-  audioContainer: {
-    display: 'flex',
-    flexDirection: 'column',
-    alignItems: 'center',
-    padding: '40px 20px',
-    backgroundColor: '#1a1a1a',
-    borderRadius: '8px',
-  },
-  audioIcon: {
-    fontSize: '80px',
-    marginBottom: '30px',
-  },
-  audio: {
-    width: '100%',
-    maxWidth: '500px',
-  },
 };
 
@@ -1,11 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { registerOrLogin, getUsername, getUserId, isLoggedIn, clearUser } from '../services/auth';
+import { register, login, logout, getUsername, getUserId, isLoggedIn } from '../services/auth';
+import { createMeeting, cancelMeeting, getUpcomingMeetings, getCalendarFeedUrl, Meeting } from '../services/api';
+import { UpcomingMeetings } from '../components/UpcomingMeetings';
+import { resumePendingUploads } from '../services/recordingUpload';
 
 export function Home() {
   const navigate = useNavigate();
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isRegistering, setIsRegistering] = useState(false);
   const [joinRoomId, setJoinRoomId] = useState('');
+  const [meetingTitle, setMeetingTitle] = useState('');
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduleStart, setScheduleStart] = useState('');
+  const [scheduleDuration, setScheduleDuration] = useState(60);
+  const [lobbyEnabled, setLobbyEnabled] = useState(false);
+  const [maxParticipants, setMaxParticipants] = useState(50);
+  const [upcomingMeetings, setUpcomingMeetings] = useState<Meeting[]>([]);
   const [loggedIn, setLoggedIn] = useState(false);
   const [currentUsername, setCurrentUsername] = useState('');
   const [currentUserId, setCurrentUserId] = useState('');
@@ -21,37 +33,120 @@ export function Home() {
     }
   }, []);
 
-  const handleRegister = async () => {
+  useEffect(() => {
+    if (loggedIn) {
+      loadUpcomingMeetings();
+      finishPendingUploads();
+    }
+  }, [loggedIn]);
+
+  const loadUpcomingMeetings = async () => {
+    try {
+      setUpcomingMeetings(await getUpcomingMeetings());
+    } catch (err) {
+      console.error('[Home] Error loading upcoming meetings:', err);
+    }
+  };
+
+  // Recordings whose upload was cut short by a reload or a dropped connection
+  const finishPendingUploads = async () => {
+    const recordingIds = await resumePendingUploads();
+    if (recordingIds.length > 0) {
+      console.log(`[Home] Finished ${recordingIds.length} interrupted recording upload(s)`);
+    }
+  };
+
+  const handleAuthenticate = async () => {
     if (!username.trim()) {
       setError('Please enter a username');
       return;
     }
 
+    if (!password) {
+      setError('Please enter a password');
+      return;
+    }
+
     setLoading(true);
     setError('');
 
     try {
-      const user = await registerOrLogin(username.trim());
+      const user = isRegistering
+        ? await register(username.trim(), password)
+        : await login(username.trim(), password);
       setLoggedIn(true);
       setCurrentUsername(user.username);
       setCurrentUserId(user.userId);
       setUsername('');
+      setPassword('');
     } catch (err) {
-      setError('Failed to register. Please try again.');
+      const fallback = isRegistering ? 'Failed to register. Please try again.' : 'Failed to log in. Please try again.';
+      setError(err instanceof Error && err.message ? err.message : fallback);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCreateMeeting = () => {
+  const handleCreateMeeting = async () => {
     if (!loggedIn) {
       setError('Please register/login first');
       return;
     }
 
-    // Generate meeting ID (will be done properly on backend)
-    const meetingId = `${Math.random().toString(36).substring(2, 10)}-${Date.now()}`;
-    navigate(`/meeting/${meetingId}`);
+    if (scheduling && !scheduleStart) {
+      setError('Please pick a start time');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const meeting = await createMeeting({
+        title: meetingTitle.trim() || undefined,
+        // datetime-local values are in the browser's local time
+        scheduledStart: scheduling ? new Date(scheduleStart).getTime() : undefined,
+        durationMinutes: scheduling ? scheduleDuration : undefined,
+        timeZone: scheduling ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined,
+        settings: { lobbyEnabled, maxParticipants },
+      });
+
+      if (!scheduling) {
+        navigate(`/meeting/${meeting.meetingId}`);
+        return;
+      }
+
+      // Scheduled meetings are joined later from the upcoming list
+      setMeetingTitle('');
+      setScheduleStart('');
+      setScheduling(false);
+      setLobbyEnabled(false);
+      await loadUpcomingMeetings();
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to create meeting');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelMeeting = async (meetingId: string) => {
+    try {
+      await cancelMeeting(meetingId);
+      setUpcomingMeetings((prev) => prev.filter((m) => m.meetingId !== meetingId));
+    } catch (err) {
+      console.error('[Home] Error cancelling meeting:', err);
+      alert('Failed to cancel meeting');
+    }
+  };
+
+  const handleSubscribeCalendar = async () => {
+    try {
+      const feedUrl = await getCalendarFeedUrl();
+      prompt('Add this URL to your calendar app as a subscription. Keep it private:', feedUrl);
+    } catch (err) {
+      console.error('[Home] Error getting calendar feed:', err);
+      alert('Failed to get calendar feed');
+    }
   };
 
   const handleJoinMeeting = () => {
@@ -68,11 +163,12 @@ export function Home() {
     navigate(`/meeting/${joinRoomId.trim()}`);
   };
 
-  const handleLogout = () => {
-    clearUser();
+  const handleLogout = async () => {
+    await logout();
     setLoggedIn(false);
     setCurrentUsername('');
     setCurrentUserId('');
+    setUpcomingMeetings([]);
   };
 
   return (
@@ -83,22 +179,41 @@ export function Home() {
 
         {!loggedIn ? (
           <div style={styles.section}>
-            <h2 style={styles.sectionTitle}>Enter Your Name</h2>
+            <h2 style={styles.sectionTitle}>{isRegistering ? 'Create an Account' : 'Log In'}</h2>
             <input
               type="text"
               value={username}
               onChange={(e) => setUsername(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleRegister()}
+              onKeyDown={(e) => e.key === 'Enter' && handleAuthenticate()}
               placeholder="Your display name"
               style={styles.input}
               disabled={loading}
             />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAuthenticate()}
+              placeholder={isRegistering ? 'Choose a password (min. 8 characters)' : 'Password'}
+              style={styles.input}
+              disabled={loading}
+            />
             <button
-              onClick={handleRegister}
+              onClick={handleAuthenticate}
               style={styles.primaryButton}
               disabled={loading}
             >
-              {loading ? 'Loading...' : 'Continue'}
+              {loading ? 'Loading...' : isRegistering ? 'Create Account' : 'Log In'}
+            </button>
+            <button
+              onClick={() => {
+                setIsRegistering(!isRegistering);
+                setError('');
+              }}
+              style={styles.linkButton}
+              disabled={loading}
+            >
+              {isRegistering ? 'Already have an account? Log in' : 'New here? Create an account'}
             </button>
           </div>
         ) : (
@@ -115,8 +230,84 @@ export function Home() {
 
             <div style={styles.section}>
               <h2 style={styles.sectionTitle}>Create a Meeting</h2>
-              <button onClick={handleCreateMeeting} style={styles.primaryButton}>
-                📹 Create New Meeting
+              <input
+                type="text"
+                value={meetingTitle}
+                onChange={(e) => setMeetingTitle(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateMeeting()}
+                placeholder="Meeting title (optional)"
+                style={styles.input}
+                disabled={loading}
+              />
+              <label style={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={scheduling}
+                  onChange={(e) => setScheduling(e.target.checked)}
+                  disabled={loading}
+                />
+                Schedule for later
+              </label>
+              <label style={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={lobbyEnabled}
+                  onChange={(e) => setLobbyEnabled(e.target.checked)}
+                  disabled={loading}
+                />
+                Enable waiting room (admit people yourself)
+              </label>
+              <label style={styles.checkboxLabel}>
+                Max participants
+                <select
+                  value={maxParticipants}
+                  onChange={(e) => setMaxParticipants(Number(e.target.value))}
+                  disabled={loading}
+                >
+                  {[2, 5, 10, 25, 50, 100].map((count) => (
+                    <option key={count} value={count}>
+                      {count}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {scheduling && (
+                <div style={styles.scheduleRow}>
+                  <input
+                    type="datetime-local"
+                    value={scheduleStart}
+                    onChange={(e) => setScheduleStart(e.target.value)}
+                    style={{ ...styles.input, flex: 2 }}
+                    disabled={loading}
+                  />
+                  <select
+                    value={scheduleDuration}
+                    onChange={(e) => setScheduleDuration(Number(e.target.value))}
+                    style={{ ...styles.input, flex: 1 }}
+                    disabled={loading}
+                  >
+                    {[15, 30, 45, 60, 90, 120].map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes} min
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <button onClick={handleCreateMeeting} style={styles.primaryButton} disabled={loading}>
+                {loading ? 'Creating...' : scheduling ? '📅 Schedule Meeting' : '📹 Create New Meeting'}
+              </button>
+            </div>
+
+            <div style={styles.section}>
+              <h2 style={styles.sectionTitle}>Upcoming Meetings</h2>
+              <UpcomingMeetings
+                meetings={upcomingMeetings}
+                onJoin={(meetingId) => navigate(`/meeting/${meetingId}`)}
+                onCancel={handleCancelMeeting}
+              />
+              <button onClick={handleSubscribeCalendar} style={styles.linkButton}>
+                📅 Subscribe to your meetings in a calendar app
               </button>
             </div>
 
@@ -223,6 +414,16 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     transition: 'all 0.3s',
   },
+  linkButton: {
+    width: '100%',
+    marginTop: '10px',
+    padding: '8px',
+    fontSize: '14px',
+    backgroundColor: 'transparent',
+    color: '#2196F3',
+    border: 'none',
+    cursor: 'pointer',
+  },
   input: {
     width: '100%',
     padding: '15px',
@@ -234,6 +435,19 @@ const styles: { [key: string]: React.CSSProperties } = {
     marginBottom: '15px',
     boxSizing: 'border-box',
   },
+  checkboxLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    color: '#ccc',
+    fontSize: '14px',
+    marginBottom: '15px',
+    cursor: 'pointer',
+  },
+  scheduleRow: {
+    display: 'flex',
+    gap: '10px',
+  },
   primaryButton: {
     width: '100%',
     padding: '15px',
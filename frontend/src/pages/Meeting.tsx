@@ -1,12 +1,13 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { getUserId, getUsername, isLoggedIn } from '../services/auth';
-import { WebRTCManager, Peer } from '../services/webrtc';
+import { isLoggedIn, getUsername } from '../services/auth';
+import { WebRTCManager, Peer, PeerRole, LobbyEntry, QualityState } from '../services/webrtc';
 import { CallRecorder } from '../services/recorder';
-import { uploadRecording } from '../services/api';
-import { VideoGrid } from '../components/VideoGrid';
+import { RecordingUpload } from '../services/recordingUpload';
+import { VideoGrid, VideoLayout } from '../components/VideoGrid';
 import { Controls } from '../components/Controls';
-import { RecordingMode } from '../types/recording';
+import { LobbyPanel } from '../components/LobbyPanel';
+import { RecordingMode, RecordingLayout } from '../types/recording';
 
 export function Meeting() {
   const { roomId } = useParams<{ roomId: string }>();
@@ -19,11 +20,28 @@ export function Meeting() {
   const [recording, setRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [recordingMode, setRecordingMode] = useState<RecordingMode | null>(null);
+  const [serverRecording, setServerRecording] = useState(false);
+  const [recordingEnabled, setRecordingEnabled] = useState(true);
+  const [waitingInLobby, setWaitingInLobby] = useState(false);
+  const [lobby, setLobby] = useState<LobbyEntry[]>([]);
+  const [participants, setParticipants] = useState<Peer[]>([]);
+  const [localRole, setLocalRole] = useState<PeerRole>('participant');
+  const [roomLocked, setRoomLocked] = useState(false);
+  const [maxParticipants, setMaxParticipants] = useState<number | undefined>(undefined);
+  const [quality, setQuality] = useState<QualityState>('good');
+  const [layout, setLayout] = useState<VideoLayout>('grid');
+  const [featuredPeerId, setFeaturedPeerId] = useState<string | undefined>(undefined);
+  const [speakingPeerIds, setSpeakingPeerIds] = useState<Set<string>>(new Set());
+  const [localPeerId, setLocalPeerId] = useState<string | undefined>(undefined);
+  const [screenShares, setScreenShares] = useState<Map<string, { stream: MediaStream; username: string }>>(new Map());
+  const [localScreenStream, setLocalScreenStream] = useState<MediaStream | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
   const webrtcRef = useRef<WebRTCManager | null>(null);
   const recorderRef = useRef<CallRecorder>(new CallRecorder());
+  const uploadRef = useRef<RecordingUpload | null>(null);
+  const recordedParticipantsRef = useRef<Set<string>>(new Set()); // everyone seen while recording, for search
   const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
@@ -46,13 +64,16 @@ export function Meeting() {
     };
   }, [roomId, navigate]);
 
+  // People who join mid-recording were in it too
+  useEffect(() => {
+    if (!recording) return;
+    participants.forEach((peer) => recordedParticipantsRef.current.add(peer.username));
+  }, [recording, participants]);
+
   const initWebRTC = async () => {
     try {
-      const userId = getUserId();
-      const username = getUsername();
-
-      if (!userId || !username || !roomId) {
-        throw new Error('Missing user information');
+      if (!roomId) {
+        throw new Error('Missing meeting information');
       }
 
       // Create WebRTC manager
@@ -66,15 +87,39 @@ export function Meeting() {
 
       webrtc.onPeerJoined = (peer: Peer) => {
         console.log('[Meeting] Peer joined:', peer);
+        setParticipants(webrtc.getPeers());
       };
 
       webrtc.onPeerLeft = (peerId: string) => {
         console.log('[Meeting] Peer left:', peerId);
+        setParticipants(webrtc.getPeers());
         setRemoteStreams((prev) => {
           const newMap = new Map(prev);
           newMap.delete(peerId);
           return newMap;
         });
+        setScreenShares((prev) => {
+          const newMap = new Map(prev);
+          newMap.delete(peerId);
+          return newMap;
+        });
+      };
+
+      webrtc.onRemoteScreenShare = (peerId, stream) => {
+        const peer = webrtc.getPeers().find(p => p.peerId === peerId);
+        setScreenShares((prev) => {
+          const newMap = new Map(prev);
+          if (stream) {
+            newMap.set(peerId, { stream, username: peer?.username || 'Unknown' });
+          } else {
+            newMap.delete(peerId);
+          }
+          return newMap;
+        });
+      };
+
+      webrtc.onLocalScreenShare = (stream) => {
+        setLocalScreenStream(stream);
       };
 
       webrtc.onRemoteStream = (peerId: string, stream: MediaStream) => {
@@ -90,8 +135,75 @@ export function Meeting() {
         });
       };
 
+      webrtc.onServerRecordingStateChanged = (isRecording: boolean) => {
+        setServerRecording(isRecording);
+      };
+
+      webrtc.onMeetingInfo = (meeting) => {
+        setRecordingEnabled(meeting.settings.recordingEnabled);
+      };
+
+      webrtc.onLobbyWaiting = () => {
+        setWaitingInLobby(true);
+      };
+
+      webrtc.onLobbyUpdated = (waiting) => {
+        setLobby(waiting);
+      };
+
+      webrtc.onPeerRoleChanged = () => {
+        setLocalRole(webrtc.getRole());
+        setParticipants(webrtc.getPeers());
+      };
+
+      webrtc.onRoomRestarted = () => {
+        // Everyone rejoins; streams come back as peers reconnect
+        setRemoteStreams(new Map());
+        setParticipants([]);
+        setQuality('good');
+      };
+
+      webrtc.onQualityChanged = (state) => {
+        setQuality(state);
+      };
+
+      webrtc.onActiveSpeaker = (peerId) => {
+        // Speaker view keeps showing the last remote speaker while we talk ourselves
+        if (peerId !== webrtc.getLocalPeerId()) {
+          setFeaturedPeerId(peerId);
+        }
+      };
+
+      webrtc.onAudioLevels = (levels) => {
+        setSpeakingPeerIds(new Set(levels.map(level => level.peerId)));
+      };
+
+      webrtc.onRoomStateChanged = (state) => {
+        setRoomLocked(state.locked);
+        setMaxParticipants(state.maxParticipants);
+      };
+
+      webrtc.onModerated = (action, message) => {
+        if (action === 'removed') {
+          webrtc.disconnect();
+          setError(message);
+          return;
+        }
+        if (action === 'muted') {
+          setMicEnabled(false);
+        }
+        if (action === 'videoStopped') {
+          setCameraEnabled(false);
+        }
+        alert(message);
+      };
+
       // Connect to room
-      await webrtc.connect(roomId, userId, username);
+      await webrtc.connect(roomId);
+      setLocalPeerId(webrtc.getLocalPeerId());
+      setWaitingInLobby(false);
+      setLocalRole(webrtc.getRole());
+      setParticipants(webrtc.getPeers());
 
       // Start producing media
       await webrtc.startProducing();
@@ -127,12 +239,40 @@ export function Meeting() {
     }
   };
 
-  const handleStartRecording = (mode: RecordingMode) => {
+  const handleToggleScreenShare = async () => {
+    if (!webrtcRef.current) return;
+
+    if (localScreenStream) {
+      webrtcRef.current.stopScreenShare();
+      return;
+    }
+
+    try {
+      await webrtcRef.current.startScreenShare();
+    } catch (err) {
+      // Closing the browser's picker isn't an error
+      if (err instanceof Error && err.name !== 'NotAllowedError') {
+        console.error('[Meeting] Error sharing screen:', err);
+        alert(`Failed to share screen: ${err.message}`);
+      }
+    }
+  };
+
+  const handleStartRecording = async (mode: RecordingMode, layout: RecordingLayout) => {
     try {
       if (!webrtcRef.current) {
         throw new Error('WebRTC not initialized');
       }
 
+      if (!roomId) {
+        throw new Error('Missing meeting information');
+      }
+
+      // Open the upload first so the recording can be streamed to the server while it runs
+      const title = `Recording - ${new Date().toLocaleString()}`;
+      const upload = await RecordingUpload.start(roomId, title, mode, layout);
+      uploadRef.current = upload;
+
       // Get the appropriate stream based on recording mode
       let streamToRecord: MediaStream;
       
@@ -141,15 +281,16 @@ export function Meeting() {
           streamToRecord = webrtcRef.current.getAudioOnlyStream();
           break;
         case 'video':
-          streamToRecord = webrtcRef.current.getVideoOnlyStream();
+          streamToRecord = webrtcRef.current.getVideoOnlyStream(layout);
           break;
         case 'both':
         default:
-          streamToRecord = webrtcRef.current.getMixedStreamForRecording();
+          streamToRecord = webrtcRef.current.getMixedStreamForRecording(layout);
           break;
       }
 
-      recorderRef.current.start(streamToRecord, mode);
+      recordedParticipantsRef.current = new Set([getUsername() || '', ...participants.map((peer) => peer.username)]);
+      recorderRef.current.start(streamToRecord, mode, (chunk) => upload.append(chunk));
       setRecording(true);
       setRecordingMode(mode);
       setRecordingDuration(0);
@@ -173,8 +314,7 @@ export function Meeting() {
         recordingIntervalRef.current = null;
       }
 
-      const { blob, duration } = await recorderRef.current.stop();
-      const currentMode = recordingMode;
+      const { duration } = await recorderRef.current.stop();
       
       // Stop the mixer to release resources
       webrtcRef.current?.stopMixer();
@@ -182,23 +322,20 @@ export function Meeting() {
       setRecording(false);
       setRecordingMode(null);
 
-      console.log('[Meeting] Recording stopped, uploading...');
+      console.log('[Meeting] Recording stopped, finishing upload...');
 
-      // Upload recording
-      const userId = getUserId();
-      const username = getUsername();
-
-      if (!userId || !username || !roomId) {
-        throw new Error('Missing user information');
+      const upload = uploadRef.current;
+      uploadRef.current = null;
+      if (!upload) {
+        throw new Error('Missing recording upload');
       }
 
-      const title = `Recording - ${new Date().toLocaleString()}`;
-      await uploadRecording(userId, roomId, username, title, duration, blob, currentMode || 'both');
+      await upload.finish(duration, [...recordedParticipantsRef.current].filter(Boolean));
 
       alert('Recording uploaded successfully!');
     } catch (err) {
       console.error('[Meeting] Error stopping recording:', err);
-      alert('Failed to save recording');
+      alert('Failed to save recording. The upload will be retried the next time you open the home page.');
       // Still try to stop the mixer even if there's an error
       webrtcRef.current?.stopMixer();
       setRecording(false);
@@ -206,6 +343,67 @@ export function Meeting() {
     }
   };
 
+  const handleStartServerRecording = async () => {
+    try {
+      if (!webrtcRef.current) {
+        throw new Error('WebRTC not initialized');
+      }
+
+      await webrtcRef.current.startServerRecording();
+      console.log('[Meeting] Server recording started');
+    } catch (err) {
+      console.error('[Meeting] Error starting server recording:', err);
+      alert('Failed to start server recording');
+    }
+  };
+
+  const handleStopServerRecording = async () => {
+    try {
+      if (!webrtcRef.current) {
+        throw new Error('WebRTC not initialized');
+      }
+
+      await webrtcRef.current.stopServerRecording();
+      alert('Server recording saved!');
+    } catch (err) {
+      console.error('[Meeting] Error stopping server recording:', err);
+      alert('Failed to stop server recording');
+    }
+  };
+
+  const handleAdmit = async (peerId: string) => {
+    try {
+      await webrtcRef.current?.admitPeer(peerId);
+    } catch (err) {
+      console.error('[Meeting] Error admitting participant:', err);
+    }
+  };
+
+  const handleDeny = async (peerId: string) => {
+    try {
+      await webrtcRef.current?.denyPeer(peerId);
+    } catch (err) {
+      console.error('[Meeting] Error denying participant:', err);
+    }
+  };
+
+  const handleModeration = async (action: () => Promise<void> | undefined) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error('[Meeting] Moderation failed:', err);
+      alert(err instanceof Error ? err.message : 'Moderation failed');
+    }
+  };
+
+  const handleToggleRoomLock = () => {
+    handleModeration(() => webrtcRef.current?.setRoomLocked(!roomLocked));
+  };
+
+  const handleTileResize = (peerId: string, width: number, height: number) => {
+    webrtcRef.current?.setPreferredVideoSize(peerId, width, height);
+  };
+
   const handleLeave = () => {
     if (confirm('Are you sure you want to leave the meeting?')) {
       cleanup();
@@ -218,6 +416,18 @@ export function Meeting() {
     navigator.clipboard.writeText(link);
   };
 
+  if (loading && waitingInLobby) {
+    return (
+      <div style={styles.error}>
+        <h2>Waiting for the host to let you in...</h2>
+        <p style={styles.subtitle}>The host has been told you're here.</p>
+        <button onClick={() => navigate('/')} style={{ ...styles.button, backgroundColor: '#f44336' }}>
+          Leave
+        </button>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div style={styles.loading}>
@@ -241,26 +451,64 @@ export function Meeting() {
   return (
     <div style={styles.container}>
       <div style={styles.header}>
-        <h2 style={styles.title}>Meeting: {roomId?.substring(0, 12)}...</h2>
-        <p style={styles.subtitle}>
-          Participants: {remoteStreams.size + 1}
-        </p>
+        <div>
+          <h2 style={styles.title}>Meeting: {roomId?.substring(0, 12)}...</h2>
+          <p style={styles.subtitle}>
+            Participants: {remoteStreams.size + 1}
+            {maxParticipants ? ` / ${maxParticipants}` : ''}
+            {roomLocked && ' · 🔒 Locked'}
+          </p>
+        </div>
+        <button
+          onClick={() => setLayout(layout === 'grid' ? 'speaker' : 'grid')}
+          style={styles.layoutButton}
+          title={layout === 'grid' ? 'Enlarge whoever is speaking' : 'Show everyone the same size'}
+        >
+          {layout === 'grid' ? '🗣️ Speaker view' : '▦ Grid view'}
+        </button>
       </div>
 
-      <VideoGrid localStream={localStream} remoteStreams={remoteStreams} />
+      <VideoGrid
+        localStream={localStream}
+        remoteStreams={remoteStreams}
+        onTileResize={handleTileResize}
+        quality={quality}
+        layout={layout}
+        localPeerId={localPeerId}
+        featuredPeerId={featuredPeerId}
+        speakingPeerIds={speakingPeerIds}
+        screenShares={screenShares}
+        localScreenStream={localScreenStream}
+      />
+
+      <LobbyPanel waiting={lobby} onAdmit={handleAdmit} onDeny={handleDeny} />
 
       <Controls
         micEnabled={micEnabled}
         cameraEnabled={cameraEnabled}
+        screenSharing={!!localScreenStream}
         recording={recording}
         recordingDuration={recordingDuration}
         recordingMode={recordingMode || undefined}
+        serverRecording={serverRecording}
+        recordingEnabled={recordingEnabled}
+        participants={participants}
+        localRole={localRole}
+        roomLocked={roomLocked}
         onToggleMic={handleToggleMic}
         onToggleCamera={handleToggleCamera}
+        onToggleScreenShare={handleToggleScreenShare}
         onStartRecording={handleStartRecording}
         onStopRecording={handleStopRecording}
+        onStartServerRecording={handleStartServerRecording}
+        onStopServerRecording={handleStopServerRecording}
         onLeave={handleLeave}
         onCopyLink={handleCopyLink}
+        onMuteParticipant={(peerId) => handleModeration(() => webrtcRef.current?.muteParticipant(peerId))}
+        onStopParticipantVideo={(peerId) => handleModeration(() => webrtcRef.current?.stopParticipantVideo(peerId))}
+        onRemoveParticipant={(peerId) => handleModeration(() => webrtcRef.current?.removeParticipant(peerId))}
+        onSetParticipantRole={(peerId, role) => handleModeration(() => webrtcRef.current?.setParticipantRole(peerId, role))}
+        onToggleRoomLock={handleToggleRoomLock}
       />
     </div>
   );
@@ -277,6 +525,10 @@ const styles: { [key: string]: React.CSSProperties } = {
     backgroundColor: '#2a2a2a',
     padding: '15px 20px',
     boxShadow: '0 2px 5px rgba(0, 0, 0, 0.3)',
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: '10px',
   },
   title: {
     color: 'white',
@@ -288,6 +540,16 @@ const styles: { [key: string]: React.CSSProperties } = {
     margin: '0',
     fontSize: '14px',
   },
+  layoutButton: {
+    padding: '8px 14px',
+    fontSize: '14px',
+    backgroundColor: '#3a3a3a',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    flexShrink: 0,
+  },
   loading: {
     minHeight: '100vh',
     display: 'flex',
@@ -1,4 +1,82 @@
-import { RecordingMode } from '../types/recording';
+import { RecordingMode, RecordingLayout } from '../types/recording';
+import { getToken, clearUser } from './auth';
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+export interface RecordingStatus {
+  recordingId: string;
+  status: JobStatus;
+  error?: string;
+  updatedAt: number;
+  preview?: RecordingPreview;
+  exports?: RecordingExports;
+  transcript?: RecordingTranscript;
+}
+
+export interface RecordingGrant {
+  grantId: string;
+  type: 'user' | 'link';
+  userId?: string;
+  username?: string;
+  token?: string;
+  createdAt: number;
+}
+
+// Sprite sheet of evenly spaced frames, laid out left to right, top to bottom
+export interface RecordingSprite {
+  filename: string;
+  frames: number;
+  columns: number;
+  rows: number;
+  interval: number; // seconds between frames
+  tileWidth: number;
+  tileHeight: number;
+}
+
+export interface RecordingPreview {
+  status: JobStatus;
+  error?: string;
+  updatedAt: number;
+  poster?: string;
+  sprite?: RecordingSprite;
+  waveform?: string;
+}
+
+// Transcoded download formats; the stored WebM is always available as is
+export type ExportFormat = 'mp4' | 'm4a';
+export type DownloadFormat = 'webm' | ExportFormat;
+
+export interface RecordingExport {
+  status: JobStatus;
+  error?: string;
+  updatedAt: number;
+  progress: number; // 0 to 1
+  filename?: string;
+}
+
+export type RecordingExports = Partial<Record<ExportFormat, RecordingExport>>;
+
+export interface RecordingTranscript {
+  status: JobStatus;
+  error?: string;
+  updatedAt: number;
+  engine?: string;
+  language?: string;
+}
+
+// A timed piece of a transcript, in seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  recordingId: string;
+  engine: string;
+  language?: string;
+  segments: TranscriptSegment[];
+}
 
 export interface Recording {
   recordingId: string;
@@ -10,52 +88,224 @@ export interface Recording {
   duration: number;
   createdAt: number;
   recordingType?: RecordingMode;
+  layout?: RecordingLayout;
+  participants?: string[];
+  source?: 'client' | 'server';
+  composition?: {
+    status: JobStatus;
+    error?: string;
+    updatedAt: number;
+  };
+  preview?: RecordingPreview;
+  exports?: RecordingExports;
+  transcript?: RecordingTranscript;
+  grants?: RecordingGrant[];
+}
+
+export type SearchField = 'title' | 'meetingId' | 'participant' | 'transcript';
+
+// A matching transcript segment: a point in the media to jump to
+export interface SearchMoment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SearchResult {
+  recording: Recording;
+  score: number;
+  fields: SearchField[];
+  moments: SearchMoment[];
+}
+
+export interface MeetingSettings {
+  recordingEnabled: boolean;
+  earlyJoinMinutes: number;
+  lobbyEnabled: boolean;
+  maxParticipants?: number;
+}
+
+export type MeetingWindowState = 'early' | 'open' | 'expired' | 'cancelled';
+
+export interface Meeting {
+  meetingId: string;
+  ownerId: string;
+  ownerUsername: string;
+  title: string;
+  createdAt: number;
+  expiresAt: number;
+  scheduledStart?: number;
+  durationMinutes?: number;
+  timeZone?: string;
+  sequence?: number;
+  cancelledAt?: number;
+  settings: MeetingSettings;
+  opensAt: number;
+  closesAt: number;
+  state: MeetingWindowState;
+}
+
+export interface CreateMeetingOptions {
+  title?: string;
+  expiresInHours?: number;
+  scheduledStart?: number;
+  durationMinutes?: number;
+  timeZone?: string;
+  settings?: Partial<MeetingSettings>;
+}
+
+/**
+ * fetch() wrapper that sends the session token with every request
+ * A 401 means the session is gone, so the local user data is cleared
+ */
+async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getToken();
+
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+
+  if (response.status === 401) {
+    clearUser();
+  }
+
+  return response;
 }
 
 /**
- * Upload a recording to the backend
+ * Start a chunked, resumable recording upload
  */
-export async function uploadRecording(
-  userId: string,
+export async function createRecordingUpload(
   meetingId: string,
-  username: string,
   title: string,
+  recordingType: RecordingMode = 'both',
+  layout: RecordingLayout = 'grid'
+): Promise<{ uploadId: string; offset: number }> {
+  try {
+    const response = await authFetch(`/api/recordings/uploads`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ meetingId, title, recordingType, layout }),
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to start recording upload');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error starting recording upload:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get how many bytes of an upload the server has stored
+ * Returns null when the upload no longer exists
+ */
+export async function getRecordingUploadOffset(uploadId: string): Promise<number | null> {
+  try {
+    const response = await authFetch(`/api/recordings/uploads/${uploadId}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error('Failed to get recording upload');
+    }
+
+    const data = await response.json();
+    return data.offset;
+  } catch (error) {
+    console.error('Error getting recording upload:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send one chunk of a recording at its byte offset
+ * Returns the server's offset afterwards; on an offset mismatch nothing is stored and the server's offset is returned as is
+ * Returns null when the server won't take the chunk (the upload is gone or the recording too large)
+ */
+export async function uploadRecordingChunk(uploadId: string, offset: number, chunk: Blob): Promise<number | null> {
+  const response = await authFetch(`/api/recordings/uploads/${uploadId}?offset=${offset}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+    },
+    body: chunk,
+  });
+
+  if (response.status === 404 || response.status === 413) {
+    return null;
+  }
+
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Failed to upload recording chunk (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.offset;
+}
+
+/**
+ * Turn a finished upload into a recording
+ */
+export async function completeRecordingUpload(
+  uploadId: string,
   duration: number,
-  file: Blob,
-  recordingType: RecordingMode = 'both'
+  participants: string[] = []
 ): Promise<{ recordingId: string; message: string }> {
   try {
-    const formData = new FormData();
-    formData.append('userId', userId);
-    formData.append('meetingId', meetingId);
-    formData.append('username', username);
-    formData.append('title', title);
-    formData.append('duration', duration.toString());
-    formData.append('recordingType', recordingType);
-    formData.append('file', file, 'recording.webm');
-
-    const response = await fetch(`/api/recordings`, {
+    const response = await authFetch(`/api/recordings/uploads/${uploadId}/complete`, {
       method: 'POST',
-      body: formData,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ duration, participants }),
     });
 
     if (!response.ok) {
-      throw new Error('Failed to upload recording');
+      throw new Error('Failed to complete recording upload');
     }
 
     return await response.json();
   } catch (error) {
-    console.error('Error uploading recording:', error);
+    console.error('Error completing recording upload:', error);
     throw error;
   }
 }
 
 /**
- * Get all recordings for a user
+ * Abort a recording upload and drop the bytes stored for it
  */
-export async function getRecordings(userId: string): Promise<Recording[]> {
+export async function discardRecordingUpload(uploadId: string): Promise<void> {
   try {
-    const response = await fetch(`/api/recordings?userId=${userId}`);
+    const response = await authFetch(`/api/recordings/uploads/${uploadId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error('Failed to discard recording upload');
+    }
+  } catch (error) {
+    console.error('Error discarding recording upload:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get all recordings owned by the current user
+ */
+export async function getRecordings(): Promise<Recording[]> {
+  try {
+    const response = await authFetch(`/api/recordings`);
 
     if (!response.ok) {
       throw new Error('Failed to fetch recordings');
@@ -69,12 +319,50 @@ export async function getRecordings(userId: string): Promise<Recording[]> {
   }
 }
 
+/**
+ * Search titles, meeting IDs, participants and transcripts of the user's own and shared recordings
+ */
+export async function searchRecordings(query: string): Promise<SearchResult[]> {
+  try {
+    const response = await authFetch(`/api/recordings/search?q=${encodeURIComponent(query)}`);
+
+    if (!response.ok) {
+      throw new Error('Failed to search recordings');
+    }
+
+    const data = await response.json();
+    return data.results;
+  } catch (error) {
+    console.error('Error searching recordings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get recordings other users have shared with the current user
+ */
+export async function getSharedRecordings(): Promise<Recording[]> {
+  try {
+    const response = await authFetch(`/api/recordings?scope=shared`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch shared recordings');
+    }
+
+    const data = await response.json();
+    return data.recordings;
+  } catch (error) {
+    console.error('Error fetching shared recordings:', error);
+    throw error;
+  }
+}
+
 /**
  * Get a specific recording
  */
 export async function getRecording(recordingId: string): Promise<Recording> {
   try {
-    const response = await fetch(`/api/recordings/${recordingId}`);
+    const response = await authFetch(`/api/recordings/${recordingId}`);
 
     if (!response.ok) {
       throw new Error('Failed to fetch recording');
@@ -88,6 +376,24 @@ export async function getRecording(recordingId: string): Promise<Recording> {
   }
 }
 
+/**
+ * Get the processing status of a recording
+ */
+export async function getRecordingStatus(recordingId: string): Promise<RecordingStatus> {
+  try {
+    const response = await authFetch(`/api/recordings/${recordingId}/status`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch recording status');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching recording status:', error);
+    throw error;
+  }
+}
+
 /**
  * Get video URL for a recording
  */
@@ -95,21 +401,86 @@ export function getVideoUrl(recordingId: string): string {
   return `/api/recordings/${recordingId}/video`;
 }
 
+/**
+ * Get the thumbnail URL for a recording (poster frame, or waveform for audio-only recordings)
+ */
+export function getThumbnailUrl(recordingId: string): string {
+  return `/api/recordings/${recordingId}/thumbnail`;
+}
+
+/**
+ * Get the hover-scrub sprite sheet URL for a video recording
+ */
+export function getSpriteUrl(recordingId: string): string {
+  return `/api/recordings/${recordingId}/sprite`;
+}
+
+/**
+ * Get the download URL for a recording in the given format
+ */
+export function getDownloadUrl(recordingId: string, format: DownloadFormat): string {
+  return `/api/recordings/${recordingId}/download?format=${format}`;
+}
+
+/**
+ * Ask the server for a download, queueing the export if it isn't ready yet
+ * Returns true once the file can be downloaded, false while it is being prepared
+ */
+export async function requestExport(recordingId: string, format: DownloadFormat): Promise<boolean> {
+  try {
+    const response = await authFetch(getDownloadUrl(recordingId, format), { method: 'HEAD' });
+
+    if (response.status === 202) {
+      return false;
+    }
+
+    if (!response.ok) {
+      throw new Error('Failed to prepare download');
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error preparing download:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the captions URL (WebVTT) for a recording
+ */
+export function getCaptionsUrl(recordingId: string): string {
+  return `/api/recordings/${recordingId}/transcript?format=vtt`;
+}
+
+/**
+ * Get the timestamped transcript of a recording
+ */
+export async function getTranscript(recordingId: string): Promise<Transcript> {
+  try {
+    const response = await authFetch(`/api/recordings/${recordingId}/transcript`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch transcript');
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error fetching transcript:', error);
+    throw error;
+  }
+}
+
 /**
  * Update recording title
  */
-export async function updateRecordingTitle(
-  recordingId: string,
-  title: string,
-  userId: string
-): Promise<boolean> {
+export async function updateRecordingTitle(recordingId: string, title: string): Promise<boolean> {
   try {
-    const response = await fetch(`/api/recordings/${recordingId}`, {
+    const response = await authFetch(`/api/recordings/${recordingId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ title, userId }),
+      body: JSON.stringify({ title }),
     });
 
     if (!response.ok) {
@@ -127,9 +498,9 @@ export async function updateRecordingTitle(
 /**
  * Delete a recording
  */
-export async function deleteRecording(recordingId: string, userId: string): Promise<boolean> {
+export async function deleteRecording(recordingId: string): Promise<boolean> {
   try {
-    const response = await fetch(`/api/recordings/${recordingId}?userId=${userId}`, {
+    const response = await authFetch(`/api/recordings/${recordingId}`, {
       method: 'DELETE',
     });
 
@@ -144,3 +515,123 @@ export async function deleteRecording(recordingId: string, userId: string): Prom
   }
 }
 
+
+/**
+ * Share a recording with another user, or create a share link when no username is given
+ */
+export async function shareRecording(
+  recordingId: string,
+  username?: string
+): Promise<{ grant: RecordingGrant; shareUrl?: string }> {
+  const response = await authFetch(`/api/recordings/${recordingId}/grants`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(username ? { username } : {}),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to share recording');
+  }
+
+  return data;
+}
+
+/**
+ * Create a meeting owned by the current user (scheduled if scheduledStart is given)
+ */
+export async function createMeeting(options: CreateMeetingOptions = {}): Promise<Meeting> {
+  const response = await authFetch(`/api/meetings`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to create meeting');
+  }
+
+  return data.meeting;
+}
+
+/**
+ * Get a meeting and whether its link has expired
+ */
+export async function getMeeting(meetingId: string): Promise<{ meeting: Meeting; expired: boolean }> {
+  const response = await authFetch(`/api/meetings/${encodeURIComponent(meetingId)}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch meeting');
+  }
+
+  return data;
+}
+
+/**
+ * Get the current user's meetings that haven't expired yet, soonest first
+ */
+export async function getUpcomingMeetings(): Promise<Meeting[]> {
+  try {
+    const response = await authFetch(`/api/meetings`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch meetings');
+    }
+
+    const data = await response.json();
+    return data.meetings;
+  } catch (error) {
+    console.error('Error fetching meetings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Cancel a meeting owned by the current user
+ */
+export async function cancelMeeting(meetingId: string): Promise<boolean> {
+  const response = await authFetch(`/api/meetings/${encodeURIComponent(meetingId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to cancel meeting');
+  }
+
+  return true;
+}
+
+/**
+ * Get the download URL of a scheduled meeting's .ics file
+ */
+export function getMeetingIcsUrl(meetingId: string): string {
+  return `/api/calendar/meetings/${encodeURIComponent(meetingId)}.ics`;
+}
+
+/**
+ * Get the current user's secret calendar feed URL
+ */
+export async function getCalendarFeedUrl(): Promise<string> {
+  try {
+    const response = await authFetch(`/api/calendar/feed`);
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch calendar feed');
+    }
+
+    const data = await response.json();
+    return data.feedUrl;
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,14 @@
 
 const USER_ID_KEY = 'cindy_userId';
 const USERNAME_KEY = 'cindy_username';
+const TOKEN_KEY = 'cindy_token';
+
+interface AuthResponse {
+  userId: string;
+  username: string;
+  token: string;
+  expiresAt: number;
+}
 
 /**
  * Get userId from localStorage
@@ -16,12 +24,20 @@ export function getUsername(): string | null {
   return localStorage.getItem(USERNAME_KEY);
 }
 
+/**
+ * Get session token from localStorage
+ */
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
 /**
  * Set user data in localStorage
  */
-export function setUser(userId: string, username: string): void {
+export function setUser(userId: string, username: string, token: string): void {
   localStorage.setItem(USER_ID_KEY, userId);
   localStorage.setItem(USERNAME_KEY, username);
+  localStorage.setItem(TOKEN_KEY, token);
 }
 
 /**
@@ -30,39 +46,85 @@ export function setUser(userId: string, username: string): void {
 export function clearUser(): void {
   localStorage.removeItem(USER_ID_KEY);
   localStorage.removeItem(USERNAME_KEY);
+  localStorage.removeItem(TOKEN_KEY);
 }
 
 /**
  * Check if user is logged in
  */
 export function isLoggedIn(): boolean {
-  return !!getUserId() && !!getUsername();
+  return !!getUserId() && !!getUsername() && !!getToken();
+}
+
+/**
+ * Send credentials to a login/register endpoint and store the session
+ */
+async function authenticate(
+  endpoint: 'login' | 'register',
+  username: string,
+  password: string
+): Promise<AuthResponse> {
+  const response = await fetch(`/api/users/${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to ${endpoint}`);
+  }
+
+  setUser(data.userId, data.username, data.token);
+
+  return data;
 }
 
 /**
- * Register or login user
+ * Register a new account
  */
-export async function registerOrLogin(username: string): Promise<{ userId: string; username: string }> {
+export async function register(username: string, password: string): Promise<AuthResponse> {
   try {
-    const response = await fetch(`/api/users/register`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ username }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to register/login');
-    }
+    return await authenticate('register', username, password);
+  } catch (error) {
+    console.error('Error registering:', error);
+    throw error;
+  }
+}
 
-    const data = await response.json();
-    setUser(data.userId, data.username);
-    
-    return data;
+/**
+ * Log in to an existing account
+ */
+export async function login(username: string, password: string): Promise<AuthResponse> {
+  try {
+    return await authenticate('login', username, password);
   } catch (error) {
-    console.error('Error registering/logging in:', error);
+    console.error('Error logging in:', error);
     throw error;
   }
 }
 
+/**
+ * Revoke the current session and clear local user data
+ */
+export async function logout(): Promise<void> {
+  const token = getToken();
+
+  try {
+    if (token) {
+      await fetch(`/api/users/logout`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+    }
+  } catch (error) {
+    console.error('Error logging out:', error);
+  } finally {
+    clearUser();
+  }
+}
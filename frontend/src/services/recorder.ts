@@ -3,19 +3,22 @@ import { RecordingMode, RECORDING_MODE_CONFIG } from '../types/recording';
 /**
  * MediaRecorder wrapper for recording video calls
  * Supports audio-only, video-only, and combined recording modes
+ * With an onChunk callback the recording is handed over as it is produced instead of being kept in memory
  */
 export class CallRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private recordedChunks: Blob[] = [];
+  private recordedSize = 0;
   private startTime: number = 0;
   private currentMode: RecordingMode = 'both';
 
   /**
    * Start recording with specified mode
    */
-  start(stream: MediaStream, mode: RecordingMode = 'both'): void {
+  start(stream: MediaStream, mode: RecordingMode = 'both', onChunk?: (chunk: Blob) => void): void {
     try {
       this.recordedChunks = [];
+      this.recordedSize = 0;
       this.currentMode = mode;
 
       const config = RECORDING_MODE_CONFIG[mode];
@@ -31,7 +34,12 @@ export class CallRecorder {
 
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data && event.data.size > 0) {
-          this.recordedChunks.push(event.data);
+          this.recordedSize += event.data.size;
+          if (onChunk) {
+            onChunk(event.data);
+          } else {
+            this.recordedChunks.push(event.data);
+          }
         }
       };
 
@@ -46,9 +54,9 @@ export class CallRecorder {
   }
 
   /**
-   * Stop recording and return the recorded blob
+   * Stop recording and return the recorded blob (null when it was streamed to onChunk)
    */
-  async stop(): Promise<{ blob: Blob; duration: number }> {
+  async stop(): Promise<{ blob: Blob | null; duration: number }> {
     return new Promise((resolve, reject) => {
       if (!this.mediaRecorder) {
         reject(new Error('MediaRecorder not initialized'));
@@ -58,10 +66,11 @@ export class CallRecorder {
       this.mediaRecorder.onstop = () => {
         // Use the appropriate MIME type for the blob based on recording mode
         const blobType = this.currentMode === 'audio' ? 'audio/webm' : 'video/webm';
-        const blob = new Blob(this.recordedChunks, { type: blobType });
+        const blob = this.recordedChunks.length > 0 ? new Blob(this.recordedChunks, { type: blobType }) : null;
         const duration = Math.floor((Date.now() - this.startTime) / 1000);
+        this.recordedChunks = [];
 
-        console.log(`[Recorder] Stopped recording. Mode: ${this.currentMode}, Duration: ${duration}s, Size: ${blob.size} bytes`);
+        console.log(`[Recorder] Stopped recording. Mode: ${this.currentMode}, Duration: ${duration}s, Size: ${this.recordedSize} bytes`);
 
         resolve({ blob, duration });
       };
@@ -0,0 +1,223 @@
+import { RecordingLayout } from '../types/recording';
+
+/**
+ * Layout engine for the client-side recording canvas
+ * Turns the current participants into tile rectangles; the mixer draws the video, and drawTileLabel() the names
+ */
+
+export interface LayoutTile {
+  id: string; // unique per tile, e.g. a peer ID, with a suffix for screen shares
+  peerId: string;
+  label: string;
+  kind: 'camera' | 'screen';
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  activeSpeakerId?: string; // peer ID of the dominant speaker, if known
+  localPeerId?: string; // kept off the stage unless nobody else is there
+  gap?: number;
+}
+
+export interface TileRect {
+  tile: LayoutTile;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Strip/column tiles are 16:9 and at least this tall
+const MIN_THUMBNAIL_HEIGHT = 120;
+
+// Size of the small tiles drawn over the stage in speaker layout, relative to the canvas
+const PIP_SCALE = 0.18;
+
+/**
+ * Lay out tiles for a recording
+ * A screen share always gets the presenter layout; with no share, presenter puts the active speaker on its stage
+ */
+export function computeLayout(layout: RecordingLayout, tiles: LayoutTile[], options: LayoutOptions): TileRect[] {
+  if (tiles.length === 0) return [];
+
+  const screens = tiles.filter(tile => tile.kind === 'screen');
+  if (screens.length > 0 || layout === 'presenter') {
+    return presenterLayout(tiles, options);
+  }
+
+  switch (layout) {
+    case 'speaker':
+      return speakerLayout(tiles, options);
+    case 'filmstrip':
+      return filmstripLayout(tiles, options);
+    case 'grid':
+    default:
+      return gridLayout(tiles, options);
+  }
+}
+
+/**
+ * Pick the tile for the stage: the latest screen share, else the active speaker, else the first remote camera
+ */
+function pickStageTile(tiles: LayoutTile[], options: LayoutOptions): LayoutTile {
+  const screens = tiles.filter(tile => tile.kind === 'screen');
+  if (screens.length > 0) {
+    return screens[screens.length - 1];
+  }
+
+  const speaker = tiles.find(tile => tile.peerId === options.activeSpeakerId);
+  const remote = tiles.find(tile => tile.peerId !== options.localPeerId);
+  return speaker ?? remote ?? tiles[0];
+}
+
+/**
+ * Square grid: 1 = full canvas, 2-4 = 2x2, 5-9 = 3x3, ...
+ */
+function gridLayout(tiles: LayoutTile[], { width, height, gap = 0 }: LayoutOptions): TileRect[] {
+  const gridSize = Math.ceil(Math.sqrt(tiles.length));
+  const cellWidth = Math.floor((width - gap * (gridSize - 1)) / gridSize);
+  const cellHeight = Math.floor((height - gap * (gridSize - 1)) / gridSize);
+
+  return tiles.map((tile, index) => ({
+    tile,
+    x: (index % gridSize) * (cellWidth + gap),
+    y: Math.floor(index / gridSize) * (cellHeight + gap),
+    width: cellWidth,
+    height: cellHeight,
+  }));
+}
+
+/**
+ * Active speaker fills the canvas; everyone else is a small picture-in-picture along the bottom right
+ */
+function speakerLayout(tiles: LayoutTile[], options: LayoutOptions): TileRect[] {
+  const { width, height, gap = 0 } = options;
+  const stage = pickStageTile(tiles, options);
+  const others = tiles.filter(tile => tile !== stage);
+
+  const pipWidth = Math.floor(width * PIP_SCALE);
+  const pipHeight = Math.floor((pipWidth * 9) / 16);
+  const margin = Math.max(gap, 16);
+  const perRow = Math.max(Math.floor((width - margin) / (pipWidth + margin)), 1);
+
+  const rects: TileRect[] = [{ tile: stage, x: 0, y: 0, width, height }];
+  others.forEach((tile, index) => {
+    const col = index % perRow;
+    const row = Math.floor(index / perRow);
+    rects.push({
+      tile,
+      x: width - (col + 1) * (pipWidth + margin),
+      y: height - (row + 1) * (pipHeight + margin),
+      width: pipWidth,
+      height: pipHeight,
+    });
+  });
+
+  return rects;
+}
+
+/**
+ * Active speaker on a stage, everyone else in a row of 16:9 tiles below it
+ */
+function filmstripLayout(tiles: LayoutTile[], options: LayoutOptions): TileRect[] {
+  const { width, height, gap = 0 } = options;
+  const stage = pickStageTile(tiles, options);
+  const others = tiles.filter(tile => tile !== stage);
+
+  if (others.length === 0) {
+    return [{ tile: stage, x: 0, y: 0, width, height }];
+  }
+
+  // Shrink the strip's tiles to fit everyone across, down to the minimum height
+  const stripHeight = Math.max(
+    Math.min(Math.floor(height / 5), Math.floor(((width - gap * (others.length - 1)) / others.length) * 9 / 16)),
+    MIN_THUMBNAIL_HEIGHT
+  );
+  const thumbWidth = Math.floor((stripHeight * 16) / 9);
+  const shown = others.slice(0, Math.max(Math.floor((width + gap) / (thumbWidth + gap)), 1));
+  const rowWidth = shown.length * thumbWidth + (shown.length - 1) * gap;
+  const left = Math.floor((width - rowWidth) / 2);
+
+  return [
+    { tile: stage, x: 0, y: 0, width, height: height - stripHeight - gap },
+    ...shown.map((tile, index) => ({
+      tile,
+      x: left + index * (thumbWidth + gap),
+      y: height - stripHeight,
+      width: thumbWidth,
+      height: stripHeight,
+    })),
+  ];
+}
+
+/**
+ * Screen share (or active speaker) on a stage, cameras stacked in a column on the right
+ */
+function presenterLayout(tiles: LayoutTile[], options: LayoutOptions): TileRect[] {
+  const { width, height, gap = 0 } = options;
+  const stage = pickStageTile(tiles, options);
+  const others = tiles.filter(tile => tile !== stage && tile.kind === 'camera');
+
+  if (others.length === 0) {
+    return [{ tile: stage, x: 0, y: 0, width, height }];
+  }
+
+  const columnWidth = Math.floor(width / 4);
+  const shown = others.slice(0, Math.max(Math.floor((height + gap) / (MIN_THUMBNAIL_HEIGHT + gap)), 1));
+  const tileHeight = Math.min(
+    Math.floor((columnWidth * 9) / 16),
+    Math.floor((height - gap * (shown.length - 1)) / shown.length)
+  );
+  const stageWidth = width - columnWidth - gap;
+
+  return [
+    { tile: stage, x: 0, y: 0, width: stageWidth, height },
+    ...shown.map((tile, index) => ({
+      tile,
+      x: stageWidth + gap,
+      y: index * (tileHeight + gap),
+      width: columnWidth,
+      height: tileHeight,
+    })),
+  ];
+}
+
+/**
+ * Draw a tile's name in its bottom-left corner
+ */
+export function drawTileLabel(
+  context: CanvasRenderingContext2D,
+  label: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const fontSize = Math.max(Math.round(height / 16), 12);
+  const padding = Math.round(fontSize / 2);
+
+  context.save();
+  context.font = `${fontSize}px sans-serif`;
+  context.textBaseline = 'middle';
+
+  const maxTextWidth = width - padding * 4;
+  let text = label;
+  while (text.length > 1 && context.measureText(text).width > maxTextWidth) {
+    text = text.slice(0, -1);
+  }
+  if (text !== label) {
+    text = `${text.slice(0, -1)}…`;
+  }
+
+  const boxWidth = context.measureText(text).width + padding * 2;
+  const boxHeight = fontSize + padding;
+  const boxX = x + padding;
+  const boxY = y + height - boxHeight - padding;
+
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(boxX, boxY, boxWidth, boxHeight);
+  context.fillStyle = 'white';
+  context.fillText(text, boxX + padding, boxY + boxHeight / 2);
+  context.restore();
+}
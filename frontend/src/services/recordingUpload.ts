@@ -0,0 +1,294 @@
+import { RecordingMode, RecordingLayout } from '../types/recording';
+import {
+  createRecordingUpload,
+  getRecordingUploadOffset,
+  uploadRecordingChunk,
+  completeRecordingUpload,
+  discardRecordingUpload,
+} from './api';
+import { getUserId } from './auth';
+
+/**
+ * Streams a recording to the server while it is being recorded
+ *
+ * Chunks are sent one at a time at their byte offset. Until the server has
+ * acknowledged a chunk it is also kept in IndexedDB, so an upload cut short by
+ * a reload (or a network that never came back) can be finished later with
+ * resumePendingUploads().
+ */
+
+const PENDING_UPLOADS_KEY = 'cindy_pendingUploads';
+const DB_NAME = 'cindy_recordings';
+const CHUNK_STORE = 'chunks';
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+interface PendingUpload {
+  userId: string;
+  meetingId: string;
+  startedAt: number;
+  lastChunkAt: number;
+  duration?: number; // set once the recorder has stopped
+  participants?: string[];
+}
+
+interface QueuedChunk {
+  uploadId: string;
+  offset: number;
+  blob: Blob;
+}
+
+function readPendingUploads(): Record<string, PendingUpload> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function updatePendingUpload(uploadId: string, pending: PendingUpload | null): void {
+  const uploads = readPendingUploads();
+  if (pending) {
+    uploads[uploadId] = pending;
+  } else {
+    delete uploads[uploadId];
+  }
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(uploads));
+}
+
+function openChunkStore(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CHUNK_STORE, { keyPath: ['uploadId', 'offset'] });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against the chunk store
+ */
+async function withChunkStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openChunkStore();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(CHUNK_STORE, mode).objectStore(CHUNK_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// All chunks of an upload starting below `end`
+function chunkRange(uploadId: string, end = Infinity): IDBKeyRange {
+  return IDBKeyRange.bound([uploadId, 0], [uploadId, end], false, true);
+}
+
+export class RecordingUpload {
+  private readonly uploadId: string;
+  private queue: QueuedChunk[] = [];
+  private nextOffset: number;
+  private draining: Promise<void> | null = null;
+  private failure: Error | null = null;
+
+  private constructor(uploadId: string, offset: number) {
+    this.uploadId = uploadId;
+    this.nextOffset = offset;
+  }
+
+  /**
+   * Open an upload on the server for a recording that is about to start
+   */
+  static async start(
+    meetingId: string,
+    title: string,
+    mode: RecordingMode,
+    layout: RecordingLayout
+  ): Promise<RecordingUpload> {
+    const { uploadId, offset } = await createRecordingUpload(meetingId, title, mode, layout);
+    const now = Date.now();
+
+    updatePendingUpload(uploadId, {
+      userId: getUserId() || '',
+      meetingId,
+      startedAt: now,
+      lastChunkAt: now,
+    });
+
+    console.log(`[Upload] Started upload ${uploadId}`);
+    return new RecordingUpload(uploadId, offset);
+  }
+
+  /**
+   * Queue the next piece of the recording and send it as soon as the ones before it are through
+   */
+  append(blob: Blob): void {
+    const chunk: QueuedChunk = { uploadId: this.uploadId, offset: this.nextOffset, blob };
+    this.nextOffset += blob.size;
+    this.queue.push(chunk);
+
+    const pending = readPendingUploads()[this.uploadId];
+    if (pending) {
+      updatePendingUpload(this.uploadId, { ...pending, lastChunkAt: Date.now() });
+    }
+
+    // Keeping a copy is best effort: without IndexedDB the upload still works, it just can't survive a reload
+    withChunkStore('readwrite', store => store.put(chunk)).catch((error) => {
+      console.warn('[Upload] Could not keep chunk for resuming:', error);
+    });
+
+    this.drain();
+  }
+
+  /**
+   * Wait for every chunk to reach the server, then turn the upload into a recording
+   * On failure the upload stays pending and is picked up again by resumePendingUploads()
+   */
+  async finish(duration: number, participants: string[] = []): Promise<string> {
+    const pending = readPendingUploads()[this.uploadId];
+    if (pending) {
+      updatePendingUpload(this.uploadId, { ...pending, duration, participants });
+    }
+
+    await this.drain();
+    if (this.failure) {
+      throw this.failure;
+    }
+
+    const { recordingId } = await completeRecordingUpload(this.uploadId, duration, participants);
+    await this.discardLocalCopy();
+
+    console.log(`[Upload] Completed upload ${this.uploadId} as ${recordingId}`);
+    return recordingId;
+  }
+
+  private drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.sendQueued().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Send queued chunks in order, backing off while the network is down
+   */
+  private async sendQueued(): Promise<void> {
+    let retryDelay = INITIAL_RETRY_DELAY_MS;
+
+    while (this.queue.length > 0 && !this.failure) {
+      const chunk = this.queue[0];
+
+      try {
+        const serverOffset = await uploadRecordingChunk(this.uploadId, chunk.offset, chunk.blob);
+        if (serverOffset === null) {
+          this.failure = new Error(`Upload ${this.uploadId} was rejected by the server`);
+          break;
+        }
+        if (this.acknowledge(serverOffset)) {
+          retryDelay = INITIAL_RETRY_DELAY_MS;
+          continue;
+        }
+      } catch (error) {
+        console.warn(`[Upload] Chunk at ${chunk.offset} failed, retrying in ${retryDelay}ms:`, error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, retryDelay));
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY_MS);
+    }
+  }
+
+  /**
+   * Drop the chunks the server has stored; returns whether it moved forward
+   */
+  private acknowledge(serverOffset: number): boolean {
+    const before = this.queue.length;
+    this.queue = this.queue.filter(chunk => chunk.offset + chunk.blob.size > serverOffset);
+
+    // The server is missing bytes we no longer have, so the recording can't be completed
+    if (this.queue.length > 0 && this.queue[0].offset > serverOffset) {
+      this.failure = new Error(`Upload ${this.uploadId} lost data at offset ${serverOffset}`);
+      return false;
+    }
+
+    withChunkStore('readwrite', store => store.delete(chunkRange(this.uploadId, serverOffset))).catch(() => {});
+    return this.queue.length < before;
+  }
+
+  private async discardLocalCopy(): Promise<void> {
+    updatePendingUpload(this.uploadId, null);
+    await withChunkStore('readwrite', store => store.delete(chunkRange(this.uploadId))).catch(() => {});
+  }
+
+  /**
+   * Finish an upload left behind by an earlier page load
+   */
+  static async resume(uploadId: string, pending: PendingUpload): Promise<string | null> {
+    const serverOffset = await getRecordingUploadOffset(uploadId);
+    const upload = new RecordingUpload(uploadId, serverOffset ?? 0);
+
+    if (serverOffset === null) {
+      console.log(`[Upload] Upload ${uploadId} no longer exists on the server`);
+      await upload.discardLocalCopy();
+      return null;
+    }
+
+    const chunks = await withChunkStore<QueuedChunk[]>('readonly', store => store.getAll(chunkRange(uploadId)));
+    for (const chunk of chunks) {
+      upload.queue.push(chunk);
+      upload.nextOffset = Math.max(upload.nextOffset, chunk.offset + chunk.blob.size);
+    }
+    upload.acknowledge(serverOffset);
+
+    // Chunks that never made it into IndexedDB can't be recovered; keep what the server already has
+    if (upload.failure) {
+      console.warn(`[Upload] ${upload.failure.message}, finishing with the bytes already uploaded`);
+      upload.queue = [];
+      upload.failure = null;
+    }
+
+    // Nothing was recorded before the page went away
+    if (serverOffset === 0 && upload.queue.length === 0) {
+      await discardRecordingUpload(uploadId);
+      await upload.discardLocalCopy();
+      return null;
+    }
+
+    // A recording cut off by a reload never reported its duration; it ran until its last chunk
+    const duration = pending.duration ?? Math.floor((pending.lastChunkAt - pending.startedAt) / 1000);
+    return upload.finish(duration, pending.participants);
+  }
+}
+
+/**
+ * Finish the current user's uploads that were interrupted by a reload or a lost connection
+ * Returns the IDs of the recordings that were completed
+ */
+export async function resumePendingUploads(): Promise<string[]> {
+  const userId = getUserId();
+  const completed: string[] = [];
+
+  for (const [uploadId, pending] of Object.entries(readPendingUploads())) {
+    if (pending.userId !== userId) continue;
+
+    try {
+      const recordingId = await RecordingUpload.resume(uploadId, pending);
+      if (recordingId) {
+        completed.push(recordingId);
+      }
+    } catch (error) {
+      console.error(`[Upload] Error resuming upload ${uploadId}:`, error);
+    }
+  }
+
+  return completed;
+}
@@ -1,23 +1,84 @@
 import * as mediasoupClient from 'mediasoup-client';
 import { io, Socket } from 'socket.io-client';
 import MultiStreamsMixer from 'multistreamsmixer';
+import { getToken, clearUser, getUsername } from './auth';
+import { Meeting } from './api';
+import { computeLayout, drawTileLabel, LayoutTile } from './recordingLayout';
+import { RecordingLayout } from '../types/recording';
 
 type Device = mediasoupClient.Device;
 type Transport = mediasoupClient.types.Transport;
 type Producer = mediasoupClient.types.Producer;
 type Consumer = mediasoupClient.types.Consumer;
+type ProducerOptions = mediasoupClient.types.ProducerOptions;
 
 // Use relative path - Vite proxy will handle WebSocket connections
 // In production, the web server should proxy /socket.io to backend
 const SERVER_URL = window.location.origin;
 
+// Video is sent as three layers (180p / 360p / 720p) so the server can forward each
+// viewer the one that fits its tile. VP8 uses simulcast; VP9 uses SVC in a single stream.
+const SIMULCAST_ENCODINGS = [
+  { rid: 'r0', scaleResolutionDownBy: 4, maxBitrate: 150000 },
+  { rid: 'r1', scaleResolutionDownBy: 2, maxBitrate: 500000 },
+  { rid: 'r2', scaleResolutionDownBy: 1, maxBitrate: 1500000 },
+];
+const SVC_SCALABILITY_MODE = 'L3T3_KEY';
+const SCREEN_SHARE_MAX_BITRATE = 2500000;
+
+// Client-side recording canvas (Full HD)
+const RECORDING_CANVAS_WIDTH = 1920;
+const RECORDING_CANVAS_HEIGHT = 1080;
+const RECORDING_TILE_GAP = 8;
+
+// MultiStreamsMixer reads a tile's placement (and label drawing) from properties set on its stream,
+// on every frame - so moving a tile only means updating them
+type MixerStream = MediaStream & {
+  width?: number;
+  height?: number;
+  left?: number;
+  top?: number;
+  fullcanvas?: boolean;
+  onRender?: (context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => void;
+};
+
+export type PeerRole = 'host' | 'cohost' | 'participant';
+
+// What a producer carries (`appData.source`); a peer can send a camera and a screen share at once
+export type ProducerSource = 'microphone' | 'camera' | 'screen';
+
+export type ModerationAction = 'muted' | 'videoStopped' | 'removed';
+
 export interface Peer {
   peerId: string;
   userId: string;
   username: string;
+  role: PeerRole;
   audioConsumer?: Consumer;
-  videoConsumer?: Consumer;
-  stream?: MediaStream;
+  videoConsumers: Map<'camera' | 'screen', Consumer>;
+  stream?: MediaStream; // camera and microphone
+  screenStream?: MediaStream;
+}
+
+// How the server is adapting our incoming video to our downlink
+export type QualityState = 'good' | 'reduced' | 'audioOnly';
+
+// A peer heard in the last audio level sample, volume in dBov (-127 to 0)
+export interface AudioLevel {
+  peerId: string;
+  volume: number;
+}
+
+export interface RoomState {
+  locked: boolean;
+  maxParticipants?: number;
+}
+
+export interface LobbyEntry {
+  peerId: string;
+  userId: string;
+  username: string;
+  requestedAt: number;
 }
 
 /**
@@ -30,10 +91,20 @@ export class WebRTCManager {
   private recvTransport: Transport | null = null;
   private audioProducer: Producer | null = null;
   private videoProducer: Producer | null = null;
+  private screenProducer: Producer | null = null;
+  private screenStream: MediaStream | null = null;
   private peers: Map<string, Peer> = new Map();
   private localStream: MediaStream | null = null;
   private roomId: string = '';
+  private role: PeerRole = 'participant';
+  private pausedByModerator: Set<'audio' | 'video'> = new Set();
+  private preferredSizes: Map<string, { width: number; height: number }> = new Map();
   private mixer: MultiStreamsMixer | null = null;
+  private mixerBackground: MixerStream | null = null;
+  private mixerTiles: Map<string, MixerStream> = new Map(); // by layout tile ID
+  private recordingLayout: RecordingLayout = 'grid';
+  private activeSpeakerPeerId?: string;
+  private recordingAudioSources: Map<string, MediaStreamAudioSourceNode> = new Map();
   private audioContext: AudioContext | null = null;
   private audioDestination: MediaStreamAudioDestinationNode | null = null;
   
@@ -43,17 +114,31 @@ export class WebRTCManager {
   public onNewProducer?: (data: any) => void;
   public onLocalStream?: (stream: MediaStream) => void;
   public onRemoteStream?: (peerId: string, stream: MediaStream) => void;
+  public onRemoteScreenShare?: (peerId: string, stream: MediaStream | null) => void;
+  public onLocalScreenShare?: (stream: MediaStream | null) => void;
+  public onServerRecordingStateChanged?: (recording: boolean, username?: string) => void;
+  public onMeetingInfo?: (meeting: Meeting) => void;
+  public onLobbyWaiting?: () => void;
+  public onLobbyUpdated?: (waiting: LobbyEntry[]) => void;
+  public onModerated?: (action: ModerationAction, message: string) => void;
+  public onPeerRoleChanged?: (peerId: string, role: PeerRole) => void;
+  public onRoomStateChanged?: (state: RoomState, by?: string) => void;
+  public onRoomRestarted?: () => void;
+  public onQualityChanged?: (state: QualityState, level: number) => void;
+  public onActiveSpeaker?: (peerId: string) => void;
+  public onAudioLevels?: (levels: AudioLevel[]) => void;
 
   /**
    * Connect to signaling server
    */
-  async connect(roomId: string, userId: string, username: string): Promise<void> {
+  async connect(roomId: string): Promise<void> {
     try {
       this.roomId = roomId;
 
-      // Connect to Socket.IO server
+      // Connect to Socket.IO server, authenticating with the session token
       this.socket = io(SERVER_URL, {
         transports: ['websocket'],
+        auth: { token: getToken() },
       });
 
       await new Promise<void>((resolve, reject) => {
@@ -66,6 +151,10 @@ export class WebRTCManager {
 
         this.socket.on('connect_error', (error) => {
           console.error('[WebRTC] Connection error:', error);
+          // The server refused the session token, so the local session is gone
+          if (error.message === 'Authentication required') {
+            clearUser();
+          }
           reject(error);
         });
       });
@@ -74,7 +163,7 @@ export class WebRTCManager {
       this.setupSocketListeners();
 
       // Join the room
-      await this.joinRoom(userId, username);
+      await this.joinRoom();
 
       // Initialize mediasoup device
       await this.initDevice();
@@ -98,6 +187,8 @@ export class WebRTCManager {
         peerId: data.peerId,
         userId: data.userId,
         username: data.username,
+        role: data.role,
+        videoConsumers: new Map(),
       };
       this.peers.set(data.peerId, peer);
       this.onPeerJoined?.(peer);
@@ -106,13 +197,89 @@ export class WebRTCManager {
     this.socket.on('peerLeft', (data) => {
       console.log('[WebRTC] Peer left:', data.peerId);
       this.peers.delete(data.peerId);
+      this.preferredSizes.delete(data.peerId);
+      this.updateRecordingMix();
       this.onPeerLeft?.(data.peerId);
     });
 
     this.socket.on('newProducer', async (data) => {
       console.log('[WebRTC] New producer:', data);
       this.onNewProducer?.(data); // Why this is not being called?
-      await this.consumeProducer(data.producerId, data.peerId);
+      await this.consumeProducer(data.producerId, data.peerId, data.source);
+    });
+
+    this.socket.on('producerClosed', (data) => {
+      console.log('[WebRTC] Producer closed:', data);
+      this.removeConsumerOf(data.peerId, data.producerId);
+    });
+
+    this.socket.on('serverRecordingStateChanged', (data) => {
+      console.log('[WebRTC] Server recording state changed:', data);
+      this.onServerRecordingStateChanged?.(data.recording, data.username);
+    });
+
+    this.socket.on('lobbyUpdated', (data) => {
+      console.log('[WebRTC] Lobby updated:', data.waiting);
+      this.onLobbyUpdated?.(data.waiting);
+    });
+
+    this.socket.on('peerRoleChanged', (data) => {
+      console.log('[WebRTC] Peer role changed:', data);
+      if (data.peerId === this.socket?.id) {
+        this.role = data.role;
+      }
+      const peer = this.peers.get(data.peerId);
+      if (peer) {
+        peer.role = data.role;
+      }
+      this.onPeerRoleChanged?.(data.peerId, data.role);
+    });
+
+    this.socket.on('roomRestarted', async () => {
+      console.warn('[WebRTC] Media server restarted the room, rejoining...');
+      this.onRoomRestarted?.();
+      try {
+        await this.rejoinAfterRestart();
+      } catch (error) {
+        console.error('[WebRTC] Error rejoining after restart:', error);
+      }
+    });
+
+    this.socket.on('roomStateChanged', (data) => {
+      console.log('[WebRTC] Room state changed:', data);
+      this.onRoomStateChanged?.({ locked: data.locked, maxParticipants: data.maxParticipants }, data.by);
+    });
+
+    this.socket.on('activeSpeaker', (data) => {
+      this.activeSpeakerPeerId = data.peerId;
+      // Only the speaker-driven layouts move when the speaker changes
+      if (this.mixer && this.recordingLayout !== 'grid') {
+        this.updateVideoMix();
+      }
+      this.onActiveSpeaker?.(data.peerId);
+    });
+
+    this.socket.on('audioLevels', (data) => {
+      this.onAudioLevels?.(data.levels);
+    });
+
+    this.socket.on('qualityChanged', (data) => {
+      console.log('[WebRTC] Incoming video quality changed:', data);
+      this.onQualityChanged?.(data.state, data.level);
+    });
+
+    this.socket.on('moderated', (data) => {
+      console.log('[WebRTC] Moderated:', data);
+      // The server already paused our producer; pause locally too so the controls match
+      if (data.action === 'muted' && this.audioProducer) {
+        this.audioProducer.pause();
+        this.pausedByModerator.add('audio');
+      }
+      if (data.action === 'videoStopped' && this.videoProducer) {
+        this.videoProducer.pause();
+        this.pausedByModerator.add('video');
+      }
+      this.onModerated?.(data.action, data.message);
     });
 
     this.socket.on('error', (data) => {
@@ -123,27 +290,80 @@ export class WebRTCManager {
   /**
    * Join a room
    */
-  private async joinRoom(userId: string, username: string): Promise<void> {
+  private async joinRoom(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.socket) return reject(new Error('Socket not connected'));
 
-      this.socket.emit('joinRoom', { roomId: this.roomId, userId, username }, (response: any) => {
+      this.socket.emit('joinRoom', { roomId: this.roomId }, (response: any) => {
         if (response.error) {
-          reject(new Error(response.error));
+          // Scheduled meetings refuse joins before their window opens
+          const opens = response.opensAt ? `. You can join from ${new Date(response.opensAt).toLocaleString()}` : '';
+          reject(new Error(`${response.error}${opens}`));
+        } else if (response.waiting) {
+          // Held in the waiting room until the host decides
+          console.log('[WebRTC] Waiting in lobby for the host');
+          if (response.meeting) {
+            this.onMeetingInfo?.(response.meeting);
+          }
+          this.onLobbyWaiting?.();
+          this.waitForAdmission().then(() => this.joinRoom()).then(resolve, reject);
         } else {
           console.log('[WebRTC] Joined room successfully');
           // Store existing peers
           if (response.peers) {
             response.peers.forEach((peer: any) => {
-              this.peers.set(peer.peerId, peer);
+              this.peers.set(peer.peerId, { ...peer, videoConsumers: new Map() });
             });
           }
+          if (response.meeting) {
+            this.onMeetingInfo?.(response.meeting);
+          }
+          if (response.serverRecording) {
+            this.onServerRecordingStateChanged?.(true);
+          }
+          if (response.role) {
+            this.role = response.role;
+          }
+          if (response.roomState) {
+            this.onRoomStateChanged?.(response.roomState);
+          }
+          if (response.activeSpeaker) {
+            this.activeSpeakerPeerId = response.activeSpeaker;
+            this.onActiveSpeaker?.(response.activeSpeaker);
+          }
+          if (response.lobby) {
+            this.onLobbyUpdated?.(response.lobby);
+          }
           resolve();
         }
       });
     });
   }
 
+  /**
+   * Wait for the host to admit or deny us from the lobby
+   */
+  private waitForAdmission(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) return reject(new Error('Socket not connected'));
+      const socket = this.socket;
+
+      const onAdmitted = () => {
+        socket.off('lobbyDenied', onDenied);
+        console.log('[WebRTC] Admitted from lobby');
+        resolve();
+      };
+      const onDenied = () => {
+        socket.off('lobbyAdmitted', onAdmitted);
+        console.log('[WebRTC] Denied entry from lobby');
+        reject(new Error('The host denied your request to join'));
+      };
+
+      socket.once('lobbyAdmitted', onAdmitted);
+      socket.once('lobbyDenied', onDenied);
+    });
+  }
+
   /**
    * Initialize mediasoup device
    */
@@ -186,11 +406,11 @@ export class WebRTCManager {
    */
   async startProducing(): Promise<MediaStream> {
     try {
-      // Get user media with 480p constraint
+      // Get user media at up to 720p; lower layers are derived from it
       this.localStream = await navigator.mediaDevices.getUserMedia({
         video: {
-          width: { ideal: 854, max: 854 },
-          height: { ideal: 480, max: 480 },
+          width: { ideal: 1280, max: 1280 },
+          height: { ideal: 720, max: 720 },
           frameRate: { ideal: 30, max: 30 },
         },
         audio: {
@@ -203,23 +423,7 @@ export class WebRTCManager {
       console.log('[WebRTC] Got local stream');
       this.onLocalStream?.(this.localStream);
 
-      // Create send transport
-      await this.createSendTransport();
-
-      // Produce audio and video
-      const audioTrack = this.localStream.getAudioTracks()[0];
-      const videoTrack = this.localStream.getVideoTracks()[0];
-
-      if (audioTrack) {
-        await this.produceTrack(audioTrack, 'audio');
-      }
-
-      if (videoTrack) {
-        await this.produceTrack(videoTrack, 'video');
-      }
-
-      // Request existing producers
-      await this.getExistingProducers();
+      await this.publishLocalStream();
 
       return this.localStream;
     } catch (error) {
@@ -228,6 +432,68 @@ export class WebRTCManager {
     }
   }
 
+  /**
+   * Send the local stream to the room and start receiving the other peers
+   */
+  private async publishLocalStream(): Promise<void> {
+    if (!this.localStream) return;
+
+    // Create send transport
+    await this.createSendTransport();
+
+    // Produce audio and video
+    const audioTrack = this.localStream.getAudioTracks()[0];
+    const videoTrack = this.localStream.getVideoTracks()[0];
+
+    if (audioTrack) {
+      await this.produceTrack(audioTrack, 'audio');
+    }
+
+    if (videoTrack) {
+      await this.produceTrack(videoTrack, 'video');
+    }
+
+    // Request existing producers
+    await this.getExistingProducers();
+  }
+
+  /**
+   * Join again after the server moved the room to a new media worker
+   * Transports, producers and consumers died with the old router; the local stream is reused
+   */
+  private async rejoinAfterRestart(): Promise<void> {
+    const micPaused = this.audioProducer?.paused ?? false;
+    const cameraPaused = this.videoProducer?.paused ?? false;
+
+    this.sendTransport?.close();
+    this.recvTransport?.close();
+    this.sendTransport = null;
+    this.recvTransport = null;
+    this.audioProducer = null;
+    this.videoProducer = null;
+    this.pausedByModerator.clear();
+
+    // A screen share went down with the old router; the user can start presenting again
+    this.endLocalScreenShare();
+
+    for (const peerId of this.peers.keys()) {
+      this.onPeerLeft?.(peerId);
+    }
+    this.peers.clear();
+    this.updateRecordingMix();
+
+    await this.joinRoom();
+    this.peers.forEach(peer => this.onPeerJoined?.(peer));
+    await this.initDevice();
+    await this.publishLocalStream();
+
+    // Keep the mic and camera the way the user left them
+    if (micPaused) this.audioProducer?.pause();
+    if (cameraPaused) this.videoProducer?.pause();
+
+    console.log('[WebRTC] Rejoined room after restart');
+  }
+
   /**
    * Create send transport
    */
@@ -253,9 +519,9 @@ export class WebRTCManager {
           }
         });
 
-        this.sendTransport.on('produce', async ({ kind, rtpParameters }, callback, errback) => {
+        this.sendTransport.on('produce', async ({ kind, rtpParameters, appData }, callback, errback) => {
           try {
-            const producerId = await this.produce(this.sendTransport!.id, kind, rtpParameters);
+            const producerId = await this.produce(this.sendTransport!.id, kind, rtpParameters, appData);
             callback({ id: producerId });
           } catch (error) {
             errback(error as Error);
@@ -328,7 +594,8 @@ export class WebRTCManager {
       throw new Error('Send transport not created');
     }
 
-    const producer = await this.sendTransport.produce({ track });
+    const options = kind === 'video' ? this.getVideoProducerOptions() : {};
+    const producer = await this.sendTransport.produce({ track, ...options });
 
     if (kind === 'audio') {
       this.audioProducer = producer;
@@ -339,16 +606,43 @@ export class WebRTCManager {
     console.log(`[WebRTC] Producing ${kind} with producer ${producer.id}`);
   }
 
+  /**
+   * Layered encoding options for the camera: VP9 SVC where the browser supports it, VP8 simulcast otherwise
+   */
+  private getVideoProducerOptions(): Partial<ProducerOptions> {
+    const vp9 = this.device?.rtpCapabilities.codecs?.find(
+      (codec) => codec.mimeType.toLowerCase() === 'video/vp9'
+    );
+
+    // Only Chromium sends VP9 SVC through mediasoup
+    if (vp9 && this.device?.handlerName.startsWith('Chrome')) {
+      return {
+        codec: vp9,
+        encodings: [{ scalabilityMode: SVC_SCALABILITY_MODE, maxBitrate: 1500000 }],
+      };
+    }
+
+    return {
+      encodings: SIMULCAST_ENCODINGS,
+      codecOptions: { videoGoogleStartBitrate: 1000 },
+    };
+  }
+
   /**
    * Produce media on server
    */
-  private async produce(transportId: string, kind: string, rtpParameters: any): Promise<string> {
+  private async produce(
+    transportId: string,
+    kind: string,
+    rtpParameters: any,
+    appData: Record<string, unknown>
+  ): Promise<string> {
     return new Promise((resolve, reject) => {
       if (!this.socket) return reject(new Error('Socket not connected'));
 
       this.socket.emit(
         'produce',
-        { roomId: this.roomId, transportId, kind, rtpParameters },
+        { roomId: this.roomId, transportId, kind, rtpParameters, appData },
         (response: any) => {
           if (response.error) {
             reject(new Error(response.error));
@@ -373,7 +667,7 @@ export class WebRTCManager {
         } else {
           // Consume each existing producer
           for (const producer of response.producers) {
-            await this.consumeProducer(producer.producerId, producer.peerId);
+            await this.consumeProducer(producer.producerId, producer.peerId, producer.source);
           }
           resolve();
         }
@@ -384,7 +678,7 @@ export class WebRTCManager {
   /**
    * Consume a producer
    */
-  private async consumeProducer(producerId: string, peerId: string): Promise<void> {
+  private async consumeProducer(producerId: string, peerId: string, source?: ProducerSource): Promise<void> {
     try {
       // Create recv transport if not exists
       if (!this.recvTransport) {
@@ -412,11 +706,26 @@ export class WebRTCManager {
         return;
       }
 
+      // Screen shares get their own stream and tile
+      if (source === 'screen') {
+        peer.videoConsumers.set('screen', consumer);
+        peer.screenStream = new MediaStream([consumer.track]);
+        this.updateRecordingMix();
+        this.onRemoteScreenShare?.(peerId, peer.screenStream);
+        console.log(`[WebRTC] Consuming screen share from peer ${peerId}`);
+        return;
+      }
+
       // Add consumer to peer
       if (consumer.kind === 'audio') {
         peer.audioConsumer = consumer;
       } else {
-        peer.videoConsumer = consumer;
+        peer.videoConsumers.set('camera', consumer);
+        // The tile may have been laid out before its video arrived
+        const size = this.preferredSizes.get(peerId);
+        if (size) {
+          this.sendPreferredSize(consumer.id, size);
+        }
       }
 
       // Create or update peer stream
@@ -425,6 +734,7 @@ export class WebRTCManager {
       }
 
       peer.stream.addTrack(consumer.track);
+      this.updateRecordingMix();
       this.onRemoteStream?.(peerId, peer.stream);
 
       console.log(`[WebRTC] Consuming ${consumer.kind} from peer ${peerId}`);
@@ -433,6 +743,37 @@ export class WebRTCManager {
     }
   }
 
+  /**
+   * Drop our consumer of a producer the peer closed
+   */
+  private removeConsumerOf(peerId: string, producerId: string): void {
+    const peer = this.peers.get(peerId);
+    if (!peer) return;
+
+    const screen = peer.videoConsumers.get('screen');
+    if (screen?.producerId === producerId) {
+      screen.close();
+      peer.videoConsumers.delete('screen');
+      peer.screenStream = undefined;
+      this.updateRecordingMix();
+      this.onRemoteScreenShare?.(peerId, null);
+      return;
+    }
+
+    const camera = peer.videoConsumers.get('camera');
+    const consumer = camera?.producerId === producerId ? camera : peer.audioConsumer;
+    if (consumer?.producerId !== producerId) return;
+
+    peer.stream?.removeTrack(consumer.track);
+    consumer.close();
+    if (consumer === camera) {
+      peer.videoConsumers.delete('camera');
+    } else {
+      peer.audioConsumer = undefined;
+    }
+    this.updateRecordingMix();
+  }
+
   /**
    * Consume media from server
    */
@@ -468,6 +809,7 @@ export class WebRTCManager {
     if (this.audioProducer) {
       if (this.audioProducer.paused) {
         this.audioProducer.resume();
+        this.resumeAfterModeration('audio');
         return true;
       } else {
         this.audioProducer.pause();
@@ -484,6 +826,7 @@ export class WebRTCManager {
     if (this.videoProducer) {
       if (this.videoProducer.paused) {
         this.videoProducer.resume();
+        this.resumeAfterModeration('video');
         return true;
       } else {
         this.videoProducer.pause();
@@ -493,6 +836,233 @@ export class WebRTCManager {
     return false;
   }
 
+  /**
+   * Share a screen, window or tab alongside the camera
+   */
+  async startScreenShare(): Promise<MediaStream> {
+    if (!this.sendTransport) {
+      throw new Error('Send transport not created');
+    }
+    if (this.screenStream) {
+      return this.screenStream;
+    }
+
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { frameRate: { ideal: 15, max: 30 } },
+      audio: false,
+    });
+    const track = stream.getVideoTracks()[0];
+    // Favour sharp text over smooth motion
+    track.contentHint = 'detail';
+
+    try {
+      this.screenProducer = await this.sendTransport.produce({
+        track,
+        encodings: [{ maxBitrate: SCREEN_SHARE_MAX_BITRATE }],
+        appData: { source: 'screen' },
+      });
+    } catch (error) {
+      stream.getTracks().forEach(t => t.stop());
+      throw error;
+    }
+
+    this.screenStream = stream;
+    // The browser's own "Stop sharing" button ends the track
+    track.addEventListener('ended', () => this.stopScreenShare());
+
+    this.updateRecordingMix();
+    console.log(`[WebRTC] Sharing screen with producer ${this.screenProducer.id}`);
+    this.onLocalScreenShare?.(stream);
+    return stream;
+  }
+
+  /**
+   * Stop sharing the screen
+   */
+  stopScreenShare(): void {
+    const producer = this.screenProducer;
+    if (producer && this.socket) {
+      this.socket.emit('closeProducer', { roomId: this.roomId, producerId: producer.id }, (response: { error?: string }) => {
+        if (response.error) {
+          console.error('[WebRTC] Error closing screen share:', response.error);
+        }
+      });
+    }
+
+    this.endLocalScreenShare();
+    console.log('[WebRTC] Stopped screen share');
+  }
+
+  /**
+   * Release the local screen capture and producer
+   */
+  private endLocalScreenShare(): void {
+    if (!this.screenStream) return;
+
+    this.screenProducer?.close();
+    this.screenProducer = null;
+    this.screenStream.getTracks().forEach(track => track.stop());
+    this.screenStream = null;
+    this.updateRecordingMix();
+    this.onLocalScreenShare?.(null);
+  }
+
+  /**
+   * Ask the server to resume a producer a moderator paused
+   */
+  private resumeAfterModeration(kind: 'audio' | 'video'): void {
+    if (!this.socket || !this.pausedByModerator.has(kind)) return;
+
+    this.pausedByModerator.delete(kind);
+    this.socket.emit('resumeProducers', { roomId: this.roomId, kind }, (response: { error?: string }) => {
+      if (response.error) {
+        console.error(`[WebRTC] Error resuming ${kind}:`, response.error);
+      }
+    });
+  }
+
+  /**
+   * Tell the server how large a peer's video is shown, so it forwards the matching layer
+   */
+  setPreferredVideoSize(peerId: string, width: number, height: number): void {
+    // Layers are picked in device pixels
+    const size = {
+      width: Math.round(width * window.devicePixelRatio),
+      height: Math.round(height * window.devicePixelRatio),
+    };
+    this.preferredSizes.set(peerId, size);
+
+    const consumer = this.peers.get(peerId)?.videoConsumers.get('camera');
+    if (consumer) {
+      this.sendPreferredSize(consumer.id, size);
+    }
+  }
+
+  private sendPreferredSize(consumerId: string, size: { width: number; height: number }): void {
+    if (!this.socket) return;
+
+    this.socket.emit(
+      'setConsumerPreferredSize',
+      { roomId: this.roomId, consumerId, ...size },
+      (response: { error?: string }) => {
+        if (response.error) {
+          console.error('[WebRTC] Error setting preferred size:', response.error);
+        }
+      }
+    );
+  }
+
+  /**
+   * Get our role in the room
+   */
+  getRole(): PeerRole {
+    return this.role;
+  }
+
+  /**
+   * Get our own peer ID (as used in speaker events)
+   */
+  getLocalPeerId(): string | undefined {
+    return this.socket?.id;
+  }
+
+  /**
+   * Mute a participant (host/co-host only)
+   */
+  async muteParticipant(peerId: string): Promise<void> {
+    return this.moderate('muteParticipant', { peerId });
+  }
+
+  /**
+   * Turn off a participant's camera (host/co-host only)
+   */
+  async stopParticipantVideo(peerId: string): Promise<void> {
+    return this.moderate('stopParticipantVideo', { peerId });
+  }
+
+  /**
+   * Remove a participant from the meeting (host/co-host only)
+   */
+  async removeParticipant(peerId: string): Promise<void> {
+    return this.moderate('removeParticipant', { peerId });
+  }
+
+  /**
+   * Make a participant a co-host or take it back (host only)
+   */
+  async setParticipantRole(peerId: string, role: 'cohost' | 'participant'): Promise<void> {
+    return this.moderate('setParticipantRole', { peerId, role });
+  }
+
+  /**
+   * Lock or unlock the room for new joiners (host/co-host only)
+   */
+  async setRoomLocked(locked: boolean): Promise<void> {
+    return this.moderate('setRoomLocked', { locked });
+  }
+
+  private async moderate(event: string, payload: Record<string, string | boolean>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) return reject(new Error('Socket not connected'));
+
+      this.socket.emit(event, { roomId: this.roomId, ...payload }, (response: { success?: boolean; error?: string }) => {
+        if (response.error) {
+          reject(new Error(response.error));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Start recording the whole room on the server
+   */
+  async startServerRecording(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) return reject(new Error('Socket not connected'));
+
+      this.socket.emit('startServerRecording', { roomId: this.roomId }, (response: { recordingId?: string; error?: string }) => {
+        if (response.error) {
+          reject(new Error(response.error));
+        } else {
+          resolve(response.recordingId!);
+        }
+      });
+    });
+  }
+
+  /**
+   * Stop the room's server recording
+   */
+  async stopServerRecording(): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket) return reject(new Error('Socket not connected'));
+
+      this.socket.emit('stopServerRecording', { roomId: this.roomId }, (response: { recordingId?: string; error?: string }) => {
+        if (response.error) {
+          reject(new Error(response.error));
+        } else {
+          resolve(response.recordingId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Let a waiting participant in (host/co-host only)
+   */
+  async admitPeer(peerId: string): Promise<void> {
+    return this.moderate('admitPeer', { peerId });
+  }
+
+  /**
+   * Turn a waiting participant away (host/co-host only)
+   */
+  async denyPeer(peerId: string): Promise<void> {
+    return this.moderate('denyPeer', { peerId });
+  }
+
   /**
    * Get local stream
    */
@@ -534,207 +1104,190 @@ export class WebRTCManager {
   }
 
   /**
-   * Get mixed stream for recording using MultiStreamsMixer
-   * Uses dynamic grid layout based on participant count with fixed 1920x1080 canvas
-   * Grid sizes: 1=centered, 2-4=2x2, 5-9=3x3, 10-16=4x4, etc.
+   * Get mixed stream (video + audio) for recording
+   * Tiles and audio sources follow people joining, leaving and sharing screens while the recording runs
    */
-  getMixedStreamForRecording(): MediaStream {
-    // Collect all streams
-    const streams: MediaStream[] = [];
-
-    if (this.localStream) {
-      streams.push(this.localStream);
-    }
-
-    this.peers.forEach(peer => {
-      if (peer.stream) {
-        streams.push(peer.stream);
-      }
-    });
+  getMixedStreamForRecording(layout: RecordingLayout = 'grid'): MediaStream {
+    const videoStream = this.startVideoMix(layout);
+    const audioStream = this.startAudioMix();
 
-    if (streams.length === 0) {
-      throw new Error('No streams available to mix');
-    }
-
-    // Fixed canvas resolution (Full HD)
-    const canvasWidth = 1920;
-    const canvasHeight = 1080;
-
-    const streamCount = streams.length;
-
-    // Special case: single participant centered at 854x480
-    if (streamCount === 1) {
-			console.log("went to single participant");
-      const singleWidth = 854;
-      const singleHeight = 480;
-      const s = streams[0] as MediaStream & { width?: number; height?: number; left?: number; top?: number };
-      s.width = singleWidth;
-      s.height = singleHeight;
-      s.left = 0;
-      s.top = 0;
-
-      console.log(`[WebRTC] Single participant centered at ${s.left},${s.top} (${singleWidth}x${singleHeight})`);
-    } else {
-      // Calculate grid size: smallest square that fits all participants
-      // 2-4 -> 2x2, 5-9 -> 3x3, 10-16 -> 4x4, etc.
-      const gridSize = Math.ceil(Math.sqrt(streamCount));
-      const cellWidth = Math.floor(canvasWidth / gridSize);
-      const cellHeight = Math.floor(canvasHeight / gridSize);
-
-      // Position each stream in the grid
-      streams.forEach((stream, index) => {
-        const col = index % gridSize;
-        const row = Math.floor(index / gridSize);
-
-        const s = stream as MediaStream & { width?: number; height?: number; left?: number; top?: number };
-        s.width = cellWidth;
-        s.height = cellHeight;
-        s.left = col * cellWidth;
-        s.top = row * cellHeight;
-      });
+    return new MediaStream([...videoStream.getVideoTracks(), ...audioStream.getAudioTracks()]);
+  }
 
-      console.log(`[WebRTC] Grid layout: ${gridSize}x${gridSize} (${cellWidth}x${cellHeight} per cell) for ${streamCount} streams`);
-    }
+  /**
+   * Get audio-only stream for recording using Web Audio API
+   * Mixes the audio of everyone in the room, including people who join later
+   */
+  getAudioOnlyStream(): MediaStream {
+    return this.startAudioMix();
+  }
 
-    // Create mixer
-    this.mixer = new MultiStreamsMixer(streams);
+  /**
+   * Get video-only stream for recording using MultiStreamsMixer
+   */
+  getVideoOnlyStream(layout: RecordingLayout = 'grid'): MediaStream {
+    return this.startVideoMix(layout);
+  }
 
-    // Set canvas dimensions explicitly for fixed 1920x1080 output
-    this.mixer.width = canvasWidth;
-    this.mixer.height = canvasHeight;
+  /**
+   * Start the recording canvas; updateRecordingMix() lays out the tiles
+   */
+  private startVideoMix(layout: RecordingLayout): MediaStream {
+    this.recordingLayout = layout;
+
+    // MultiStreamsMixer sizes its canvas from the first tile unless a stream is marked fullcanvas,
+    // so a blank full-size stream keeps the canvas at 1920x1080 whatever the tiles are
+    const background = document.createElement('canvas');
+    background.width = 2;
+    background.height = 2;
+    const backgroundStream = background.captureStream(1) as MixerStream;
+    backgroundStream.fullcanvas = true;
+    backgroundStream.width = RECORDING_CANVAS_WIDTH;
+    backgroundStream.height = RECORDING_CANVAS_HEIGHT;
+    this.mixerBackground = backgroundStream;
+
+    this.mixer = new MultiStreamsMixer([backgroundStream]);
+    this.mixer.width = RECORDING_CANVAS_WIDTH;
+    this.mixer.height = RECORDING_CANVAS_HEIGHT;
 
     // Set frame interval for 30fps (1000ms / 30fps ≈ 33ms)
     this.mixer.frameInterval = 33;
 
+    const stream: MediaStream = this.mixer.getMixedStream();
+    this.updateVideoMix();
+
     // Start drawing frames (required for video mixing)
     this.mixer.startDrawingFrames();
 
-    console.log(`[WebRTC] Created mixed stream from ${streams.length} streams (${canvasWidth}x${canvasHeight} canvas)`);
-
-    return this.mixer.getMixedStream();
+    return stream;
   }
 
   /**
-   * Get audio-only stream for recording using Web Audio API
-   * Mixes all audio tracks from local and remote streams
+   * Start mixing audio for a recording; updateRecordingMix() adds and removes the sources
    */
-  getAudioOnlyStream(): MediaStream {
-    // Create AudioContext if not exists
+  private startAudioMix(): MediaStream {
     this.audioContext = new AudioContext();
     this.audioDestination = this.audioContext.createMediaStreamDestination();
+    this.updateAudioMix();
 
-    // Collect all audio tracks
-    const audioTracks: MediaStreamTrack[] = [];
+    return this.audioDestination.stream;
+  }
 
-    if (this.localStream) {
-      this.localStream.getAudioTracks().forEach(track => {
-        audioTracks.push(track);
+  /**
+   * Bring a running recording up to date with who is in the room
+   */
+  private updateRecordingMix(): void {
+    if (this.mixer) this.updateVideoMix();
+    if (this.audioContext) this.updateAudioMix();
+  }
+
+  /**
+   * Lay the current cameras and screen shares out on the recording canvas with the chosen layout
+   * Tiles keep their stream while they stay on the canvas, so re-laying out doesn't restart their video
+   */
+  private updateVideoMix(): void {
+    if (!this.mixer || !this.mixerBackground) return;
+
+    // Every camera and screen share in the room, ours first
+    const sources: { tile: LayoutTile; track: MediaStreamTrack }[] = [];
+    const localPeerId = this.socket?.id ?? 'local';
+    const localName = getUsername() ?? 'You';
+
+    const localVideo = this.localStream?.getVideoTracks()[0];
+    if (localVideo) {
+      sources.push({ tile: { id: localPeerId, peerId: localPeerId, label: localName, kind: 'camera' }, track: localVideo });
+    }
+    const localScreen = this.screenStream?.getVideoTracks()[0];
+    if (localScreen) {
+      sources.push({
+        tile: { id: `${localPeerId}:screen`, peerId: localPeerId, label: `${localName} (screen)`, kind: 'screen' },
+        track: localScreen,
       });
     }
 
     this.peers.forEach(peer => {
-      if (peer.stream) {
-        peer.stream.getAudioTracks().forEach(track => {
-          audioTracks.push(track);
+      const video = peer.stream?.getVideoTracks()[0];
+      if (video) {
+        sources.push({ tile: { id: peer.peerId, peerId: peer.peerId, label: peer.username, kind: 'camera' }, track: video });
+      }
+      const screen = peer.screenStream?.getVideoTracks()[0];
+      if (screen) {
+        sources.push({
+          tile: { id: `${peer.peerId}:screen`, peerId: peer.peerId, label: `${peer.username} (screen)`, kind: 'screen' },
+          track: screen,
         });
       }
     });
 
-    if (audioTracks.length === 0) {
-      throw new Error('No audio tracks available to mix');
-    }
-
-    // Connect each audio track to the destination
-    audioTracks.forEach(track => {
-      const source = this.audioContext!.createMediaStreamSource(new MediaStream([track]));
-      source.connect(this.audioDestination!);
+    const rects = computeLayout(this.recordingLayout, sources.map(source => source.tile), {
+      width: RECORDING_CANVAS_WIDTH,
+      height: RECORDING_CANVAS_HEIGHT,
+      gap: RECORDING_TILE_GAP,
+      activeSpeakerId: this.activeSpeakerPeerId,
+      localPeerId,
     });
 
-    console.log(`[WebRTC] Created audio-only stream from ${audioTracks.length} audio tracks`);
+    const tiles = new Map<string, MixerStream>();
+    let changed = false;
 
-    return this.audioDestination.stream;
-  }
+    for (const rect of rects) {
+      const { track } = sources.find(source => source.tile.id === rect.tile.id)!;
 
-  /**
-   * Get video-only stream for recording using MultiStreamsMixer
-   * Creates grid layout with video tracks only (no audio)
-   */
-  getVideoOnlyStream(): MediaStream {
-    // Collect all streams but create new streams with only video tracks
-    const videoOnlyStreams: MediaStream[] = [];
-
-    if (this.localStream) {
-      const videoTracks = this.localStream.getVideoTracks();
-      if (videoTracks.length > 0) {
-        videoOnlyStreams.push(new MediaStream(videoTracks));
+      let stream = this.mixerTiles.get(rect.tile.id);
+      if (!stream || stream.getVideoTracks()[0] !== track) {
+        stream = new MediaStream([track]) as MixerStream;
+        changed = true;
       }
+
+      const label = rect.tile.label;
+      stream.left = rect.x;
+      stream.top = rect.y;
+      stream.width = rect.width;
+      stream.height = rect.height;
+      stream.onRender = (context, x, y, width, height) => drawTileLabel(context, label, x, y, width, height);
+      tiles.set(rect.tile.id, stream);
     }
 
-    this.peers.forEach(peer => {
-      if (peer.stream) {
-        const videoTracks = peer.stream.getVideoTracks();
-        if (videoTracks.length > 0) {
-          videoOnlyStreams.push(new MediaStream(videoTracks));
-        }
-      }
-    });
+    // Tiles are drawn in order; speaker layout overlaps them, so a new stage has to go back to the bottom
+    const reordered =
+      this.recordingLayout === 'speaker' && Array.from(tiles.keys()).join() !== Array.from(this.mixerTiles.keys()).join();
 
-    if (videoOnlyStreams.length === 0) {
-      throw new Error('No video tracks available to mix');
+    if (changed || reordered || tiles.size !== this.mixerTiles.size) {
+      this.mixer.resetVideoStreams([this.mixerBackground, ...tiles.values()]);
     }
+    this.mixerTiles = tiles;
 
-    // Fixed canvas resolution (Full HD)
-    const canvasWidth = 1920;
-    const canvasHeight = 1080;
-
-    const streamCount = videoOnlyStreams.length;
-
-    // Special case: single participant centered at 854x480
-    if (streamCount === 1) {
-      console.log('[WebRTC] Video-only: single participant');
-      const singleWidth = 854;
-      const singleHeight = 480;
-      const s = videoOnlyStreams[0] as MediaStream & { width?: number; height?: number; left?: number; top?: number };
-      s.width = singleWidth;
-      s.height = singleHeight;
-      s.left = 0;
-      s.top = 0;
-    } else {
-      // Calculate grid size: smallest square that fits all participants
-      const gridSize = Math.ceil(Math.sqrt(streamCount));
-      const cellWidth = Math.floor(canvasWidth / gridSize);
-      const cellHeight = Math.floor(canvasHeight / gridSize);
-
-      // Position each stream in the grid
-      videoOnlyStreams.forEach((stream, index) => {
-        const col = index % gridSize;
-        const row = Math.floor(index / gridSize);
-
-        const s = stream as MediaStream & { width?: number; height?: number; left?: number; top?: number };
-        s.width = cellWidth;
-        s.height = cellHeight;
-        s.left = col * cellWidth;
-        s.top = row * cellHeight;
-      });
+    console.log(`[WebRTC] Recording ${this.recordingLayout} layout with ${tiles.size} tile(s)`);
+  }
 
-      console.log(`[WebRTC] Video-only grid layout: ${gridSize}x${gridSize} for ${streamCount} streams`);
-    }
+  /**
+   * Connect every microphone in the room to the recording, and drop the ones that are gone
+   */
+  private updateAudioMix(): void {
+    if (!this.audioContext || !this.audioDestination) return;
 
-    // Create mixer with video-only streams
-    this.mixer = new MultiStreamsMixer(videoOnlyStreams);
+    const tracks: MediaStreamTrack[] = [...(this.localStream?.getAudioTracks() ?? [])];
+    this.peers.forEach(peer => {
+      tracks.push(...(peer.stream?.getAudioTracks() ?? []));
+    });
 
-    // Set canvas dimensions
-    this.mixer.width = canvasWidth;
-    this.mixer.height = canvasHeight;
-    this.mixer.frameInterval = 33;
+    const current = new Set(tracks.map(track => track.id));
+    this.recordingAudioSources.forEach((source, trackId) => {
+      if (!current.has(trackId)) {
+        source.disconnect();
+        this.recordingAudioSources.delete(trackId);
+      }
+    });
 
-    // Start drawing frames
-    this.mixer.startDrawingFrames();
+    for (const track of tracks) {
+      if (this.recordingAudioSources.has(track.id)) continue;
 
-    console.log(`[WebRTC] Created video-only stream from ${videoOnlyStreams.length} streams`);
+      const source = this.audioContext.createMediaStreamSource(new MediaStream([track]));
+      source.connect(this.audioDestination);
+      this.recordingAudioSources.set(track.id, source);
+    }
 
-    // Get mixed stream - this will have video but no audio
-    return this.mixer.getMixedStream();
+    console.log(`[WebRTC] Recording audio from ${this.recordingAudioSources.size} track(s)`);
   }
 
   /**
@@ -747,7 +1300,13 @@ export class WebRTCManager {
       console.log('[WebRTC] Mixer stopped and released');
     }
 
+    this.mixerBackground?.getTracks().forEach(track => track.stop());
+    this.mixerBackground = null;
+    this.mixerTiles.clear();
+
     if (this.audioContext) {
+      this.recordingAudioSources.forEach(source => source.disconnect());
+      this.recordingAudioSources.clear();
       this.audioContext.close();
       this.audioContext = null;
       this.audioDestination = null;
@@ -770,6 +1329,7 @@ export class WebRTCManager {
     if (this.localStream) {
       this.localStream.getTracks().forEach(track => track.stop());
     }
+    this.screenStream?.getTracks().forEach(track => track.stop());
 
     // Disconnect socket
     if (this.socket) {
@@ -780,6 +1340,8 @@ export class WebRTCManager {
     // Clear state
     this.peers.clear();
     this.localStream = null;
+    this.screenStream = null;
+    this.screenProducer = null;
     this.device = null;
 
     console.log('[WebRTC] Disconnected');
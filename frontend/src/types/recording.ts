@@ -24,3 +24,30 @@ export const RECORDING_MODE_CONFIG: Record<RecordingMode, { label: string; icon:
   },
 };
 
+
+/**
+ * How participants are arranged on the recording canvas
+ */
+export type RecordingLayout = 'grid' | 'speaker' | 'filmstrip' | 'presenter';
+
+/**
+ * Recording layout configuration
+ */
+export const RECORDING_LAYOUT_CONFIG: Record<RecordingLayout, { label: string; icon: string }> = {
+  grid: {
+    label: 'Grid',
+    icon: '▦',
+  },
+  speaker: {
+    label: 'Active Speaker',
+    icon: '🗣️',
+  },
+  filmstrip: {
+    label: 'Filmstrip',
+    icon: '🎞️',
+  },
+  presenter: {
+    label: 'Presenter',
+    icon: '🖥️',
+  },
+};